@@ -0,0 +1,498 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Feature } from 'geojson';
+import type { CustomLayer, LayerConfig, MapConfig, MapEvent, ProviderCapabilities, StyleExpression } from './types';
+import { UniversalMap } from './UniversalMap';
+import { MockMapProvider } from '../providers/mock';
+
+/**
+ * Capabilities of a provider drawing neither 3D Tiles nor vector tiles
+ */
+const FLAT_CAPABILITIES: ProviderCapabilities = {
+  supports3D: false,
+  supportsVectorTiles: false,
+  supports3DTiles: false,
+  supportsCustomProjections: false,
+  supportsTerrain: false,
+  requiresApiKey: false,
+};
+
+class FlatMapProvider extends MockMapProvider {
+  readonly capabilities = FLAT_CAPABILITIES;
+}
+
+class BrokenMapProvider extends MockMapProvider {
+  async initialize(): Promise<void> {
+    throw new Error('No WebGL');
+  }
+}
+
+function point(id: string, lat: number, lng: number, properties: Record<string, unknown> = {}): Feature {
+  return { type: 'Feature', id, geometry: { type: 'Point', coordinates: [lng, lat] }, properties };
+}
+
+function pointsLayer(id: string, features: Feature[] = [], config: Partial<LayerConfig> = {}): LayerConfig {
+  return { id, type: 'points', source: { type: 'FeatureCollection', features }, ...config };
+}
+
+function customLayer(id: string, hooks: Partial<CustomLayer> = {}): LayerConfig {
+  const customLayer: CustomLayer = { onAdd: vi.fn(), render: vi.fn(), onRemove: vi.fn(), ...hooks };
+  return { id, type: 'custom', source: { type: 'custom' }, customLayer };
+}
+
+async function createMap(config: Partial<MapConfig> = {}): Promise<UniversalMap> {
+  const map = new UniversalMap({ provider: 'mock', container: 'map', center: [0, 0], zoom: 4, ...config });
+  await map.initialize();
+  return map;
+}
+
+function getProvider(map: UniversalMap): MockMapProvider {
+  return map.getProvider() as MockMapProvider;
+}
+
+let map: UniversalMap;
+
+beforeEach(() => {
+  UniversalMap.registerProvider('flat', () => new FlatMapProvider());
+  UniversalMap.registerProvider('broken', () => new BrokenMapProvider());
+});
+
+afterEach(() => {
+  map?.destroy();
+  UniversalMap.unregisterProvider('flat');
+  UniversalMap.unregisterProvider('broken');
+});
+
+describe('switchProvider', () => {
+  it('keeps the camera, layers and listeners', async () => {
+    map = await createMap({ center: [48.85, 2.35], zoom: 11 });
+    await map.addLayer(pointsLayer('cafes'));
+    const onClick = vi.fn();
+    map.on('click', onClick);
+
+    await map.switchProvider('flat');
+
+    expect(map.getProvider()).toBeInstanceOf(FlatMapProvider);
+    expect(map.getViewState()).toMatchObject({ center: [48.85, 2.35], zoom: 11 });
+    expect(map.getLayers().map((layer) => layer.id)).toEqual(['cafes']);
+    getProvider(map).simulateEvent('click', { lngLat: [48.85, 2.35] });
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('restores the previous provider when the new one fails to initialize', async () => {
+    map = await createMap({ center: [48.85, 2.35], zoom: 11 });
+    await map.addLayer(pointsLayer('cafes'));
+
+    await expect(map.switchProvider('broken')).rejects.toMatchObject({ code: 'PROVIDER_SWITCH_ERROR' });
+
+    expect(map.getProvider()).not.toBeInstanceOf(BrokenMapProvider);
+    expect(map.isReady()).toBe(true);
+    expect(map.getConfig().provider).toBe('mock');
+    expect(map.getViewState()).toMatchObject({ center: [48.85, 2.35], zoom: 11 });
+    expect(map.getLayers().map((layer) => layer.id)).toEqual(['cafes']);
+  });
+
+  it('leaves the map untouched when the provider is unknown', async () => {
+    map = await createMap();
+    const provider = map.getProvider();
+
+    await expect(map.switchProvider('unknown')).rejects.toMatchObject({ code: 'PROVIDER_NOT_FOUND' });
+    expect(map.getProvider()).toBe(provider);
+  });
+});
+
+describe('layer negotiation', () => {
+  const buildings: LayerConfig = {
+    id: 'buildings',
+    type: '3d-tiles',
+    source: 'https://example.com/tileset.json',
+    fallback: { type: 'polygons', source: { type: 'FeatureCollection', features: [] }, style: { extrusionHeight: 20 } },
+  };
+
+  it('reports the layer types the provider can render', async () => {
+    map = await createMap({ provider: 'flat' });
+
+    expect(map.canRender('3d-tiles')).toBe(false);
+    expect(map.canRender('vector-tiles')).toBe(false);
+    expect(map.canRender('polygons')).toBe(true);
+  });
+
+  it('renders the declared fallback of layers the provider cannot render', async () => {
+    map = await createMap({ provider: 'flat' });
+    await map.addLayer(buildings);
+
+    expect(map.getLayer('buildings')).toMatchObject({ type: 'polygons', style: { extrusionHeight: 20 } });
+  });
+
+  it('renders the requested layer again on a provider that can', async () => {
+    map = await createMap({ provider: 'flat' });
+    await map.addLayer(buildings);
+
+    await map.switchProvider('mock');
+
+    expect(map.getLayer('buildings')?.type).toBe('3d-tiles');
+  });
+
+  it('rejects layers the provider cannot render under the error policy', async () => {
+    map = await createMap({ provider: 'flat', unsupportedLayerPolicy: 'error' });
+
+    await expect(map.addLayer(buildings)).rejects.toMatchObject({ code: 'UNSUPPORTED_LAYER' });
+    expect(map.getLayers()).toEqual([]);
+  });
+
+  it('rejects layers without a fallback the provider can render', async () => {
+    map = await createMap({ provider: 'flat' });
+    const tiles: LayerConfig = { id: 'roads', type: 'vector-tiles', source: 'https://example.com/{z}/{x}/{y}.pbf' };
+
+    await expect(map.addLayer(tiles)).rejects.toMatchObject({
+      code: 'UNSUPPORTED_LAYER',
+      details: { layerId: 'roads', layerType: 'vector-tiles' },
+    });
+  });
+});
+
+describe('layer order', () => {
+  beforeEach(async () => {
+    map = await createMap();
+    await map.addLayer(pointsLayer('a'));
+    await map.addLayer(pointsLayer('b'));
+  });
+
+  it('stacks layers in the order they are added', () => {
+    expect(map.getLayerOrder()).toEqual(['a', 'b']);
+  });
+
+  it('inserts layers below beforeId', async () => {
+    await map.addLayer(pointsLayer('c'), { beforeId: 'a' });
+
+    expect(map.getLayerOrder()).toEqual(['c', 'a', 'b']);
+    expect(map.getLayers().map((layer) => layer.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('moves layers below another layer, or to the top', () => {
+    map.moveLayer('b', 'a');
+    expect(map.getLayerOrder()).toEqual(['b', 'a']);
+
+    map.moveLayer('b');
+    expect(map.getLayerOrder()).toEqual(['a', 'b']);
+  });
+
+  it('keeps the position of updated layers', async () => {
+    await map.updateLayer('a', { style: { fillColor: '#ff0000' } });
+
+    expect(map.getLayerOrder()).toEqual(['a', 'b']);
+  });
+});
+
+describe('zoom ranges', () => {
+  it('hides layers outside their zoom range', async () => {
+    map = await createMap({ zoom: 4 });
+    const layer = customLayer('streets');
+    await map.addLayer({ ...layer, minZoom: 10 });
+    const { render } = layer.customLayer!;
+
+    expect(map.isLayerActive('streets')).toBe(false);
+    expect(render).not.toHaveBeenCalled();
+
+    map.setZoom(12);
+    expect(map.isLayerActive('streets')).toBe(true);
+    expect(render).toHaveBeenCalled();
+    expect(map.getLayer('streets')?.visible).toBeUndefined();
+  });
+
+  it('emits layer:active and layer:inactive when the zoom crosses a range', async () => {
+    map = await createMap({ zoom: 4 });
+    await map.addLayer(pointsLayer('streets', [], { minZoom: 10, maxZoom: 16 }));
+    const events: string[] = [];
+    map.on('layer:active', (event) => events.push(`${event.type} ${event.layerId}`));
+    map.on('layer:inactive', (event) => events.push(`${event.type} ${event.layerId}`));
+
+    map.setZoom(12);
+    map.setZoom(14);
+    map.setZoom(18);
+
+    expect(events).toEqual(['layer:active streets', 'layer:inactive streets']);
+  });
+
+  it('keeps layers hidden by the user hidden inside their zoom range', async () => {
+    map = await createMap({ zoom: 4 });
+    const layer = customLayer('streets');
+    await map.addLayer({ ...layer, minZoom: 10, visible: false });
+
+    map.setZoom(12);
+
+    expect(layer.customLayer!.render).not.toHaveBeenCalled();
+  });
+});
+
+describe('layer groups', () => {
+  beforeEach(async () => {
+    map = await createMap();
+    await map.addLayer(pointsLayer('base'));
+    await map.addLayerGroup({
+      id: 'transport',
+      opacity: 0.5,
+      children: [
+        pointsLayer('rail', [], { opacity: 0.8 }),
+        { id: 'roads', children: [pointsLayer('streets'), pointsLayer('highways', [], { visible: false })] },
+      ],
+    });
+  });
+
+  it('draws the layers of groups in tree order', () => {
+    expect(map.getLayerOrder()).toEqual(['base', 'rail', 'streets', 'highways']);
+  });
+
+  it('returns the layers in their groups', () => {
+    const tree = map.getLayers({ tree: true });
+
+    expect(tree.map((item) => item.id)).toEqual(['base', 'transport']);
+    expect(map.getLayerGroup('roads')).toMatchObject({
+      id: 'roads',
+      visible: true,
+      opacity: 1,
+      children: [{ id: 'streets' }, { id: 'highways' }],
+    });
+  });
+
+  it('multiplies the opacity of groups into their layers', () => {
+    map.setLayerGroupOpacity('roads', 0.5);
+
+    expect(getProvider(map).getLayer('rail')?.opacity).toBeCloseTo(0.4);
+    expect(getProvider(map).getLayer('streets')?.opacity).toBeCloseTo(0.25);
+    expect(map.getLayer('rail')?.opacity).toBe(0.8);
+  });
+
+  it('hides the layers of hidden groups and shows only visible layers again', () => {
+    map.setLayerGroupVisibility('transport', false);
+    expect(getProvider(map).getLayer('streets')?.visible).toBe(false);
+    expect(map.getLayer('streets')?.visible).toBeUndefined();
+
+    map.setLayerGroupVisibility('transport', true);
+    expect(getProvider(map).getLayer('streets')?.visible).toBe(true);
+    expect(getProvider(map).getLayer('highways')?.visible).toBe(false);
+  });
+
+  it('keeps layers in hidden groups hidden when they are shown', () => {
+    map.setLayerGroupVisibility('roads', false);
+    map.setLayerVisibility('highways', true);
+
+    expect(getProvider(map).getLayer('highways')?.visible).toBe(false);
+    expect(map.getLayer('highways')?.visible).toBe(true);
+  });
+
+  it('moves groups as a unit', () => {
+    map.moveLayer('transport', 'base');
+    expect(map.getLayerOrder()).toEqual(['rail', 'streets', 'highways', 'base']);
+
+    map.moveLayer('base', 'streets');
+    expect(map.getLayerOrder()).toEqual(['rail', 'base', 'streets', 'highways']);
+    expect(map.getLayerGroup('roads')?.children.map((item) => item.id)).toEqual(['base', 'streets', 'highways']);
+  });
+
+  it('adds layers to groups below beforeId', async () => {
+    await map.addLayer(pointsLayer('trams'), { groupId: 'transport', beforeId: 'rail' });
+
+    expect(map.getLayerOrder()).toEqual(['base', 'trams', 'rail', 'streets', 'highways']);
+  });
+
+  it('removes groups with all their layers', () => {
+    map.removeLayerGroup('transport');
+
+    expect(map.getLayerOrder()).toEqual(['base']);
+    expect(map.getLayerGroup('roads')).toBeUndefined();
+  });
+});
+
+describe('feature queries', () => {
+  // At zoom 4 around [0, 0], the mock viewport of 800x600 pixels is centered on [400, 300]
+  const paris = point('paris', 0, 0, { name: 'Paris', population: 2100000 });
+  const lyon = point('lyon', 0, 0, { name: 'Lyon', population: 520000 });
+  const oslo = point('oslo', 10, 10, { name: 'Oslo', population: 700000 });
+
+  beforeEach(async () => {
+    map = await createMap();
+    await map.addLayer(pointsLayer('cities', [paris, oslo]));
+    await map.addLayer(pointsLayer('towns', [lyon]));
+  });
+
+  it('gets the features drawn at a point, from the top layer down', () => {
+    const features = map.queryRenderedFeatures([400, 300]);
+
+    expect(features.map((feature) => [feature.layerId, feature.id])).toEqual([
+      ['towns', 'lyon'],
+      ['cities', 'paris'],
+    ]);
+    expect(features[0].properties).toEqual({ name: 'Lyon', population: 520000 });
+  });
+
+  it('queries only some layers and features matching a filter', () => {
+    expect(map.queryRenderedFeatures([400, 300], { layers: ['cities'] }).map((feature) => feature.id)).toEqual([
+      'paris',
+    ]);
+    const filter: StyleExpression = ['>', ['get', 'population'], 1000000];
+    expect(map.queryRenderedFeatures([400, 300], { filter }).map((feature) => feature.id)).toEqual(['paris']);
+  });
+
+  it('gets the features in a box', () => {
+    const features = map.queryRenderedFeatures([[0, 0], [800, 600]], { layers: ['cities'] });
+
+    expect(features.map((feature) => feature.id).sort()).toEqual(['oslo', 'paris']);
+  });
+
+  it('does not query hidden layers', () => {
+    map.setLayerVisibility('towns', false);
+
+    expect(map.queryRenderedFeatures([400, 300]).map((feature) => feature.layerId)).toEqual(['cities']);
+  });
+
+  it('gets the source features of a layer, drawn or not', () => {
+    expect(map.querySourceFeatures('cities').map((feature) => feature.id)).toEqual(['paris', 'oslo']);
+    expect(map.querySourceFeatures('cities', ['<', ['get', 'population'], 1000000])).toEqual([oslo]);
+  });
+
+  it('adds the features under the pointer to pointer events', () => {
+    const onClick = vi.fn();
+    map.on('click', onClick);
+
+    getProvider(map).simulateEvent('click', { point: [400, 300] });
+
+    const event: MapEvent = onClick.mock.calls[0][0];
+    expect(event.features?.map((feature) => feature.id)).toEqual(['lyon', 'paris']);
+  });
+});
+
+describe('feature state', () => {
+  beforeEach(async () => {
+    map = await createMap();
+    await map.addLayer(pointsLayer('cities', [point('paris', 0, 0)]));
+  });
+
+  it('merges keys into the state of a feature', () => {
+    map.setFeatureState({ layerId: 'cities', featureId: 'paris' }, { hover: true });
+    map.setFeatureState({ layerId: 'cities', featureId: 'paris' }, { selected: true });
+
+    expect(map.getFeatureState({ layerId: 'cities', featureId: 'paris' })).toEqual({ hover: true, selected: true });
+    expect(map.getFeatureState({ layerId: 'cities', featureId: 'lyon' })).toEqual({});
+  });
+
+  it('removes one key or the whole state', () => {
+    map.setFeatureState({ layerId: 'cities', featureId: 'paris' }, { hover: true, selected: true });
+
+    map.removeFeatureState({ layerId: 'cities', featureId: 'paris' }, 'hover');
+    expect(map.getFeatureState({ layerId: 'cities', featureId: 'paris' })).toEqual({ selected: true });
+
+    map.removeFeatureState({ layerId: 'cities' });
+    expect(map.getFeatureState({ layerId: 'cities', featureId: 'paris' })).toEqual({});
+  });
+
+  it('forgets the state of removed layers', async () => {
+    map.setFeatureState({ layerId: 'cities', featureId: 'paris' }, { selected: true });
+    map.removeLayer('cities');
+    await map.addLayer(pointsLayer('cities', [point('paris', 0, 0)]));
+
+    expect(map.getFeatureState({ layerId: 'cities', featureId: 'paris' })).toEqual({});
+  });
+
+  it('throws for unknown layers', () => {
+    expect(() => map.setFeatureState({ layerId: 'towns', featureId: 'lyon' }, { hover: true })).toThrow(
+      'Layer towns not found'
+    );
+  });
+
+  it('draws custom layers again when the state of their features changes', async () => {
+    const layer = customLayer('wind');
+    await map.addLayer(layer);
+    vi.mocked(layer.customLayer!.render).mockClear();
+
+    map.setFeatureState({ layerId: 'wind', featureId: 1 }, { hover: true });
+
+    expect(layer.customLayer!.render).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('popups', () => {
+  beforeEach(async () => {
+    map = await createMap();
+    await map.addLayer(pointsLayer('cities'));
+  });
+
+  it('closes popups on map clicks unless disabled', () => {
+    const popup = map.openPopup([0, 0], 'Paris');
+    const pinned = map.openPopup([0, 0], 'Lyon', { closeOnClick: false });
+
+    getProvider(map).simulateEvent('click', { point: [0, 0] });
+
+    expect(popup.isOpen()).toBe(false);
+    expect(map.getPopups()).toEqual([pinned]);
+  });
+
+  it('closes the popups of a layer when the layer is removed', () => {
+    const popup = map.openPopup([0, 0], 'Paris', { layerId: 'cities' });
+    const other = map.openPopup([0, 0], 'Lyon');
+
+    map.removeLayer('cities');
+
+    expect(popup.isOpen()).toBe(false);
+    expect(other.isOpen()).toBe(true);
+  });
+
+  it('keeps popups across provider switches', async () => {
+    const popup = map.openPopup([0, 0], 'Paris');
+
+    await map.switchProvider('flat');
+
+    expect(map.getPopups()).toEqual([popup]);
+  });
+
+  it('closes all popups', () => {
+    map.openPopup([0, 0], 'Paris');
+    map.openPopup([10, 10], 'Oslo');
+
+    map.closePopups();
+
+    expect(map.getPopups()).toEqual([]);
+  });
+});
+
+describe('custom layers', () => {
+  beforeEach(async () => {
+    map = await createMap();
+  });
+
+  it('rejects custom layers without render hooks', async () => {
+    const layer: LayerConfig = { id: 'wind', type: 'custom', source: { type: 'custom' } };
+
+    await expect(map.addLayer(layer)).rejects.toMatchObject({ code: 'INVALID_LAYER' });
+    expect(map.getLayers()).toEqual([]);
+  });
+
+  it('calls the render hooks over the layer lifecycle', async () => {
+    const layer = customLayer('wind');
+    const { onAdd, render, onRemove } = layer.customLayer!;
+
+    await map.addLayer(layer);
+    expect(onAdd).toHaveBeenCalledWith(expect.objectContaining({ layer: expect.objectContaining({ id: 'wind' }) }));
+    expect(render).toHaveBeenCalledTimes(1);
+
+    map.setZoom(6);
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(render).mock.calls[1][0]).toMatchObject({ zoom: 6 });
+
+    map.removeLayer('wind');
+    expect(onRemove).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes a projection to the hooks', async () => {
+    const layer = customLayer('wind');
+    await map.addLayer(layer);
+
+    const [context] = vi.mocked(layer.customLayer!.onAdd).mock.calls[0];
+    expect(context.projection.project([0, 0])).toEqual([400, 300]);
+  });
+
+  it('picks features through the pick hook', async () => {
+    await map.addLayer(customLayer('wind', { pick: () => [point('gust', 0, 0)] }));
+
+    expect(map.queryRenderedFeatures([400, 300])).toMatchObject([{ id: 'gust', layerId: 'wind' }]);
+  });
+});
@@ -2,28 +2,66 @@
  * UniversalMap - Main entry point for the map component
  */
 
+import type { Feature } from 'geojson';
 import type {
   MapConfig,
   ViewState,
   LayerConfig,
+  AddLayerOptions,
+  LayerGroupConfig,
+  LayerTreeItem,
   MapEventType,
   MapEventHandler,
   CameraOptions,
   BoundingBox,
   Coordinates,
+  LayerType,
+  ProviderCapabilities,
+  RenderedFeature,
+  ScreenPoint,
+  ScreenBox,
+  QueryFeaturesOptions,
+  StyleExpression,
+  FeatureId,
+  FeatureState,
+  FeatureIdentifier,
+  MapEvent,
+  LayerTooltip,
+  PopupContent,
+  PopupOptions,
 } from './types';
 import type { IMapProvider } from './provider';
+import type { ProviderLoader, ProviderInfo } from './registry';
 import { EventEmitter } from './events';
 import { MapError } from './types';
+import { createDefaultProviderRegistry } from '../providers/registry';
+import { canRenderLayerType, negotiateLayer } from './capabilities';
+import { validateLayerStyle } from './expressions';
+import { hasCustomLayerHooks } from './layer';
+import { LayerTree, isLayerGroupConfig } from './layer-group';
+import { Popup, PopupManager, renderTooltip } from './popup';
 
 /**
  * Main UniversalMap class
  * Provides a unified interface for working with different map providers
  */
 export class UniversalMap {
+  private static providers = createDefaultProviderRegistry();
+
   private provider?: IMapProvider;
   private config: MapConfig;
   private eventEmitter: EventEmitter;
+  private eventForwarders: Map<MapEventType, MapEventHandler> = new Map();
+  /** Requested configurations of layers rendered through a fallback */
+  private substitutedLayers: Map<string, LayerConfig> = new Map();
+  /** Layers and groups, in draw order */
+  private layerTree: LayerTree = new LayerTree();
+  /** Own visibility and opacity of layers in groups, which are drawn combined with their groups' */
+  private groupedLayerStates: Map<string, Pick<LayerConfig, 'visible' | 'opacity'>> = new Map();
+  /** Errors the provider already reported as `layer:error` */
+  private reportedLayerErrors: WeakSet<MapError> = new WeakSet();
+  /** Popups and tooltips, which are kept across provider switches */
+  private popups: PopupManager = new PopupManager((coordinates) => this.provider?.project(coordinates));
   private initialized: boolean = false;
 
   constructor(config: MapConfig) {
@@ -32,6 +70,51 @@ export class UniversalMap {
     this.validateConfig(config);
   }
 
+  /**
+   * Register a map provider
+   * The loader is only called when a map using this provider is initialized.
+   * @param capabilities Capabilities reported by `getProviderCapabilities` and
+   * `listProviders` without loading the provider
+   */
+  static registerProvider(name: string, loader: ProviderLoader, capabilities?: ProviderCapabilities): void {
+    UniversalMap.providers.register(name, loader, capabilities);
+  }
+
+  /**
+   * Unregister a map provider
+   */
+  static unregisterProvider(name: string): void {
+    UniversalMap.providers.unregister(name);
+  }
+
+  /**
+   * Check if a map provider is registered
+   */
+  static hasProvider(name: string): boolean {
+    return UniversalMap.providers.has(name);
+  }
+
+  /**
+   * Get the names of all registered map providers
+   */
+  static getProviderNames(): string[] {
+    return UniversalMap.providers.getNames();
+  }
+
+  /**
+   * Get the capabilities of a registered map provider
+   */
+  static getProviderCapabilities(name: string): Promise<ProviderCapabilities> {
+    return UniversalMap.providers.getCapabilities(name);
+  }
+
+  /**
+   * List all registered map providers with their capabilities
+   */
+  static listProviders(): Promise<ProviderInfo[]> {
+    return UniversalMap.providers.list();
+  }
+
   /**
    * Initialize the map
    */
@@ -48,6 +131,7 @@ export class UniversalMap {
 
       // Forward provider events to our event emitter
       this.setupEventForwarding();
+      this.popups.mount(this.getContainer());
 
       this.eventEmitter.emit('load', {
         type: 'load',
@@ -66,7 +150,12 @@ export class UniversalMap {
    * Destroy the map and clean up resources
    */
   destroy(): void {
+    this.popups.destroy();
+    this.substitutedLayers.clear();
+    this.layerTree.clear();
+    this.groupedLayerStates.clear();
     if (this.provider) {
+      this.teardownEventForwarding();
       this.provider.destroy();
       this.provider = undefined;
     }
@@ -74,6 +163,58 @@ export class UniversalMap {
     this.initialized = false;
   }
 
+  /**
+   * Switch to another map provider at runtime
+   * The camera, layers and event listeners are carried over to the new provider,
+   * which is created in the same container. If the new provider fails to
+   * initialize, the previous provider is restored and the error is rethrown.
+   * @param providerName Name of a registered provider
+   * @param overrides Configuration for the new provider, e.g. its `apiKey`
+   */
+  async switchProvider(
+    providerName: MapConfig['provider'],
+    overrides: Partial<Omit<MapConfig, 'provider' | 'container'>> = {}
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    const viewState = this.provider!.getViewState();
+    const layers = this.provider!
+      .getLayers()
+      .map((layer) => this.substitutedLayers.get(layer.id) ?? layer);
+    const previousConfig = this.config;
+
+    // Create the new provider before tearing down the old one,
+    // so an unknown provider name leaves the map untouched
+    const provider = await this.createProvider(providerName);
+
+    this.teardownEventForwarding();
+    this.provider!.destroy();
+    this.provider = undefined;
+    this.initialized = false;
+
+    try {
+      await this.attachProvider(
+        provider,
+        { ...previousConfig, ...overrides, provider: providerName },
+        viewState,
+        layers
+      );
+    } catch (error) {
+      provider.destroy();
+      await this.attachProvider(
+        await this.createProvider(previousConfig.provider),
+        previousConfig,
+        viewState,
+        layers
+      );
+      throw new MapError(
+        `Failed to switch to provider "${providerName}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'PROVIDER_SWITCH_ERROR',
+        error
+      );
+    }
+  }
+
   /**
    * Get the current view state
    */
@@ -120,12 +261,88 @@ export class UniversalMap {
     this.provider!.fitBounds(bounds, options);
   }
 
+  /**
+   * Project coordinates to the map container
+   * @returns Position in pixels, or undefined when the coordinates are not drawn
+   */
+  project(coordinates: Coordinates): ScreenPoint | undefined {
+    this.ensureInitialized();
+    return this.provider!.project(coordinates);
+  }
+
+  /**
+   * Get the coordinates at a position in the map container
+   * @returns Coordinates [lat, lng], or undefined when no map is drawn there
+   */
+  unproject(point: ScreenPoint): Coordinates | undefined {
+    this.ensureInitialized();
+    return this.provider!.unproject(point);
+  }
+
+  /**
+   * Open a popup anchored at coordinates
+   * The popup follows its coordinates as the camera moves. Unless disabled in
+   * the options, it has a close button and is closed by clicks on the map;
+   * popups of a layer (`options.layerId`) are closed when the layer is removed.
+   * @param lngLat Coordinates [lat, lng]
+   * @param content Text or DOM element
+   */
+  openPopup(lngLat: Coordinates, content: PopupContent, options?: PopupOptions): Popup {
+    this.ensureInitialized();
+    return this.popups.open(lngLat, content, options);
+  }
+
+  /**
+   * Get the open popups
+   */
+  getPopups(): Popup[] {
+    return this.popups.getPopups();
+  }
+
+  /**
+   * Close all popups
+   */
+  closePopups(): void {
+    this.popups.getPopups().forEach((popup) => popup.close());
+  }
+
   /**
    * Add a layer to the map
+   * Layers the provider cannot render are handled by the map's
+   * `unsupportedLayerPolicy`: either the layer is rejected with a MapError
+   * (`UNSUPPORTED_LAYER`) or its declared fallback is rendered instead.
+   * @param options `beforeId` inserts the layer below another layer or group
+   * instead of on top; `groupId` adds it to a group
+   * @returns Resolves once the layer's data is drawn; rejects with a MapError
+   * (`LAYER_LOAD_ERROR`) if it failed to load, which also emits `layer:error`.
+   * Layers that failed to load stay on the map and can be updated or removed.
+   * Invalid style expressions reject with a MapError (`INVALID_STYLE_EXPRESSION`).
    */
-  addLayer(layer: LayerConfig): void {
+  async addLayer(layer: LayerConfig, options?: AddLayerOptions): Promise<void> {
     this.ensureInitialized();
-    this.provider!.addLayer(layer);
+    const resolved = this.resolveLayer(layer, this.provider!, this.config);
+
+    this.layerTree.addLayer(layer.id, options?.groupId, options?.beforeId);
+    if (this.layerTree.getParent(layer.id) !== undefined) {
+      this.groupedLayerStates.set(layer.id, { visible: layer.visible, opacity: layer.opacity });
+    } else {
+      this.groupedLayerStates.delete(layer.id);
+    }
+
+    // The provider draws layers in the order of the layer tree
+    const order = this.layerTree.getLayerIds();
+    const beforeId = order[order.indexOf(layer.id) + 1];
+    try {
+      await this.provider!.addLayer({ ...resolved, ...this.getDrawnState(layer.id) }, { beforeId });
+    } catch (error) {
+      // Layers that failed to load stay on the map; rejected layers leave no trace
+      if (!this.provider?.getLayer(layer.id)) {
+        this.layerTree.remove(layer.id);
+        this.groupedLayerStates.delete(layer.id);
+        this.substitutedLayers.delete(layer.id);
+      }
+      throw error;
+    }
   }
 
   /**
@@ -134,56 +351,269 @@ export class UniversalMap {
   removeLayer(layerId: string): void {
     this.ensureInitialized();
     this.provider!.removeLayer(layerId);
+    this.popups.closeLayer(layerId);
+    this.substitutedLayers.delete(layerId);
+    this.layerTree.remove(layerId);
+    this.groupedLayerStates.delete(layerId);
   }
 
   /**
    * Update a layer
+   * @returns Resolves once the update is drawn; rejects with a MapError
+   * (`LAYER_LOAD_ERROR`) if new data failed to load, which also emits `layer:error`
+   */
+  async updateLayer(layerId: string, updates: Partial<LayerConfig>): Promise<void> {
+    this.ensureInitialized();
+    updates = this.toDrawnUpdates(layerId, updates);
+
+    const substituted = this.substitutedLayers.get(layerId);
+    if (!substituted && updates.type === undefined && updates.fallback === undefined) {
+      validateLayerStyle({ id: layerId, style: updates.style, filter: updates.filter, options: updates.options });
+      return this.provider!.updateLayer(layerId, updates);
+    }
+
+    // The rendered layer may change, so negotiate again from the requested configuration
+    const current = substituted ?? this.provider!.getLayer(layerId);
+    if (!current) {
+      return this.provider!.updateLayer(layerId, updates);
+    }
+    const resolved = this.resolveLayer({ ...current, ...updates, id: layerId }, this.provider!, this.config);
+    return this.provider!.updateLayer(layerId, resolved);
+  }
+
+  /**
+   * Check if the current provider can render a layer type
    */
-  updateLayer(layerId: string, updates: Partial<LayerConfig>): void {
+  canRender(layerType: LayerType): boolean {
     this.ensureInitialized();
-    this.provider!.updateLayer(layerId, updates);
+    return canRenderLayerType(this.provider!.capabilities, layerType);
   }
 
   /**
    * Get a layer by ID
+   * Layers in groups report their own visibility and opacity, not the ones they are drawn with.
    */
   getLayer(layerId: string): LayerConfig | undefined {
     this.ensureInitialized();
-    return this.provider!.getLayer(layerId);
+    const layer = this.provider!.getLayer(layerId);
+    const state = this.groupedLayerStates.get(layerId);
+    return layer && state ? { ...layer, ...state } : layer;
   }
 
   /**
-   * Get all layers
+   * Get all layers, from bottom to top
+   * With `tree: true`, layers are returned in their groups.
    */
-  getLayers(): LayerConfig[] {
+  getLayers(): LayerConfig[];
+  getLayers(options: { tree: true }): LayerTreeItem[];
+  getLayers(options?: { tree?: boolean }): LayerConfig[] | LayerTreeItem[] {
     this.ensureInitialized();
-    return this.provider!.getLayers();
+    if (options?.tree) {
+      return this.layerTree.toTree((layerId) => this.getLayer(layerId));
+    }
+    return this.provider!.getLayers().map((layer) => this.getLayer(layer.id) ?? layer);
+  }
+
+  /**
+   * Move a layer or group below another layer or group
+   * The moved item joins the group of `beforeId`; without `beforeId` it
+   * moves to the top of its current group, or of all layers.
+   */
+  moveLayer(layerId: string, beforeId?: string): void {
+    this.ensureInitialized();
+    this.layerTree.move(layerId, beforeId);
+    this.syncLayerOrder();
+  }
+
+  /**
+   * Add a group of layers and nested groups
+   * @param options `beforeId` inserts the group below another layer or group
+   * instead of on top; `groupId` nests it in another group
+   * @returns Resolves once the data of all its layers is drawn; rejects with
+   * the MapError of the first layer that failed to load
+   */
+  async addLayerGroup(group: LayerGroupConfig, options?: AddLayerOptions): Promise<void> {
+    this.ensureInitialized();
+    this.layerTree.addGroup(group, options?.groupId, options?.beforeId);
+
+    const loads = group.children.map((child) =>
+      isLayerGroupConfig(child)
+        ? this.addLayerGroup(child, { groupId: group.id })
+        : this.addLayer(child, { groupId: group.id })
+    );
+    await Promise.all(loads);
+  }
+
+  /**
+   * Remove a group with all its layers and nested groups
+   */
+  removeLayerGroup(groupId: string): void {
+    this.ensureInitialized();
+    this.layerTree.getLayerIds(groupId).forEach((layerId) => this.removeLayer(layerId));
+    this.layerTree.remove(groupId);
+  }
+
+  /**
+   * Get a group with its layers and nested groups
+   */
+  getLayerGroup(groupId: string): LayerGroupConfig | undefined {
+    this.ensureInitialized();
+    if (!this.layerTree.hasGroup(groupId)) {
+      return undefined;
+    }
+    return {
+      id: groupId,
+      ...this.layerTree.getGroupState(groupId),
+      children: this.layerTree.toTree((layerId) => this.getLayer(layerId), groupId),
+    };
+  }
+
+  /**
+   * Show or hide a group
+   * Hidden groups hide all their layers; shown groups show the layers that are visible themselves.
+   */
+  setLayerGroupVisibility(groupId: string, visible: boolean): void {
+    this.ensureInitialized();
+    this.layerTree.setGroupState(groupId, { visible }).forEach((layerId) => {
+      this.provider!.updateLayer(layerId, this.getDrawnState(layerId)).catch((error) =>
+        this.reportLayerError(layerId, error)
+      );
+    });
+  }
+
+  /**
+   * Set a group's opacity, which is multiplied into the opacity of its layers
+   */
+  setLayerGroupOpacity(groupId: string, opacity: number): void {
+    this.ensureInitialized();
+    this.layerTree.setGroupState(groupId, { opacity }).forEach((layerId) => {
+      this.provider!.updateLayer(layerId, this.getDrawnState(layerId)).catch((error) =>
+        this.reportLayerError(layerId, error)
+      );
+    });
+  }
+
+  /**
+   * Get the layer IDs from bottom to top
+   * Layers keep their position when they are updated.
+   */
+  getLayerOrder(): string[] {
+    this.ensureInitialized();
+    return this.provider!.getLayerOrder();
+  }
+
+  /**
+   * Check if the current zoom is within a layer's `minZoom`/`maxZoom` range
+   * Layers are hidden outside their range; `layer:active` and `layer:inactive`
+   * events report when the zoom crosses it.
+   */
+  isLayerActive(layerId: string): boolean {
+    this.ensureInitialized();
+    return this.provider!.isLayerActive(layerId);
+  }
+
+  /**
+   * Check if a layer is being added or updated
+   * `layer:loading` is emitted when an operation starts, `layer:loaded` or
+   * `layer:error` when it settles.
+   */
+  isLayerLoading(layerId: string): boolean {
+    this.ensureInitialized();
+    return this.provider!.isLayerLoading(layerId);
+  }
+
+  /**
+   * Get the points of a cluster in a layer clustered with `options.cluster`
+   * Cluster ids are the `cluster_id` property of cluster features.
+   * @param limit Maximum number of points (default: 10; `Infinity` for all)
+   * @param offset Number of points to skip
+   */
+  getClusterLeaves(layerId: string, clusterId: number, limit = 10, offset = 0): Promise<Feature[]> {
+    this.ensureInitialized();
+    if (!this.provider!.getClusterLeaves) {
+      return Promise.resolve([]);
+    }
+    return this.provider!.getClusterLeaves(layerId, clusterId, limit, offset);
+  }
+
+  /**
+   * Get the features drawn at a screen point or in a screen box, from top to bottom
+   * Points are hit within a few pixels. Hidden layers and layers outside their
+   * zoom range are not queried.
+   * @param geometry Point or box in pixels relative to the map container
+   * @param options Layers or layer groups to query and a filter expression
+   */
+  queryRenderedFeatures(geometry: ScreenPoint | ScreenBox, options: QueryFeaturesOptions = {}): RenderedFeature[] {
+    this.ensureInitialized();
+    const layers = options.layers?.flatMap((id) =>
+      this.layerTree.hasGroup(id) ? this.layerTree.getLayerIds(id) : [id]
+    );
+    return this.provider!.queryRenderedFeatures(geometry, { ...options, layers });
+  }
+
+  /**
+   * Get the features of a layer's data, drawn or not
+   * Vector tile layers only have the features of the tiles loaded so far.
+   * @param filter Expression the feature properties must match, e.g. `['>', ['get', 'population'], 1000]`
+   */
+  querySourceFeatures(layerId: string, filter?: StyleExpression): Feature[] {
+    this.ensureInitialized();
+    return this.provider!.querySourceFeatures(layerId, filter);
+  }
+
+  /**
+   * Merge keys into the state of a feature, e.g. `{ hover: true }`
+   * Features are addressed by their GeoJSON `id`. `hover` and `selected` switch
+   * on the layer style overrides of the same name; only the feature is restyled.
+   */
+  setFeatureState(target: FeatureIdentifier, state: FeatureState): void {
+    this.ensureInitialized();
+    this.provider!.setFeatureState(target, state);
+  }
+
+  /**
+   * Get the state of a feature (empty if it has none)
+   */
+  getFeatureState(target: FeatureIdentifier): FeatureState {
+    this.ensureInitialized();
+    return this.provider!.getFeatureState(target);
+  }
+
+  /**
+   * Remove a key, or the whole state, of one or all features of a layer
+   * @param target Layer, and the feature to clear (default: all features of the layer)
+   * @param key State key to remove (default: all keys)
+   */
+  removeFeatureState(target: { layerId: string; featureId?: FeatureId }, key?: string): void {
+    this.ensureInitialized();
+    this.provider!.removeFeatureState(target, key);
   }
 
   /**
    * Set layer visibility
+   * Layers in hidden groups stay hidden.
    */
   setLayerVisibility(layerId: string, visible: boolean): void {
     this.ensureInitialized();
-    this.provider!.setLayerVisibility(layerId, visible);
+    this.provider!.setLayerVisibility(layerId, this.toDrawnUpdates(layerId, { visible }).visible!);
   }
 
   /**
    * Set layer opacity
+   * The opacity of the layer's groups is multiplied in.
    */
   setLayerOpacity(layerId: string, opacity: number): void {
     this.ensureInitialized();
-    this.provider!.setLayerOpacity(layerId, opacity);
+    this.provider!.setLayerOpacity(layerId, this.toDrawnUpdates(layerId, { opacity }).opacity!);
   }
 
   /**
    * Add an event listener
    */
   on(eventType: MapEventType, handler: MapEventHandler): void {
+    // Provider events reach the handler through event forwarding,
+    // which keeps it attached when the provider is switched
     this.eventEmitter.on(eventType, handler);
-    if (this.provider) {
-      this.provider.on(eventType, handler);
-    }
   }
 
   /**
@@ -191,9 +621,6 @@ export class UniversalMap {
    */
   off(eventType: MapEventType, handler: MapEventHandler): void {
     this.eventEmitter.off(eventType, handler);
-    if (this.provider) {
-      this.provider.off(eventType, handler);
-    }
   }
 
   /**
@@ -267,17 +694,123 @@ export class UniversalMap {
    * Create the appropriate provider instance
    */
   private async createProvider(providerName: string): Promise<IMapProvider> {
-    switch (providerName.toLowerCase()) {
-      case 'google': {
-        const { GoogleMapsProvider } = await import('../providers/google');
-        return new GoogleMapsProvider();
+    return UniversalMap.providers.create(providerName);
+  }
+
+  /**
+   * Initialize a provider with the given camera and layers and make it current
+   */
+  private async attachProvider(
+    provider: IMapProvider,
+    config: MapConfig,
+    viewState: ViewState,
+    layers: LayerConfig[]
+  ): Promise<void> {
+    const providerConfig: MapConfig = {
+      ...config,
+      viewState,
+      center: [viewState.center[0], viewState.center[1]],
+      zoom: viewState.zoom,
+    };
+
+    await provider.initialize(providerConfig);
+    provider.setViewState(viewState);
+
+    this.substitutedLayers.clear();
+    const resolvedLayers = layers.map((layer) => ({
+      ...this.resolveLayer(layer, provider, config),
+      ...this.getDrawnState(layer.id),
+    }));
+
+    this.provider = provider;
+    this.config = config;
+    this.initialized = true;
+    this.setupEventForwarding();
+    this.popups.mount(this.getContainer());
+
+    // Layers load in the background, reporting their progress through layer events
+    resolvedLayers.forEach((layer) =>
+      provider.addLayer(layer).catch((error) => this.reportLayerError(layer.id, error))
+    );
+  }
+
+  /**
+   * Validate a layer and negotiate the configuration a provider renders
+   * Remembers the requested configuration when a fallback is used.
+   */
+  private resolveLayer(layer: LayerConfig, provider: IMapProvider, config: MapConfig): LayerConfig {
+    validateLayerStyle(layer);
+    if (layer.type === 'custom' && !hasCustomLayerHooks(layer)) {
+      throw new MapError(
+        `Custom layer "${layer.id}" requires onAdd, render and onRemove hooks`,
+        'INVALID_LAYER',
+        { layerId: layer.id }
+      );
+    }
+
+    const resolved = negotiateLayer(
+      layer,
+      provider.capabilities,
+      provider.name,
+      config.unsupportedLayerPolicy
+    );
+
+    if (resolved !== layer) {
+      this.substitutedLayers.set(layer.id, layer);
+    } else {
+      this.substitutedLayers.delete(layer.id);
+    }
+    return resolved;
+  }
+
+  /**
+   * Get the visibility and opacity a layer in a group is drawn with
+   * Empty for layers outside groups, which are drawn as configured.
+   */
+  private getDrawnState(layerId: string): Pick<LayerConfig, 'visible' | 'opacity'> {
+    const state = this.groupedLayerStates.get(layerId);
+    if (!state) {
+      return {};
+    }
+
+    const inherited = this.layerTree.getInheritedState(layerId);
+    return {
+      visible: state.visible !== false && inherited.visible,
+      opacity: (state.opacity ?? 1) * inherited.opacity,
+    };
+  }
+
+  /**
+   * Record the visibility and opacity set on a layer in a group and
+   * replace them with the ones it is drawn with
+   */
+  private toDrawnUpdates(layerId: string, updates: Partial<LayerConfig>): Partial<LayerConfig> {
+    const state = this.groupedLayerStates.get(layerId);
+    if (!state || (!('visible' in updates) && !('opacity' in updates))) {
+      return updates;
+    }
+
+    this.groupedLayerStates.set(layerId, {
+      visible: 'visible' in updates ? updates.visible : state.visible,
+      opacity: 'opacity' in updates ? updates.opacity : state.opacity,
+    });
+    return { ...updates, ...this.getDrawnState(layerId) };
+  }
+
+  /**
+   * Move the provider's layers into the order of the layer tree
+   * Going from the top layer down, each layer is moved below the one above
+   * it unless it is already there.
+   */
+  private syncLayerOrder(): void {
+    const layerIds = this.layerTree.getLayerIds();
+
+    for (let i = layerIds.length - 1; i >= 0; i--) {
+      const order = this.provider!.getLayerOrder();
+      const above = layerIds[i + 1];
+      if (order[order.indexOf(layerIds[i]) + 1] !== above) {
+        this.provider!.moveLayer(layerIds[i], above);
       }
-      // Additional providers will be added here
-      default:
-        throw new MapError(
-          `Provider "${providerName}" not found. Available providers: google`,
-          'PROVIDER_NOT_FOUND'
-        );
     }
   }
 
@@ -293,6 +826,33 @@ export class UniversalMap {
     }
   }
 
+  /**
+   * Get the map container element (undefined without a DOM)
+   */
+  private getContainer(): HTMLElement | undefined {
+    const { container } = this.config;
+    if (typeof container !== 'string') {
+      return container;
+    }
+    return typeof document !== 'undefined' ? document.getElementById(container) ?? undefined : undefined;
+  }
+
+  /**
+   * Show the tooltip of the topmost feature under the pointer whose layer has one
+   * The tooltip is hidden when there is none.
+   */
+  private updateTooltip(event: MapEvent): void {
+    const tooltipOf = (feature: RenderedFeature) =>
+      this.provider?.getLayer(feature.layerId)?.options?.tooltip as LayerTooltip | undefined;
+    const feature = event.features?.find(tooltipOf);
+
+    if (!feature || !event.lngLat) {
+      this.popups.hideTooltip();
+      return;
+    }
+    this.popups.showTooltip(event.lngLat, renderTooltip(tooltipOf(feature)!, feature), feature.layerId);
+  }
+
   /**
    * Forward provider events to our event emitter
    */
@@ -315,14 +875,61 @@ export class UniversalMap {
       'rotate',
       'pitch',
       'error',
+      'layer:active',
+      'layer:inactive',
+      'layer:loading',
+      'layer:loaded',
+      'layer:error',
     ];
 
     eventTypes.forEach((eventType) => {
-      this.provider!.on(eventType, (event) => {
+      const forwarder: MapEventHandler = (event) => {
+        // Popups close before click handlers run, so handlers can open new ones
+        if (eventType === 'click') {
+          this.popups.closeOnClick();
+        } else if (eventType === 'mousemove') {
+          this.updateTooltip(event);
+        } else if (eventType === 'mouseleave') {
+          this.popups.hideTooltip();
+        } else if (eventType === 'layer:error' && event.error) {
+          this.reportedLayerErrors.add(event.error);
+        }
         this.eventEmitter.emit(eventType, event);
-      });
+      };
+      this.provider!.on(eventType, forwarder);
+      this.eventForwarders.set(eventType, forwarder);
     });
   }
+
+  /**
+   * Report the failure of a layer operation nobody awaits as `layer:error`
+   * Load failures were already reported by the provider.
+   */
+  private reportLayerError(layerId: string, cause: unknown): void {
+    if (cause instanceof MapError && this.reportedLayerErrors.has(cause)) {
+      return;
+    }
+    const error = cause instanceof MapError
+      ? cause
+      : new MapError(
+          `Failed to load layer ${layerId}: ${cause instanceof Error ? cause.message : 'Unknown error'}`,
+          'LAYER_LOAD_ERROR',
+          { layerId, error: cause }
+        );
+    this.eventEmitter.emit('layer:error', { type: 'layer:error', target: this, layerId, error });
+  }
+
+  /**
+   * Stop forwarding events from the current provider
+   */
+  private teardownEventForwarding(): void {
+    if (this.provider) {
+      this.eventForwarders.forEach((forwarder, eventType) => {
+        this.provider!.off(eventType, forwarder);
+      });
+    }
+    this.eventForwarders.clear();
+  }
 }
 
 /**
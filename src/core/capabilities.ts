@@ -0,0 +1,62 @@
+/**
+ * Capability-aware layer negotiation
+ */
+
+import type {
+  LayerConfig,
+  LayerType,
+  ProviderCapabilities,
+  UnsupportedLayerPolicy,
+} from './types';
+import { MapError } from './types';
+
+/**
+ * Check if a provider with the given capabilities can render a layer type
+ */
+export function canRenderLayerType(
+  capabilities: ProviderCapabilities,
+  layerType: LayerType
+): boolean {
+  if (layerType === '3d-tiles' && !capabilities.supports3DTiles) {
+    return false;
+  }
+  if (layerType === 'vector-tiles' && !capabilities.supportsVectorTiles) {
+    return false;
+  }
+  return !capabilities.layerTypes || capabilities.layerTypes.includes(layerType);
+}
+
+/**
+ * Resolve the layer configuration a provider should render
+ * Returns the layer itself when it can be rendered. Otherwise, under the
+ * `'fallback'` policy, its declared fallbacks are tried in turn.
+ * @throws MapError with code `UNSUPPORTED_LAYER` if nothing can be rendered
+ */
+export function negotiateLayer(
+  layer: LayerConfig,
+  capabilities: ProviderCapabilities,
+  providerName: string,
+  policy: UnsupportedLayerPolicy = 'fallback'
+): LayerConfig {
+  let candidate = layer;
+
+  while (!canRenderLayerType(capabilities, candidate.type)) {
+    if (policy === 'error' || !candidate.fallback) {
+      throw new MapError(
+        `Layer "${layer.id}" of type "${candidate.type}" is not supported by the ${providerName} provider`,
+        'UNSUPPORTED_LAYER',
+        { layerId: layer.id, layerType: candidate.type, provider: providerName }
+      );
+    }
+
+    const { fallback } = candidate;
+    candidate = {
+      ...candidate,
+      ...fallback,
+      id: layer.id,
+      fallback: fallback.fallback,
+    };
+  }
+
+  return candidate;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { Feature, Point } from 'geojson';
+import type { BoundingBox } from './types';
+import { PointClusterer, getClusterOptions, isClusterFeature } from './clustering';
+
+const WORLD: BoundingBox = [-180, -85, 180, 85];
+
+function point(lng: number, lat: number, id: number): Feature<Point> {
+  return { type: 'Feature', id, geometry: { type: 'Point', coordinates: [lng, lat] }, properties: { id } };
+}
+
+/**
+ * Longitude span of a number of pixels at zoom 0, on 256px tiles
+ */
+function pixelsToLng(pixels: number): number {
+  return (pixels * 360) / 256;
+}
+
+/**
+ * Get the only cluster at a zoom level
+ */
+function onlyCluster(clusterer: PointClusterer, zoom: number) {
+  const clusters = clusterer.getClusters(WORLD, zoom).filter(isClusterFeature);
+  expect(clusters).toHaveLength(1);
+  return clusters[0];
+}
+
+describe('getClusterOptions', () => {
+  it('only clusters markers and points layers', () => {
+    expect(getClusterOptions({ type: 'points', options: { cluster: true } })).toEqual({});
+    expect(getClusterOptions({ type: 'markers', options: { cluster: { radius: 40 } } })).toEqual({ radius: 40 });
+    expect(getClusterOptions({ type: 'polygons', options: { cluster: true } })).toBeUndefined();
+    expect(getClusterOptions({ type: 'points' })).toBeUndefined();
+  });
+});
+
+describe('PointClusterer', () => {
+  it('splits a cluster at its expansion zoom', () => {
+    // 45px apart at zoom 10 and 90px at zoom 11, with a 60px radius
+    const distance = pixelsToLng(45 / 1024);
+    const clusterer = new PointClusterer({ radius: 60 });
+    clusterer.load([point(0, 0, 1), point(distance, 0, 2)]);
+
+    const cluster = onlyCluster(clusterer, 10);
+    expect(clusterer.getClusterExpansionZoom(cluster.properties.cluster_id)).toBe(11);
+    expect(clusterer.getClusters(WORLD, 11).filter(isClusterFeature)).toHaveLength(0);
+    expect(onlyCluster(clusterer, 0).properties.cluster_id).toBe(cluster.properties.cluster_id);
+  });
+
+  it('keeps points clustered up to maxZoom', () => {
+    const clusterer = new PointClusterer({ maxZoom: 14 });
+    clusterer.load([point(10, 10, 1), point(10, 10, 2)]);
+
+    const cluster = onlyCluster(clusterer, 14);
+    expect(clusterer.getClusterExpansionZoom(cluster.properties.cluster_id)).toBe(15);
+    expect(clusterer.getClusters(WORLD, 22).map((feature) => feature.id)).toEqual([1, 2]);
+  });
+
+  it('places clusters at the weighted centroid of their points', () => {
+    const clusterer = new PointClusterer();
+    clusterer.load([point(0, 0, 1), point(0.0001, 0, 2), point(0.0002, 0, 3), point(0.0003, 0, 4)]);
+
+    const cluster = onlyCluster(clusterer, 0);
+    expect(cluster.properties.point_count).toBe(4);
+    expect(cluster.geometry.coordinates[0]).toBeCloseTo(0.00015, 8);
+    expect(cluster.geometry.coordinates[1]).toBeCloseTo(0, 8);
+  });
+
+  it('leaves groups smaller than minPoints unclustered', () => {
+    const clusterer = new PointClusterer({ minPoints: 3 });
+    clusterer.load([point(0, 0, 1), point(0.0001, 0, 2), point(50, 50, 3)]);
+
+    expect(clusterer.getClusters(WORLD, 5).filter(isClusterFeature)).toHaveLength(0);
+  });
+
+  it('clusters the points of MultiPoint features and ignores other geometries', () => {
+    const clusterer = new PointClusterer();
+    clusterer.load([
+      { type: 'Feature', geometry: { type: 'MultiPoint', coordinates: [[0, 0], [0.0001, 0]] }, properties: {} },
+      { type: 'Feature', geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] }, properties: {} },
+    ]);
+
+    expect(onlyCluster(clusterer, 0).properties.point_count).toBe(2);
+  });
+
+  it('abbreviates large point counts', () => {
+    const clusterer = new PointClusterer();
+    clusterer.load(Array.from({ length: 1500 }, (_, i) => point(0, 0, i)));
+
+    expect(onlyCluster(clusterer, 0).properties).toMatchObject({ point_count: 1500, point_count_abbreviated: '1.5k' });
+  });
+
+  it('returns clusters in bounds crossing the antimeridian', () => {
+    const clusterer = new PointClusterer({ maxZoom: 0 });
+    clusterer.load([point(179, 0, 1), point(-179, 0, 2), point(0, 0, 3)]);
+
+    const ids = clusterer.getClusters([170, -10, -170, 10], 1).map((feature) => feature.id);
+    expect(ids).toEqual([1, 2]);
+  });
+
+  describe('getLeaves', () => {
+    // Three groups of five points, merging into one cluster only at low zoom levels
+    const groups = [0, 1, 2].map((group) =>
+      Array.from({ length: 5 }, (_, i) => point(group * pixelsToLng(1), i * 0.00001, group * 5 + i))
+    );
+    const clusterer = new PointClusterer({ radius: 60 });
+    clusterer.load(groups.flat());
+    const clusterId = onlyCluster(clusterer, 0).properties.cluster_id;
+    const ids = (leaves: Feature[]) => leaves.map((leaf) => leaf.id);
+
+    it('nests clusters', () => {
+      const children = clusterer.getChildren(clusterId);
+      expect(children.some((child) => isClusterFeature(child))).toBe(true);
+    });
+
+    it('returns ten points by default', () => {
+      expect(clusterer.getLeaves(clusterId)).toHaveLength(10);
+      expect(clusterer.getLeaves(clusterId, Infinity)).toHaveLength(15);
+    });
+
+    it('pages through the points across nested clusters', () => {
+      const all = ids(clusterer.getLeaves(clusterId, Infinity));
+      const pages = [0, 4, 8, 12].flatMap((offset) => ids(clusterer.getLeaves(clusterId, 4, offset)));
+
+      expect(pages).toEqual(all);
+      expect(new Set(all).size).toBe(15);
+      expect(ids(clusterer.getLeaves(clusterId, 10, 12))).toEqual(all.slice(12));
+      expect(clusterer.getLeaves(clusterId, 10, 15)).toEqual([]);
+    });
+
+    it('throws for unknown clusters', () => {
+      expect(() => clusterer.getLeaves(9999)).toThrow('No cluster with id 9999');
+    });
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Point clustering
+ * Hierarchical greedy clustering of point features for every zoom level
+ */
+
+import type { Feature, Point } from 'geojson';
+import type { BoundingBox, LayerConfig, LayerStyle, ResolvedLayerStyle } from './types';
+import { TILE_SIZE, projectToWorld, unprojectFromWorld } from './projection';
+import { resolveLayerStyle } from './expressions';
+import { formatColor, parseColor } from './color';
+import { DEFAULT_LAYER_STYLE } from './config';
+
+/**
+ * Clustering options of `markers` and `points` layers, set as `options.cluster`
+ * (`true` uses the defaults)
+ */
+export interface ClusterOptions {
+  /** Radius in pixels within which points are clustered (default: 60) */
+  radius?: number;
+  /** Highest zoom level points are clustered at (default: 16) */
+  maxZoom?: number;
+  /** Minimum number of points forming a cluster (default: 2) */
+  minPoints?: number;
+  /**
+   * Style of cluster markers
+   * Expressions are evaluated against the cluster's properties, e.g. `['get', 'point_count']`.
+   */
+  style?: LayerStyle;
+  /** Zoom in until a cluster splits when it is clicked (default: true) */
+  zoomOnClick?: boolean;
+}
+
+/**
+ * Properties of a cluster feature
+ */
+export interface ClusterProperties {
+  cluster: true;
+  cluster_id: number;
+  point_count: number;
+  point_count_abbreviated: string;
+}
+
+/**
+ * Point feature standing for a cluster of points
+ */
+export type ClusterFeature = Feature<Point, ClusterProperties>;
+
+/**
+ * Default cluster marker style; markers grow with the number of points
+ */
+export const DEFAULT_CLUSTER_STYLE: LayerStyle = {
+  fillColor: DEFAULT_LAYER_STYLE.fillColor,
+  strokeColor: '#ffffff',
+  strokeWidth: 2,
+  opacity: 0.85,
+  radius: ['step', ['get', 'point_count'], 15, 100, 20, 1000, 25],
+};
+
+/**
+ * Node of the cluster hierarchy
+ * Nodes without children are input points.
+ */
+interface ClusterNode {
+  /** World position at zoom 0 */
+  x: number;
+  y: number;
+  count: number;
+  /** Cluster id, or -1 for points */
+  id: number;
+  /** Index of the input point */
+  index: number;
+  /** Highest zoom level the cluster exists at */
+  zoom: number;
+  children: ClusterNode[];
+}
+
+/**
+ * Get a layer's clustering options, or undefined if it is not clustered
+ */
+export function getClusterOptions(config: Pick<LayerConfig, 'type' | 'options'>): ClusterOptions | undefined {
+  const cluster = config.options?.cluster;
+  if (!cluster || (config.type !== 'markers' && config.type !== 'points')) {
+    return undefined;
+  }
+  return cluster === true ? {} : (cluster as ClusterOptions);
+}
+
+/**
+ * Check if a feature is a cluster
+ */
+export function isClusterFeature(feature: Feature): feature is ClusterFeature {
+  return feature.properties?.cluster === true;
+}
+
+/**
+ * Abbreviate a point count, e.g. `1.2k`
+ */
+function abbreviateCount(count: number): string {
+  if (count >= 10000) return `${Math.round(count / 1000)}k`;
+  if (count >= 1000) return `${Math.round(count / 100) / 10}k`;
+  return String(count);
+}
+
+/**
+ * Clusters point features for every zoom level at once
+ *
+ * Points within `radius` pixels of each other are merged, from the highest
+ * zoom level down, into clusters placed at their weighted centroid. Clusters
+ * for a view are then looked up instead of recomputed when the map moves.
+ */
+export class PointClusterer {
+  private radius: number;
+  private maxZoom: number;
+  private minPoints: number;
+  private points: Feature<Point>[] = [];
+  private levels: ClusterNode[][] = [];
+  private clusters: Map<number, ClusterNode> = new Map();
+
+  constructor(options: ClusterOptions = {}) {
+    this.radius = options.radius ?? 60;
+    this.maxZoom = options.maxZoom ?? 16;
+    this.minPoints = options.minPoints ?? 2;
+  }
+
+  /**
+   * Build the cluster hierarchy
+   * Point and MultiPoint features are clustered; other features are ignored.
+   */
+  load(features: Feature[]): void {
+    this.points = features.flatMap((feature): Feature<Point>[] => {
+      const geometry = feature.geometry;
+      if (geometry?.type === 'Point') {
+        return [feature as Feature<Point>];
+      }
+      if (geometry?.type === 'MultiPoint') {
+        return geometry.coordinates.map((coordinates) => ({
+          ...feature,
+          geometry: { type: 'Point', coordinates },
+        }));
+      }
+      return [];
+    });
+
+    this.clusters.clear();
+    this.levels = [];
+    this.levels[this.maxZoom + 1] = this.points.map((point, index) => {
+      const [lng, lat] = point.geometry.coordinates;
+      const [x, y] = projectToWorld([lat, lng], 0);
+      return { x, y, count: 1, id: -1, index, zoom: Infinity, children: [] };
+    });
+
+    for (let z = this.maxZoom; z >= 0; z--) {
+      this.levels[z] = this.clusterLevel(this.levels[z + 1], z);
+    }
+  }
+
+  /**
+   * Get the clusters and unclustered points in a bounding box at a zoom level
+   * Bounds crossing the antimeridian (west > east) are supported.
+   */
+  getClusters(bounds: BoundingBox, zoom: number): Array<Feature<Point>> {
+    const [west, south, east, north] = bounds;
+    const z = Math.max(0, Math.min(this.maxZoom + 1, Math.floor(zoom)));
+
+    return (this.levels[z] || [])
+      .map((node) => this.toFeature(node))
+      .filter(({ geometry }) => {
+        const [lng, lat] = geometry.coordinates;
+        const inLng = west <= east ? lng >= west && lng <= east : lng >= west || lng <= east;
+        return inLng && lat >= south && lat <= north;
+      });
+  }
+
+  /**
+   * Get the points of a cluster
+   * @param limit Maximum number of points (default: 10; `Infinity` for all)
+   * @param offset Number of points to skip
+   */
+  getLeaves(clusterId: number, limit = 10, offset = 0): Feature<Point>[] {
+    const leaves: Feature<Point>[] = [];
+    let skipped = 0;
+
+    const collect = (node: ClusterNode): void => {
+      node.children.forEach((child) => {
+        if (leaves.length >= limit) return;
+        if (child.id === -1) {
+          if (skipped < offset) {
+            skipped++;
+          } else {
+            leaves.push(this.points[child.index]);
+          }
+        } else if (skipped + child.count <= offset) {
+          skipped += child.count;
+        } else {
+          collect(child);
+        }
+      });
+    };
+
+    collect(this.getCluster(clusterId));
+    return leaves;
+  }
+
+  /**
+   * Get the clusters and points a cluster splits into when zooming in
+   */
+  getChildren(clusterId: number): Array<Feature<Point>> {
+    return this.getCluster(clusterId).children.map((child) => this.toFeature(child));
+  }
+
+  /**
+   * Get the zoom level at which a cluster splits into its children
+   */
+  getClusterExpansionZoom(clusterId: number): number {
+    return this.getCluster(clusterId).zoom + 1;
+  }
+
+  /**
+   * Merge the nodes of one zoom level into the clusters of the level below
+   */
+  private clusterLevel(nodes: ClusterNode[], zoom: number): ClusterNode[] {
+    // Radius in world units at zoom 0; nodes are bucketed into cells of that size
+    const radius = this.radius / Math.pow(2, zoom);
+    const columns = Math.ceil(TILE_SIZE / radius) + 1;
+    const cellOf = (x: number, y: number) => Math.floor(y / radius) * columns + Math.floor(x / radius);
+
+    const grid = new Map<number, number[]>();
+    nodes.forEach((node, index) => {
+      const cell = cellOf(node.x, node.y);
+      const entries = grid.get(cell);
+      if (entries) {
+        entries.push(index);
+      } else {
+        grid.set(cell, [index]);
+      }
+    });
+
+    const merged = new Uint8Array(nodes.length);
+    const next: ClusterNode[] = [];
+
+    nodes.forEach((node, index) => {
+      if (merged[index]) return;
+      merged[index] = 1;
+
+      const neighbors: number[] = [];
+      const column = Math.floor(node.x / radius);
+      const row = Math.floor(node.y / radius);
+      for (let j = row - 1; j <= row + 1; j++) {
+        for (let i = column - 1; i <= column + 1; i++) {
+          grid.get(j * columns + i)?.forEach((other) => {
+            const { x, y } = nodes[other];
+            if (!merged[other] && (x - node.x) ** 2 + (y - node.y) ** 2 <= radius * radius) {
+              neighbors.push(other);
+            }
+          });
+        }
+      }
+
+      const count = neighbors.reduce((sum, neighbor) => sum + nodes[neighbor].count, node.count);
+      if (neighbors.length === 0 || count < this.minPoints) {
+        next.push(node);
+        return;
+      }
+
+      neighbors.forEach((neighbor) => (merged[neighbor] = 1));
+      const children = [node, ...neighbors.map((neighbor) => nodes[neighbor])];
+
+      const cluster: ClusterNode = {
+        x: children.reduce((sum, child) => sum + child.x * child.count, 0) / count,
+        y: children.reduce((sum, child) => sum + child.y * child.count, 0) / count,
+        count,
+        id: this.clusters.size,
+        index: -1,
+        zoom,
+        children,
+      };
+      this.clusters.set(cluster.id, cluster);
+      next.push(cluster);
+    });
+
+    return next;
+  }
+
+  /**
+   * Get a cluster node by id
+   * @throws Error if there is no cluster with the id
+   */
+  private getCluster(clusterId: number): ClusterNode {
+    const cluster = this.clusters.get(clusterId);
+    if (!cluster) {
+      throw new Error(`No cluster with id ${clusterId}`);
+    }
+    return cluster;
+  }
+
+  /**
+   * Convert a node to its input point or a cluster feature
+   */
+  private toFeature(node: ClusterNode): Feature<Point> {
+    if (node.id === -1) {
+      return this.points[node.index];
+    }
+
+    const [lat, lng] = unprojectFromWorld([node.x, node.y], 0);
+    const properties: ClusterProperties = {
+      cluster: true,
+      cluster_id: node.id,
+      point_count: node.count,
+      point_count_abbreviated: abbreviateCount(node.count),
+    };
+    return { type: 'Feature', id: node.id, geometry: { type: 'Point', coordinates: [lng, lat] }, properties };
+  }
+}
+
+/**
+ * Create the DOM element of a cluster marker: a circle labelled with the point count
+ * @param style Merged over DEFAULT_CLUSTER_STYLE and evaluated for the cluster
+ */
+export function createClusterElement(cluster: ClusterFeature, style?: LayerStyle): HTMLElement {
+  const element = createCircleElement(
+    resolveLayerStyle({ ...DEFAULT_CLUSTER_STYLE, ...style }, { ...cluster.properties })
+  );
+  element.textContent = cluster.properties.point_count_abbreviated;
+  element.style.cursor = 'pointer';
+  return element;
+}
+
+/**
+ * Create a circle DOM element drawn with a resolved style
+ * Used for point markers drawn as HTML elements.
+ */
+export function createCircleElement(style: ResolvedLayerStyle): HTMLElement {
+  const { fillColor, strokeColor, strokeWidth, opacity, radius } = style;
+  const size = 2 * (radius ?? (DEFAULT_LAYER_STYLE.radius as number));
+
+  const element = document.createElement('div');
+  Object.assign(element.style, {
+    width: `${size}px`,
+    height: `${size}px`,
+    lineHeight: `${size}px`,
+    boxSizing: 'border-box',
+    borderRadius: '50%',
+    border: `${strokeWidth ?? 0}px solid ${strokeColor ?? 'transparent'}`,
+    background: withOpacity(fillColor ?? (DEFAULT_LAYER_STYLE.fillColor as string), opacity ?? 1),
+    color: '#ffffff',
+    font: 'bold 12px sans-serif',
+    textAlign: 'center',
+  });
+  return element;
+}
+
+/**
+ * Apply an opacity to a CSS color
+ * Colors that cannot be parsed are returned unchanged.
+ */
+function withOpacity(color: string, opacity: number): string {
+  try {
+    const [r, g, b, a] = parseColor(color);
+    return formatColor([r, g, b, a * opacity]);
+  } catch {
+    return color;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Color parsing and interpolation utilities
+ */
+
+import type { GradientStop } from './types';
+
+/**
+ * RGBA color with channels in 0-255 and alpha in 0-1
+ */
+export type RGBAColor = [number, number, number, number];
+
+/**
+ * Named colors understood without a DOM
+ */
+const NAMED_COLORS: Record<string, RGBAColor> = {
+  transparent: [0, 0, 0, 0],
+  black: [0, 0, 0, 1],
+  white: [255, 255, 255, 1],
+  red: [255, 0, 0, 1],
+  green: [0, 128, 0, 1],
+  blue: [0, 0, 255, 1],
+  yellow: [255, 255, 0, 1],
+  orange: [255, 165, 0, 1],
+  purple: [128, 0, 128, 1],
+  gray: [128, 128, 128, 1],
+  grey: [128, 128, 128, 1],
+};
+
+/**
+ * Parse a hex, rgb(a) or basic named CSS color
+ * @throws Error if the color cannot be parsed
+ */
+export function parseColor(color: string): RGBAColor {
+  const value = color.trim().toLowerCase();
+
+  const named = NAMED_COLORS[value];
+  if (named) {
+    return [...named];
+  }
+
+  if (value.startsWith('#')) {
+    let hex = value.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map((c) => c + c).join('');
+    }
+    if ((hex.length === 6 || hex.length === 8) && /^[0-9a-f]+$/.test(hex)) {
+      return [
+        parseInt(hex.slice(0, 2), 16),
+        parseInt(hex.slice(2, 4), 16),
+        parseInt(hex.slice(4, 6), 16),
+        hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+      ];
+    }
+  }
+
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (match) {
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    if ((parts.length === 3 || parts.length === 4) && parts.every((n) => !isNaN(n))) {
+      return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+    }
+  }
+
+  throw new Error(`Invalid color: ${color}`);
+}
+
+/**
+ * Format an RGBA color as a CSS rgba() string
+ */
+export function formatColor(color: RGBAColor): string {
+  const [r, g, b, a] = color;
+  return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${+a.toFixed(3)})`;
+}
+
+/**
+ * Linearly interpolate between two colors
+ * @param t Interpolation factor (0-1)
+ */
+export function interpolateColor(from: string, to: string, t: number): string {
+  const a = parseColor(from);
+  const b = parseColor(to);
+  return formatColor([
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t,
+    a[3] + (b[3] - a[3]) * t,
+  ]);
+}
+
+/**
+ * Sample gradient stops into evenly spaced colors
+ * Positions before the first or after the last stop take that stop's color.
+ * @param stops Gradient stops [position (0-1), color]
+ * @param count Number of colors to produce
+ */
+export function sampleGradient(stops: GradientStop[], count: number): RGBAColor[] {
+  const sorted = [...stops].sort((a, b) => a[0] - b[0]);
+  if (sorted.length === 0) {
+    return [];
+  }
+
+  return Array.from({ length: count }, (_, i) => {
+    const position = count > 1 ? i / (count - 1) : 0;
+    const upper = sorted.findIndex(([stop]) => stop >= position);
+
+    if (upper === -1) {
+      return parseColor(sorted[sorted.length - 1][1]);
+    }
+    if (upper === 0) {
+      return parseColor(sorted[0][1]);
+    }
+
+    const [fromStop, fromColor] = sorted[upper - 1];
+    const [toStop, toColor] = sorted[upper];
+    return parseColor(interpolateColor(fromColor, toColor, (position - fromStop) / (toStop - fromStop)));
+  });
+}
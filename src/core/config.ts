@@ -178,6 +178,11 @@ export class MapConfigBuilder {
     return this;
   }
 
+  unsupportedLayerPolicy(policy: MapConfig['unsupportedLayerPolicy']): this {
+    this.config.unsupportedLayerPolicy = policy;
+    return this;
+  }
+
   build(): MapConfig {
     if (!this.config.provider) {
       throw new Error('Provider is required');
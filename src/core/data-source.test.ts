@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PendingLayerLoads } from './data-source';
+
+/**
+ * Promise settled by the spec
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('PendingLayerLoads', () => {
+  let loads: PendingLayerLoads;
+
+  beforeEach(() => {
+    loads = new PendingLayerLoads();
+  });
+
+  it('draws layers once their data loaded', async () => {
+    const data = deferred<string>();
+    const draw = vi.fn();
+
+    const loaded = loads.load('parks', data.promise, draw);
+    expect(loads.has('parks')).toBe(true);
+    data.resolve('parks.geojson');
+    await loaded;
+
+    expect(draw).toHaveBeenCalledWith('parks.geojson');
+    expect(loads.has('parks')).toBe(false);
+  });
+
+  it('does not draw layers removed while their data loads', async () => {
+    const data = deferred<string>();
+    const draw = vi.fn();
+
+    const loaded = loads.load('parks', data.promise, draw);
+    loads.cancel('parks');
+    data.resolve('parks.geojson');
+    await loaded;
+
+    expect(draw).not.toHaveBeenCalled();
+  });
+
+  it('only draws the latest load of layers loaded again', async () => {
+    const old = deferred<string>();
+    const latest = deferred<string>();
+    const draw = vi.fn();
+
+    const oldLoaded = loads.load('parks', old.promise, draw);
+    const latestLoaded = loads.load('parks', latest.promise, draw);
+    latest.resolve('new.geojson');
+    await latestLoaded;
+    old.resolve('old.geojson');
+    await oldLoaded;
+
+    expect(draw).toHaveBeenCalledTimes(1);
+    expect(draw).toHaveBeenCalledWith('new.geojson');
+  });
+
+  it('rejects with failures of the current load and drops failures of stale loads', async () => {
+    const old = deferred<string>();
+    const latest = deferred<string>();
+
+    const oldLoaded = loads.load('parks', old.promise, vi.fn());
+    const latestLoaded = loads.load('parks', latest.promise, vi.fn());
+    old.reject(new Error('Timeout'));
+    latest.reject(new Error('Not found'));
+
+    await expect(oldLoaded).resolves.toBeUndefined();
+    await expect(latestLoaded).rejects.toThrow('Not found');
+    expect(loads.has('parks')).toBe(false);
+  });
+
+  it('drops all loads when cleared', async () => {
+    const data = deferred<string>();
+    const draw = vi.fn();
+
+    const loaded = loads.load('parks', data.promise, draw);
+    loads.clear();
+    data.resolve('parks.geojson');
+    await loaded;
+
+    expect(draw).not.toHaveBeenCalled();
+    expect(loads.has('parks')).toBe(false);
+  });
+});
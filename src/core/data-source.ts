@@ -4,6 +4,8 @@
 
 import type { GeoJSON } from 'geojson';
 import type { DataSource, DataSourceType } from './types';
+import type { TileTemplate } from './tiles';
+import { createTileTemplate } from './tiles';
 
 /**
  * Data source interface
@@ -134,16 +136,12 @@ export class TileDataSource extends BaseDataSource {
     }
   }
 
-  async load(): Promise<string> {
-    if (!this.config.url) {
-      throw new Error('Tile URL template is required');
-    }
-
-    // For tile sources, we just validate and return the URL template
-    // Actual tile loading is handled by the map provider
+  async load(): Promise<TileTemplate> {
+    // Tiles themselves are requested by the map provider
+    const template = createTileTemplate(this.config);
     this.loaded = true;
-    this.data = this.config.url;
-    return this.config.url;
+    this.data = template;
+    return template;
   }
 }
 
@@ -301,3 +299,67 @@ export class DataSourceManager {
     return source.load();
   }
 }
+
+/**
+ * Data loads of layers in progress
+ * A load only draws its layer if the layer was not removed or added again
+ * while the data loaded; stale loads are dropped, failures included.
+ */
+export class PendingLayerLoads {
+  private loads: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Wait for a layer's data and draw it if the load is still current
+   * @param draw Called with the data, after the load was settled
+   */
+  async load<T>(layerId: string, load: Promise<T>, draw: (data: T) => void): Promise<void> {
+    this.loads.set(layerId, load);
+
+    let data: T;
+    try {
+      data = await load;
+    } catch (error) {
+      if (this.settle(layerId, load)) {
+        throw error;
+      }
+      return;
+    }
+
+    if (this.settle(layerId, load)) {
+      draw(data);
+    }
+  }
+
+  /**
+   * Check if a layer's data is loading
+   */
+  has(layerId: string): boolean {
+    return this.loads.has(layerId);
+  }
+
+  /**
+   * Drop the pending load of a layer, e.g. when it is removed
+   */
+  cancel(layerId: string): void {
+    this.loads.delete(layerId);
+  }
+
+  /**
+   * Drop all pending loads
+   */
+  clear(): void {
+    this.loads.clear();
+  }
+
+  /**
+   * Forget a settled load
+   * @returns Whether it was the layer's current load
+   */
+  private settle(layerId: string, load: Promise<unknown>): boolean {
+    if (this.loads.get(layerId) !== load) {
+      return false;
+    }
+    this.loads.delete(layerId);
+    return true;
+  }
+}
@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest';
+import type { StyleExpression } from './types';
+import { MapError } from './types';
+import {
+  evaluateExpression,
+  evaluateStyleValue,
+  resolveLayerStyle,
+  validateStyleExpression,
+  validateLayerStyle,
+  isDataDrivenStyle,
+} from './expressions';
+
+describe('evaluateExpression', () => {
+  describe('match', () => {
+    const expression: StyleExpression = ['match', ['get', 'kind'], 'park', 1, ['forest', 'wood'], 2, 10, 3, 0];
+
+    it('returns the output of the first matching label', () => {
+      expect(evaluateExpression(expression, { kind: 'park' })).toBe(1);
+      expect(evaluateExpression(expression, { kind: 'wood' })).toBe(2);
+      expect(evaluateExpression(expression, { kind: 10 })).toBe(3);
+    });
+
+    it('falls back without a matching label', () => {
+      expect(evaluateExpression(expression, { kind: 'road' })).toBe(0);
+      expect(evaluateExpression(expression, {})).toBe(0);
+    });
+
+    it('matches labels by type', () => {
+      expect(evaluateExpression(expression, { kind: '10' })).toBe(0);
+    });
+
+    it('takes the first of duplicate labels', () => {
+      expect(evaluateExpression(['match', ['get', 'kind'], 'a', 1, 'a', 2, 0], { kind: 'a' })).toBe(1);
+    });
+  });
+
+  describe('case', () => {
+    const expression: StyleExpression = [
+      'case',
+      ['>=', ['get', 'population'], 1000000],
+      'large',
+      ['>=', ['get', 'population'], 1000],
+      'medium',
+      'small',
+    ];
+
+    it('returns the output of the first true condition', () => {
+      expect(evaluateExpression(expression, { population: 5000000 })).toBe('large');
+      expect(evaluateExpression(expression, { population: 1000 })).toBe('medium');
+      expect(evaluateExpression(expression, { population: 10 })).toBe('small');
+    });
+
+    it('treats conditions that are not exactly true as false', () => {
+      expect(evaluateExpression(['case', ['get', 'flag'], 'yes', 'no'], { flag: 1 })).toBe('no');
+      expect(evaluateExpression(['case', ['get', 'flag'], 'yes', 'no'], { flag: true })).toBe('yes');
+    });
+
+    it('does not compare values of different types', () => {
+      expect(evaluateExpression(expression, { population: '5000000' })).toBe('small');
+      expect(evaluateExpression(expression, {})).toBe('small');
+    });
+  });
+
+  describe('step', () => {
+    const expression: StyleExpression = ['step', ['get', 'count'], 'a', 10, 'b', 100, 'c'];
+
+    it('returns the base output below the first stop', () => {
+      expect(evaluateExpression(expression, { count: 9.99 })).toBe('a');
+      expect(evaluateExpression(expression, { count: -Infinity })).toBe('a');
+    });
+
+    it('includes the stop in the step starting at it', () => {
+      expect(evaluateExpression(expression, { count: 10 })).toBe('b');
+      expect(evaluateExpression(expression, { count: 99 })).toBe('b');
+      expect(evaluateExpression(expression, { count: 100 })).toBe('c');
+      expect(evaluateExpression(expression, { count: 1e9 })).toBe('c');
+    });
+
+    it('has no value for inputs that are not numbers', () => {
+      expect(evaluateExpression(expression, { count: '50' })).toBeNull();
+      expect(evaluateExpression(expression, {})).toBeNull();
+    });
+
+    it('evaluates the selected output', () => {
+      expect(evaluateExpression(['step', ['get', 'count'], 0, 10, ['get', 'size']], { count: 20, size: 7 })).toBe(7);
+    });
+  });
+
+  describe('interpolate', () => {
+    const linear: StyleExpression = ['interpolate', ['linear'], ['get', 'value'], 0, 10, 10, 20, 20, 40];
+
+    it('interpolates linearly between the surrounding stops', () => {
+      expect(evaluateExpression(linear, { value: 5 })).toBe(15);
+      expect(evaluateExpression(linear, { value: 15 })).toBe(30);
+      expect(evaluateExpression(linear, { value: 10 })).toBe(20);
+    });
+
+    it('clamps inputs outside the stops', () => {
+      expect(evaluateExpression(linear, { value: -100 })).toBe(10);
+      expect(evaluateExpression(linear, { value: 100 })).toBe(40);
+    });
+
+    it('interpolates exponentially', () => {
+      const exponential: StyleExpression = ['interpolate', ['exponential', 2], ['get', 'value'], 0, 0, 2, 30];
+      // (2^1 - 1) / (2^2 - 1) of the way
+      expect(evaluateExpression(exponential, { value: 1 })).toBeCloseTo(10);
+      const linearBase: StyleExpression = ['interpolate', ['exponential', 1], ['get', 'value'], 0, 0, 2, 30];
+      expect(evaluateExpression(linearBase, { value: 1 })).toBe(15);
+    });
+
+    it('returns the output of a single stop for every input', () => {
+      const single: StyleExpression = ['interpolate', ['linear'], ['get', 'value'], 5, 42];
+      expect(evaluateExpression(single, { value: 0 })).toBe(42);
+      expect(evaluateExpression(single, { value: 10 })).toBe(42);
+    });
+
+    it('interpolates colors', () => {
+      const colors: StyleExpression = ['interpolate', ['linear'], ['get', 'value'], 0, '#000000', 10, '#ff0000'];
+      expect(evaluateExpression(colors, { value: 0 })).toBe('#000000');
+      expect(evaluateExpression(colors, { value: 5 })).toMatch(/^(#80|#7f|rgba?\(12[78], 0, 0)/);
+    });
+
+    it('has no value for inputs that are not numbers or outputs that cannot be interpolated', () => {
+      expect(evaluateExpression(linear, { value: 'x' })).toBeNull();
+      const mixed: StyleExpression = ['interpolate', ['linear'], ['get', 'value'], 0, 'a', 10, 1];
+      const unknownColor: StyleExpression = ['interpolate', ['linear'], ['get', 'value'], 0, 'nope', 10, 'red'];
+      expect(evaluateExpression(mixed, { value: 5 })).toBeNull();
+      expect(evaluateExpression(unknownColor, { value: 5 })).toBeNull();
+    });
+  });
+
+  it('returns null for missing properties and evaluates coalesce', () => {
+    expect(evaluateExpression(['get', 'missing'], {})).toBeNull();
+    expect(evaluateExpression(['coalesce', ['get', 'missing'], ['get', 'name'], 'none'], { name: 'a' })).toBe('a');
+    expect(evaluateExpression(['coalesce', ['get', 'missing'], 'none'], {})).toBe('none');
+  });
+
+  it('evaluates boolean operators', () => {
+    expect(evaluateExpression(['all', ['has', 'a'], ['==', ['get', 'a'], 1]], { a: 1 })).toBe(true);
+    expect(evaluateExpression(['all'], {})).toBe(true);
+    expect(evaluateExpression(['any'], {})).toBe(false);
+    expect(evaluateExpression(['!', ['has', 'a']], {})).toBe(true);
+    expect(evaluateExpression(['<', ['get', 'name'], 'b'], { name: 'a' })).toBe(true);
+  });
+
+  it('returns literal arrays as they are', () => {
+    expect(evaluateExpression(['literal', [1, 2]], {})).toEqual([1, 2]);
+  });
+});
+
+describe('evaluateStyleValue', () => {
+  it('returns literals as they are', () => {
+    expect(evaluateStyleValue(3, 'number')).toBe(3);
+    expect(evaluateStyleValue('#fff', 'color')).toBe('#fff');
+  });
+
+  it('drops results of the wrong type', () => {
+    expect(evaluateStyleValue(['get', 'size'], 'number', { size: '3' })).toBeUndefined();
+    expect(evaluateStyleValue(['get', 'size'], 'number', { size: NaN })).toBeUndefined();
+    expect(evaluateStyleValue(['get', 'color'], 'color', { color: '' })).toBeUndefined();
+    expect(evaluateStyleValue(['get', 'color'], 'color', {})).toBeUndefined();
+  });
+});
+
+describe('resolveLayerStyle', () => {
+  it('evaluates data-driven properties and keeps the others', () => {
+    const style = { fillColor: ['get', 'color'] as StyleExpression, strokeWidth: 2, dashArray: [4, 2] };
+    expect(isDataDrivenStyle(style)).toBe(true);
+    expect(resolveLayerStyle(style, { color: '#123456' })).toEqual({
+      fillColor: '#123456',
+      strokeWidth: 2,
+      dashArray: [4, 2],
+    });
+    expect(resolveLayerStyle(style, null).fillColor).toBeUndefined();
+  });
+});
+
+describe('validateStyleExpression', () => {
+  const invalid = (expression: unknown, type?: Parameters<typeof validateStyleExpression>[1]) => {
+    try {
+      validateStyleExpression(expression, type);
+    } catch (error) {
+      expect(error).toBeInstanceOf(MapError);
+      expect((error as MapError).code).toBe('INVALID_STYLE_EXPRESSION');
+      return (error as MapError).message;
+    }
+    throw new Error(`${JSON.stringify(expression)} passed validation`);
+  };
+
+  it('accepts valid expressions', () => {
+    expect(() => validateStyleExpression(['match', ['get', 'a'], ['x', 'y'], '#f00', '#00f'], 'color')).not.toThrow();
+    expect(() => validateStyleExpression(['step', ['get', 'a'], 1, 10, 2], 'number')).not.toThrow();
+    expect(() =>
+      validateStyleExpression(['interpolate', ['exponential', 1.5], ['get', 'a'], 0, 'red', 10, '#00ff00'], 'color')
+    ).not.toThrow();
+  });
+
+  it('rejects unknown operators and arrays without literal', () => {
+    expect(invalid(['nope', 1])).toContain('unknown operator "nope"');
+    expect(invalid([1, 2, 3])).toContain('["literal", [...]]');
+  });
+
+  it('rejects match expressions with invalid labels or arity', () => {
+    expect(invalid(['match', ['get', 'a'], [], 1, 0])).toContain('labels must be strings, numbers or arrays of them');
+    expect(invalid(['match', ['get', 'a'], 'x', 1])).toContain('expects an input, label/output pairs and a fallback');
+  });
+
+  it('rejects case expressions without a fallback', () => {
+    expect(invalid(['case', true, 1])).toContain('expects condition/output pairs and a fallback');
+  });
+
+  it('rejects stops that are not strictly ascending', () => {
+    expect(invalid(['step', ['get', 'a'], 1, 10, 2, 10, 3])).toContain('strictly ascending');
+    expect(invalid(['interpolate', ['linear'], ['get', 'a'], 10, 1, 0, 2])).toContain('strictly ascending');
+  });
+
+  it('rejects invalid interpolation types and outputs', () => {
+    expect(invalid(['interpolate', ['cubic'], ['get', 'a'], 0, 1, 1, 2])).toContain(
+      '["linear"] or ["exponential", base]'
+    );
+    expect(invalid(['interpolate', ['exponential'], ['get', 'a'], 0, 1, 1, 2])).toContain('["exponential", base]');
+    expect(invalid(['interpolate', ['linear'], ['get', 'a'], 0, 'x', 1, 'y'], 'string')).toContain('numbers or colors');
+    expect(invalid(['interpolate', ['linear'], ['get', 'a'], 0, 'nope', 1, 'red'], 'color')).toContain(
+      'cannot interpolate the color "nope"'
+    );
+  });
+
+  it('rejects outputs of the wrong type', () => {
+    expect(invalid(['step', ['get', 'a'], 'big', 10, 'small'], 'number')).toContain('expected a number');
+    expect(invalid(['has', 'a'], 'number')).toContain('"has" evaluates to a boolean, expected a number');
+  });
+});
+
+describe('validateLayerStyle', () => {
+  it('names the layer and property of invalid expressions', () => {
+    const strokeWidth = ['get'] as unknown as StyleExpression;
+    expect(() => validateLayerStyle({ id: 'roads', style: { strokeWidth } })).toThrow(
+      'Layer "roads" has an invalid style.strokeWidth'
+    );
+    expect(() =>
+      validateLayerStyle({ id: 'roads', style: { hover: { fillColor: ['has', 'a'] as StyleExpression } } })
+    ).toThrow('style.hover.fillColor');
+  });
+
+  it('checks filters and fallbacks', () => {
+    expect(() => validateLayerStyle({ id: 'roads', filter: ['get', 'kind'] })).not.toThrow();
+    expect(() => validateLayerStyle({ id: 'roads', filter: ['step', ['get', 'a'], 1, 10, 2] })).toThrow(
+      'Layer "roads" has an invalid filter'
+    );
+    const filter: StyleExpression = ['interpolate', ['linear'], ['get', 'a'], 0, 1, 1, 2];
+    const fallback = { type: 'lines' as const, source: 'mock://roads', filter };
+    expect(() => validateLayerStyle({ id: 'roads', fallback })).toThrow('invalid filter');
+  });
+});
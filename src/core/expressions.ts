@@ -0,0 +1,480 @@
+/**
+ * Data-driven style expressions
+ * Validation and per-feature evaluation of LayerStyle expressions
+ */
+
+import type {
+  LayerConfig,
+  LayerStyle,
+  ResolvedLayerStyle,
+  StyleExpression,
+  StyleValue,
+  FeatureProperties,
+} from './types';
+import { MapError } from './types';
+import { parseColor, interpolateColor } from './color';
+import { FEATURE_STATE_STYLES } from './feature-state';
+
+/**
+ * Type an expression evaluates to
+ * `value` is any type and is checked when the expression is evaluated.
+ */
+export type ExpressionType = 'color' | 'number' | 'string' | 'boolean' | 'value';
+
+/**
+ * Style properties accepting expressions and the type they evaluate to
+ */
+export const DATA_DRIVEN_STYLE_PROPERTIES = {
+  fillColor: 'color',
+  strokeColor: 'color',
+  strokeWidth: 'number',
+  opacity: 'number',
+  radius: 'number',
+  extrusionHeight: 'number',
+} as const;
+
+type DataDrivenStyleProperty = keyof typeof DATA_DRIVEN_STYLE_PROPERTIES;
+
+const DATA_DRIVEN_KEYS = Object.keys(DATA_DRIVEN_STYLE_PROPERTIES) as DataDrivenStyleProperty[];
+
+const OPERATORS = [
+  'get', 'has', 'literal', 'coalesce', 'match', 'case', 'step', 'interpolate',
+  '==', '!=', '<', '<=', '>', '>=', '!', 'all', 'any',
+];
+
+/**
+ * Check if a style value is an expression
+ */
+export function isStyleExpression(value: unknown): value is StyleExpression {
+  return Array.isArray(value) && typeof value[0] === 'string';
+}
+
+/**
+ * Check if any property of a style is an expression
+ */
+export function isDataDrivenStyle(style: LayerStyle | undefined): boolean {
+  return !!style && DATA_DRIVEN_KEYS.some((key) => isStyleExpression(style[key]));
+}
+
+/**
+ * Check an expression's syntax and output type
+ * @throws MapError with code `INVALID_STYLE_EXPRESSION` if the expression is invalid
+ */
+export function validateStyleExpression(expression: unknown, type: ExpressionType = 'value'): void {
+  try {
+    checkExpression(expression, type);
+  } catch (error) {
+    throw new MapError(
+      `Invalid style expression ${JSON.stringify(expression)}: ${(error as Error).message}`,
+      'INVALID_STYLE_EXPRESSION',
+      { expression }
+    );
+  }
+}
+
+/**
+ * Check the data-driven properties of a layer's style, its source layer
+ * styles, its feature state overrides, its cluster style, its filter and
+ * the styles and filters of its fallbacks
+ * @throws MapError with code `INVALID_STYLE_EXPRESSION` naming the layer and property
+ */
+export function validateLayerStyle(
+  layer: Pick<LayerConfig, 'id' | 'style' | 'filter' | 'options' | 'fallback'>
+): void {
+  const checkStyle = (style: LayerStyle | undefined, path: string): void => {
+    if (!style) return;
+
+    DATA_DRIVEN_KEYS.forEach((key) => {
+      const value = style[key];
+      if (value === undefined) return;
+
+      try {
+        checkExpression(value, DATA_DRIVEN_STYLE_PROPERTIES[key]);
+      } catch (error) {
+        throw new MapError(
+          `Layer "${layer.id}" has an invalid ${path}${key}: ${(error as Error).message}`,
+          'INVALID_STYLE_EXPRESSION',
+          { layerId: layer.id, property: `${path}${key}`, expression: value }
+        );
+      }
+    });
+
+    Object.entries(style.sourceLayers || {}).forEach(([sourceLayer, sourceLayerStyle]) =>
+      checkStyle(sourceLayerStyle, `${path}sourceLayers.${sourceLayer}.`)
+    );
+    FEATURE_STATE_STYLES.forEach((state) => checkStyle(style[state], `${path}${state}.`));
+  };
+
+  let fallback: Pick<LayerConfig, 'style' | 'filter' | 'options' | 'fallback'> | undefined = layer;
+  while (fallback) {
+    checkStyle(fallback.style, 'style.');
+    if (fallback.filter !== undefined) {
+      try {
+        checkExpression(fallback.filter, 'boolean');
+      } catch (error) {
+        throw new MapError(
+          `Layer "${layer.id}" has an invalid filter: ${(error as Error).message}`,
+          'INVALID_STYLE_EXPRESSION',
+          { layerId: layer.id, property: 'filter', expression: fallback.filter }
+        );
+      }
+    }
+    const cluster = fallback.options?.cluster as { style?: LayerStyle } | boolean | undefined;
+    if (typeof cluster === 'object') {
+      checkStyle(cluster.style, 'options.cluster.style.');
+    }
+    fallback = fallback.fallback;
+  }
+}
+
+/**
+ * Evaluate an expression against a feature's properties
+ * Returns null where the expression has no value, e.g. `get` of a missing property.
+ */
+export function evaluateExpression(expression: unknown, properties: FeatureProperties = {}): unknown {
+  if (!isStyleExpression(expression)) {
+    return expression;
+  }
+
+  const [operator, ...args] = expression;
+  const evaluate = (arg: unknown) => evaluateExpression(arg, properties);
+
+  switch (operator) {
+    case 'get':
+      return properties[args[0] as string] ?? null;
+    case 'has':
+      return Object.prototype.hasOwnProperty.call(properties, args[0] as string);
+    case 'literal':
+      return args[0];
+    case 'coalesce':
+      for (const arg of args) {
+        const value = evaluate(arg);
+        if (value !== null && value !== undefined) return value;
+      }
+      return null;
+    case '!':
+      return !evaluate(args[0]);
+    case 'all':
+      return args.every((arg) => evaluate(arg) === true);
+    case 'any':
+      return args.some((arg) => evaluate(arg) === true);
+    case '==':
+      return evaluate(args[0]) === evaluate(args[1]);
+    case '!=':
+      return evaluate(args[0]) !== evaluate(args[1]);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return compare(operator, evaluate(args[0]), evaluate(args[1]));
+    case 'match': {
+      const input = evaluate(args[0]);
+      for (let i = 1; i < args.length - 1; i += 2) {
+        const labels = Array.isArray(args[i]) ? (args[i] as unknown[]) : [args[i]];
+        if (labels.includes(input)) return evaluate(args[i + 1]);
+      }
+      return evaluate(args[args.length - 1]);
+    }
+    case 'case':
+      for (let i = 0; i < args.length - 1; i += 2) {
+        if (evaluate(args[i]) === true) return evaluate(args[i + 1]);
+      }
+      return evaluate(args[args.length - 1]);
+    case 'step': {
+      const input = evaluate(args[0]);
+      if (typeof input !== 'number') return null;
+
+      let output = args[1];
+      for (let i = 2; i < args.length - 1; i += 2) {
+        if (input < (args[i] as number)) break;
+        output = args[i + 1];
+      }
+      return evaluate(output);
+    }
+    case 'interpolate':
+      return interpolate(args, properties);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate a style value for a feature
+ * Literals are returned as they are. Expression results of the wrong type
+ * give undefined, so the renderer's default is used.
+ */
+export function evaluateStyleValue<T extends string | number>(
+  value: StyleValue<T> | undefined,
+  type: 'color' | 'number',
+  properties?: FeatureProperties
+): T | undefined {
+  if (!isStyleExpression(value)) {
+    return value;
+  }
+
+  const result = evaluateExpression(value, properties);
+  if (type === 'number') {
+    return typeof result === 'number' && isFinite(result) ? (result as T) : undefined;
+  }
+  return typeof result === 'string' && result !== '' ? (result as T) : undefined;
+}
+
+/**
+ * Evaluate the data-driven properties of a style for a feature
+ * Without properties, expressions are evaluated as for a feature without any.
+ */
+export function resolveLayerStyle(
+  style: LayerStyle | undefined,
+  properties?: FeatureProperties | null
+): ResolvedLayerStyle {
+  const resolved = { ...style } as ResolvedLayerStyle;
+
+  DATA_DRIVEN_KEYS.forEach((key) => {
+    if (style?.[key] !== undefined) {
+      (resolved as Record<string, unknown>)[key] = evaluateStyleValue(
+        style[key],
+        DATA_DRIVEN_STYLE_PROPERTIES[key],
+        properties ?? undefined
+      );
+    }
+  });
+
+  return resolved;
+}
+
+/**
+ * Check an expression, returning the type it evaluates to
+ * @throws Error describing the first problem found
+ */
+function checkExpression(expression: unknown, expected: ExpressionType): ExpressionType {
+  if (!Array.isArray(expression)) {
+    return checkLiteral(expression, expected);
+  }
+
+  const [operator, ...args] = expression;
+  if (typeof operator !== 'string' || !OPERATORS.includes(operator)) {
+    throw new Error(
+      `unknown operator ${JSON.stringify(operator)}; use ["literal", [...]] for array values`
+    );
+  }
+
+  const actual = checkOperator(operator, args, expected);
+  if (!isAssignable(actual, expected)) {
+    throw new Error(`"${operator}" evaluates to a ${actual}, expected a ${expected}`);
+  }
+  return actual;
+}
+
+/**
+ * Check the arguments of an operator, returning the type it evaluates to
+ */
+function checkOperator(operator: string, args: unknown[], expected: ExpressionType): ExpressionType {
+  const expectArgs = (valid: boolean, usage: string) => {
+    if (!valid) {
+      throw new Error(`"${operator}" expects ${usage}`);
+    }
+  };
+
+  switch (operator) {
+    case 'get':
+    case 'has':
+      expectArgs(args.length === 1 && typeof args[0] === 'string', 'one property name');
+      return operator === 'get' ? 'value' : 'boolean';
+
+    case 'literal':
+      expectArgs(args.length === 1, 'one value');
+      return Array.isArray(args[0]) ? 'value' : checkLiteral(args[0], expected);
+
+    case 'coalesce':
+      expectArgs(args.length >= 1, 'at least one value');
+      args.forEach((arg) => checkExpression(arg, expected));
+      return expected;
+
+    case '!':
+      expectArgs(args.length === 1, 'one condition');
+      checkExpression(args[0], 'boolean');
+      return 'boolean';
+
+    case 'all':
+    case 'any':
+      args.forEach((arg) => checkExpression(arg, 'boolean'));
+      return 'boolean';
+
+    case '==':
+    case '!=':
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      expectArgs(args.length === 2, 'two values');
+      args.forEach((arg) => checkExpression(arg, 'value'));
+      return 'boolean';
+
+    case 'match': {
+      expectArgs(args.length >= 4 && args.length % 2 === 0, 'an input, label/output pairs and a fallback');
+      checkExpression(args[0], 'value');
+      for (let i = 1; i < args.length - 1; i += 2) {
+        const labels = Array.isArray(args[i]) ? (args[i] as unknown[]) : [args[i]];
+        if (labels.length === 0 || !labels.every((label) => typeof label === 'string' || typeof label === 'number')) {
+          throw new Error(`"match" labels must be strings, numbers or arrays of them`);
+        }
+        checkExpression(args[i + 1], expected);
+      }
+      checkExpression(args[args.length - 1], expected);
+      return expected;
+    }
+
+    case 'case':
+      expectArgs(args.length >= 3 && args.length % 2 === 1, 'condition/output pairs and a fallback');
+      for (let i = 0; i < args.length - 1; i += 2) {
+        checkExpression(args[i], 'boolean');
+        checkExpression(args[i + 1], expected);
+      }
+      checkExpression(args[args.length - 1], expected);
+      return expected;
+
+    case 'step':
+      expectArgs(args.length >= 2 && args.length % 2 === 0, 'an input, a base output and stop/output pairs');
+      checkExpression(args[0], 'number');
+      checkExpression(args[1], expected);
+      checkStops(operator, args, 2);
+      for (let i = 3; i < args.length; i += 2) {
+        checkExpression(args[i], expected);
+      }
+      return expected;
+
+    case 'interpolate': {
+      expectArgs(args.length >= 4 && args.length % 2 === 0, 'an interpolation type, an input and stop/output pairs');
+      const [interpolation] = args;
+      const validInterpolation =
+        Array.isArray(interpolation) &&
+        ((interpolation[0] === 'linear' && interpolation.length === 1) ||
+          (interpolation[0] === 'exponential' && interpolation.length === 2 && typeof interpolation[1] === 'number'));
+      if (!validInterpolation) {
+        throw new Error(`"interpolate" type must be ["linear"] or ["exponential", base]`);
+      }
+
+      const outputType = expected === 'value' ? 'number' : expected;
+      if (outputType !== 'number' && outputType !== 'color') {
+        throw new Error(`"interpolate" outputs numbers or colors, expected a ${expected}`);
+      }
+
+      checkExpression(args[1], 'number');
+      checkStops(operator, args, 2);
+      for (let i = 3; i < args.length; i += 2) {
+        checkExpression(args[i], outputType);
+        if (outputType === 'color' && typeof args[i] === 'string') {
+          try {
+            parseColor(args[i] as string);
+          } catch {
+            throw new Error(`"interpolate" cannot interpolate the color ${JSON.stringify(args[i])}`);
+          }
+        }
+      }
+      return outputType;
+    }
+
+    default:
+      return 'value';
+  }
+}
+
+/**
+ * Check that the stops of a `step` or `interpolate` are ascending numbers
+ * @param start Index of the first stop in the arguments
+ */
+function checkStops(operator: string, args: unknown[], start: number): void {
+  let previous = -Infinity;
+  for (let i = start; i < args.length; i += 2) {
+    const stop = args[i];
+    if (typeof stop !== 'number' || stop <= previous) {
+      throw new Error(`"${operator}" stops must be numbers in strictly ascending order`);
+    }
+    previous = stop;
+  }
+}
+
+/**
+ * Check a literal value against the expected type
+ */
+function checkLiteral(value: unknown, expected: ExpressionType): ExpressionType {
+  const actual: ExpressionType =
+    typeof value === 'number' ? 'number' :
+    typeof value === 'string' ? 'string' :
+    typeof value === 'boolean' ? 'boolean' :
+    'value';
+
+  if (expected === 'color' && actual === 'string') {
+    return 'color';
+  }
+  if (expected !== 'value' && actual !== expected) {
+    throw new Error(`expected a ${expected}, found ${JSON.stringify(value)}`);
+  }
+  return actual;
+}
+
+/**
+ * Check if a value of one type can be used where another is expected
+ */
+function isAssignable(actual: ExpressionType, expected: ExpressionType): boolean {
+  return actual === expected || actual === 'value' || expected === 'value' ||
+    (actual === 'string' && expected === 'color');
+}
+
+/**
+ * Compare two numbers or two strings
+ */
+function compare(operator: string, a: unknown, b: unknown): boolean {
+  if (typeof a !== typeof b || (typeof a !== 'number' && typeof a !== 'string')) {
+    return false;
+  }
+
+  const left = a as number | string;
+  const right = b as number | string;
+  switch (operator) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    default: return left >= right;
+  }
+}
+
+/**
+ * Evaluate the arguments of an `interpolate` expression
+ */
+function interpolate(args: unknown[], properties: FeatureProperties): unknown {
+  const [interpolation, inputExpression] = args as [unknown[], unknown];
+  const input = evaluateExpression(inputExpression, properties);
+  if (typeof input !== 'number') return null;
+
+  const stops: number[] = [];
+  for (let i = 2; i < args.length; i += 2) {
+    stops.push(args[i] as number);
+  }
+  const output = (index: number) => evaluateExpression(args[3 + index * 2], properties);
+
+  if (input <= stops[0]) return output(0);
+  if (input >= stops[stops.length - 1]) return output(stops.length - 1);
+
+  const index = stops.findIndex((stop) => stop > input) - 1;
+  const lower = stops[index];
+  const upper = stops[index + 1];
+  const base = interpolation[0] === 'exponential' ? (interpolation[1] as number) : 1;
+  const t = base === 1
+    ? (input - lower) / (upper - lower)
+    : (Math.pow(base, input - lower) - 1) / (Math.pow(base, upper - lower) - 1);
+
+  const from = output(index);
+  const to = output(index + 1);
+  if (typeof from === 'number' && typeof to === 'number') {
+    return from + (to - from) * t;
+  }
+  if (typeof from === 'string' && typeof to === 'string') {
+    try {
+      return interpolateColor(from, to, t);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,130 @@
+/**
+ * Feature state
+ * Per-feature state such as hover and selection, and the style overrides it switches on
+ */
+
+import type { Feature } from 'geojson';
+import type { FeatureId, FeatureState, LayerStyle } from './types';
+
+/**
+ * States with a style override of the same name, in order of precedence
+ */
+export const FEATURE_STATE_STYLES = ['hover', 'selected'] as const;
+
+/**
+ * Get the ID features are addressed by in feature state, their GeoJSON `id`
+ */
+export function getFeatureId(feature: Feature): FeatureId | undefined {
+  return feature.id;
+}
+
+/**
+ * Check if a style has overrides for any feature state
+ */
+export function hasStateStyles(style: LayerStyle | undefined): boolean {
+  return !!style && FEATURE_STATE_STYLES.some((state) => style[state] !== undefined);
+}
+
+/**
+ * Merge the overrides of a feature's active states over a style
+ * States are active when their value is truthy; `selected` wins over `hover`.
+ */
+export function applyFeatureState(style: LayerStyle | undefined, state: FeatureState | undefined): LayerStyle | undefined {
+  if (!style || !state) {
+    return style;
+  }
+
+  return FEATURE_STATE_STYLES.reduce<LayerStyle>(
+    (merged, key) => (state[key] && style[key] ? { ...merged, ...style[key] } : merged),
+    style
+  );
+}
+
+/**
+ * State of the features of a map's layers
+ * Providers keep their feature state here and pass it to their layer managers,
+ * which read it when drawing features.
+ */
+export class FeatureStateStore {
+  private states: Map<string, Map<FeatureId, FeatureState>> = new Map();
+
+  /**
+   * Get a feature's state
+   */
+  get(layerId: string, featureId: FeatureId): FeatureState | undefined {
+    return this.states.get(layerId)?.get(featureId);
+  }
+
+  /**
+   * Get a feature's state by its GeoJSON `id`
+   * Features without an ID have no state.
+   */
+  getForFeature(layerId: string, feature: Feature): FeatureState | undefined {
+    const featureId = getFeatureId(feature);
+    return featureId === undefined ? undefined : this.get(layerId, featureId);
+  }
+
+  /**
+   * Get the state of all features of a layer that have any
+   */
+  getLayer(layerId: string): Map<FeatureId, FeatureState> {
+    return this.states.get(layerId) ?? new Map();
+  }
+
+  /**
+   * Merge keys into a feature's state
+   */
+  set(layerId: string, featureId: FeatureId, state: FeatureState): void {
+    let layerStates = this.states.get(layerId);
+    if (!layerStates) {
+      layerStates = new Map();
+      this.states.set(layerId, layerStates);
+    }
+    layerStates.set(featureId, { ...layerStates.get(featureId), ...state });
+  }
+
+  /**
+   * Remove a key, or the whole state, of one or all features of a layer
+   * @param featureId Feature to remove state from (default: all features of the layer)
+   * @returns IDs of the features whose state changed
+   */
+  remove(layerId: string, featureId?: FeatureId, key?: string): FeatureId[] {
+    const layerStates = this.states.get(layerId);
+    if (!layerStates) {
+      return [];
+    }
+
+    const featureIds = featureId === undefined ? Array.from(layerStates.keys()) : [featureId];
+    const changed = featureIds.filter((id) => {
+      const state = layerStates.get(id);
+      if (!state || (key !== undefined && !(key in state))) {
+        return false;
+      }
+      if (key === undefined) {
+        layerStates.delete(id);
+      } else {
+        delete state[key];
+      }
+      return true;
+    });
+
+    if (layerStates.size === 0) {
+      this.states.delete(layerId);
+    }
+    return changed;
+  }
+
+  /**
+   * Forget the state of all features of a layer
+   */
+  clearLayer(layerId: string): void {
+    this.states.delete(layerId);
+  }
+
+  /**
+   * Forget all state
+   */
+  clear(): void {
+    this.states.clear();
+  }
+}
@@ -18,25 +18,60 @@ export type {
   ViewState,
   MapConfig,
   LayerStyle,
+  ResolvedLayerStyle,
+  StyleExpression,
+  StyleValue,
+  GradientStop,
   DataSource,
   LayerConfig,
+  AddLayerOptions,
+  LayerGroupConfig,
+  LayerTreeItem,
   MapEventType,
   MapEvent,
+  RenderedFeature,
+  ScreenPoint,
+  ScreenBox,
+  QueryFeaturesOptions,
+  FeatureId,
+  FeatureState,
+  FeatureIdentifier,
+  PopupContent,
+  PopupOptions,
+  LayerTooltip,
+  MapProjection,
+  CustomLayer,
+  CustomLayerContext,
   MapEventHandler,
   CameraOptions,
   FeatureProperties,
   ProviderCapabilities,
+  UnsupportedLayerPolicy,
 } from './types';
 
 export { MapError } from './types';
 
 // Provider interfaces
-export type { IMapProvider } from './provider';
+export type { IMapProvider, IProviderLayerManager } from './provider';
 export { BaseMapProvider } from './provider';
 
+// Layer renderers
+export type { ILayerRenderer } from './renderer';
+
+// Capability negotiation
+export { canRenderLayerType, negotiateLayer } from './capabilities';
+
+// Provider registry
+export type { ProviderLoader, ProviderInfo } from './registry';
+export { ProviderRegistry } from './registry';
+
 // Layer interfaces
-export type { ILayer } from './layer';
-export { BaseLayer, LayerFactory, LayerManager } from './layer';
+export type { ILayer, LayerConfigChanges } from './layer';
+export { BaseLayer, LayerFactory, LayerManager, hasCustomLayerHooks, diffLayerConfig } from './layer';
+
+// Layer groups
+export type { LayerGroupState } from './layer-group';
+export { LayerTree, isLayerGroupConfig } from './layer-group';
 
 // Data source interfaces
 export type { IDataSource } from './data-source';
@@ -49,11 +84,83 @@ export {
   MockDataSource,
   DataSourceFactory,
   DataSourceManager,
+  PendingLayerLoads,
 } from './data-source';
 
 // Events
 export { EventEmitter, createMapEvent } from './events';
 
+// Projection
+export {
+  TILE_SIZE,
+  MAX_MERCATOR_LATITUDE,
+  worldSize,
+  projectToWorld,
+  unprojectFromWorld,
+  viewportBounds,
+  fitBoundsToViewport,
+} from './projection';
+
+// Tile templates
+export type { TileScheme, TileTemplate, TileCoordinates } from './tiles';
+export {
+  tileToQuadkey,
+  createTileTemplate,
+  getTileUrl,
+  expandTileTemplate,
+  isZoomInRange,
+  getTilesInBounds,
+} from './tiles';
+
+// Vector tiles
+export type { VectorTile, VectorTileLayer } from './mvt';
+export { decodeVectorTile, vectorTileLayerToGeoJSON, getSourceLayerStyle } from './mvt';
+
+// Style expressions
+export type { ExpressionType } from './expressions';
+export {
+  DATA_DRIVEN_STYLE_PROPERTIES,
+  isStyleExpression,
+  isDataDrivenStyle,
+  validateStyleExpression,
+  validateLayerStyle,
+  evaluateExpression,
+  evaluateStyleValue,
+  resolveLayerStyle,
+} from './expressions';
+
+// Feature picking
+export type { ScreenProjector } from './picking';
+export { PICK_RADIUS, isScreenBox, toFeatures, matchesFilter, pickFeatures } from './picking';
+
+// Feature state
+export {
+  FEATURE_STATE_STYLES,
+  FeatureStateStore,
+  getFeatureId,
+  hasStateStyles,
+  applyFeatureState,
+} from './feature-state';
+
+// Popups
+export { Popup, PopupManager, renderTooltip } from './popup';
+export type { CoordinatesProjector } from './popup';
+
+// Clustering
+export type { ClusterOptions, ClusterProperties, ClusterFeature } from './clustering';
+export {
+  DEFAULT_CLUSTER_STYLE,
+  PointClusterer,
+  getClusterOptions,
+  isClusterFeature,
+  createClusterElement,
+  createCircleElement,
+} from './clustering';
+
+// Colors
+export type { RGBAColor } from './color';
+export { parseColor, formatColor, interpolateColor, sampleGradient } from './color';
+
 // Configuration
 export {
   DEFAULT_MAP_CONFIG,
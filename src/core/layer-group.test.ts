@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { LayerConfig } from './types';
+import { LayerTree, isLayerGroupConfig } from './layer-group';
+
+const layer = (id: string): LayerConfig => ({ id, type: 'points', source: `${id}.geojson` });
+
+let tree: LayerTree;
+
+beforeEach(() => {
+  tree = new LayerTree();
+  tree.addLayer('base');
+  tree.addGroup({ id: 'transport', opacity: 0.5 });
+  tree.addLayer('rail', 'transport');
+  tree.addGroup({ id: 'roads', opacity: 0.5 }, 'transport');
+  tree.addLayer('streets', 'roads');
+  tree.addLayer('highways', 'roads');
+});
+
+describe('isLayerGroupConfig', () => {
+  it('tells groups from layers', () => {
+    expect(isLayerGroupConfig({ id: 'transport', children: [] })).toBe(true);
+    expect(isLayerGroupConfig({ id: 'rail', type: 'lines', source: 'rail.geojson' })).toBe(false);
+  });
+});
+
+describe('LayerTree', () => {
+  it('lists layers depth first, from bottom to top', () => {
+    expect(tree.getLayerIds()).toEqual(['base', 'rail', 'streets', 'highways']);
+    expect(tree.getLayerIds('roads')).toEqual(['streets', 'highways']);
+  });
+
+  it('inserts items below beforeId, in its group', () => {
+    tree.addLayer('trams', undefined, 'streets');
+    tree.addGroup({ id: 'water' }, undefined, 'base');
+
+    expect(tree.getParent('trams')).toBe('roads');
+    expect(tree.getParent('water')).toBeUndefined();
+    expect(tree.getLayerIds()).toEqual(['base', 'rail', 'trams', 'streets', 'highways']);
+    expect(tree.toTree(layer).map((item) => item.id)).toEqual(['water', 'base', 'transport']);
+  });
+
+  it('rejects beforeId outside the group', () => {
+    expect(() => tree.addLayer('trams', 'roads', 'rail')).toThrow('rail is not in layer group roads');
+    expect(() => tree.addLayer('trams', 'unknown')).toThrow('Layer group unknown not found');
+    expect(() => tree.addLayer('trams', undefined, 'unknown')).toThrow('Layer or layer group unknown not found');
+  });
+
+  it('rejects IDs used by another layer or group', () => {
+    expect(() => tree.addLayer('roads')).toThrow('already used by a layer group');
+    expect(() => tree.addGroup({ id: 'rail' })).toThrow('already used by a layer or layer group');
+  });
+
+  it('moves layers already in the tree when they are added again', () => {
+    tree.addLayer('rail', 'roads');
+
+    expect(tree.getParent('rail')).toBe('roads');
+    expect(tree.getLayerIds()).toEqual(['base', 'streets', 'highways', 'rail']);
+  });
+
+  it('moves groups with their layers', () => {
+    tree.move('transport', 'base');
+    expect(tree.getLayerIds()).toEqual(['rail', 'streets', 'highways', 'base']);
+
+    tree.move('roads', 'rail');
+    expect(tree.getLayerIds()).toEqual(['streets', 'highways', 'rail', 'base']);
+  });
+
+  it('moves items to the top of their group without beforeId', () => {
+    tree.move('streets');
+    tree.move('rail');
+
+    expect(tree.getLayerIds()).toEqual(['base', 'highways', 'streets', 'rail']);
+  });
+
+  it('does not move groups into themselves', () => {
+    expect(() => tree.move('transport', 'streets')).toThrow('Layer group transport cannot be moved into itself');
+    expect(tree.getLayerIds()).toEqual(['base', 'rail', 'streets', 'highways']);
+  });
+
+  it('passes the visibility and opacity of enclosing groups down', () => {
+    expect(tree.getInheritedState('streets')).toEqual({ visible: true, opacity: 0.25 });
+    expect(tree.getInheritedState('base')).toEqual({ visible: true, opacity: 1 });
+
+    expect(tree.setGroupState('transport', { visible: false })).toEqual(['rail', 'streets', 'highways']);
+    expect(tree.getInheritedState('streets')).toEqual({ visible: false, opacity: 0.25 });
+    expect(tree.getGroupState('roads')).toEqual({ visible: true, opacity: 0.5 });
+  });
+
+  it('rejects opacities outside 0-1', () => {
+    expect(() => tree.setGroupState('roads', { opacity: 2 })).toThrow('Opacity must be between 0 and 1');
+  });
+
+  it('removes groups with everything in them', () => {
+    expect(tree.remove('transport')).toEqual(['rail', 'streets', 'highways']);
+
+    expect(tree.hasGroup('roads')).toBe(false);
+    expect(tree.hasLayer('streets')).toBe(false);
+    expect(tree.getLayerIds()).toEqual(['base']);
+  });
+
+  it('builds the tree of layers and groups', () => {
+    expect(tree.toTree((id) => (id === 'highways' ? undefined : layer(id)), 'transport')).toEqual([
+      layer('rail'),
+      { id: 'roads', visible: true, opacity: 0.5, children: [layer('streets')] },
+    ]);
+  });
+});
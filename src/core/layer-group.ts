@@ -0,0 +1,287 @@
+/**
+ * Layer groups
+ * Tree of layers and nested groups sharing visibility, opacity and draw order
+ */
+
+import type { LayerConfig, LayerGroupConfig, LayerTreeItem } from './types';
+
+/**
+ * Check if a layer tree item is a group
+ */
+export function isLayerGroupConfig(item: LayerTreeItem): item is LayerGroupConfig {
+  return Array.isArray((item as LayerGroupConfig).children);
+}
+
+/**
+ * Visibility and opacity a group passes down to its layers
+ */
+export interface LayerGroupState {
+  visible: boolean;
+  opacity: number;
+}
+
+/**
+ * Group in the layer tree
+ */
+interface GroupNode extends LayerGroupState {
+  id: string;
+  /** IDs of the child layers and groups, from bottom to top */
+  children: string[];
+}
+
+/**
+ * Tree of the layers of a map and the groups holding them
+ *
+ * The tree decides the draw order: layers are drawn in the order of a
+ * depth-first walk, so the layers of a group are always contiguous and move
+ * with it. Layers outside any group sit at the root.
+ */
+export class LayerTree {
+  private root: string[] = [];
+  private groups: Map<string, GroupNode> = new Map();
+  private layers: Set<string> = new Set();
+  /** Group ID of every item in a group */
+  private parents: Map<string, string> = new Map();
+
+  /**
+   * Check if a layer is in the tree
+   */
+  hasLayer(layerId: string): boolean {
+    return this.layers.has(layerId);
+  }
+
+  /**
+   * Check if a group is in the tree
+   */
+  hasGroup(groupId: string): boolean {
+    return this.groups.has(groupId);
+  }
+
+  /**
+   * Get the ID of the group holding a layer or group
+   */
+  getParent(id: string): string | undefined {
+    return this.parents.get(id);
+  }
+
+  /**
+   * Add a layer
+   * A layer already in the tree is moved to the new position.
+   * @param groupId Group to add the layer to (default: the root)
+   * @param beforeId Layer or group to insert the layer below (default: on top of the group)
+   */
+  addLayer(layerId: string, groupId?: string, beforeId?: string): void {
+    if (this.groups.has(layerId)) {
+      throw new Error(`ID "${layerId}" is already used by a layer group`);
+    }
+    const position = this.resolvePosition(groupId, beforeId);
+
+    this.detach(layerId);
+    this.layers.add(layerId);
+    this.attach(layerId, position.groupId, position.beforeId);
+  }
+
+  /**
+   * Add an empty group
+   * @param parentId Group to nest the group in (default: the root)
+   * @param beforeId Layer or group to insert the group below (default: on top of the parent)
+   */
+  addGroup(group: Pick<LayerGroupConfig, 'id' | 'visible' | 'opacity'>, parentId?: string, beforeId?: string): void {
+    if (this.groups.has(group.id) || this.layers.has(group.id)) {
+      throw new Error(`ID "${group.id}" is already used by a layer or layer group`);
+    }
+    const position = this.resolvePosition(parentId, beforeId);
+
+    this.groups.set(group.id, {
+      id: group.id,
+      visible: group.visible !== false,
+      opacity: group.opacity ?? 1,
+      children: [],
+    });
+    this.attach(group.id, position.groupId, position.beforeId);
+  }
+
+  /**
+   * Remove a layer, or a group with everything in it
+   * @returns IDs of the removed layers
+   */
+  remove(id: string): string[] {
+    const layerIds = this.groups.has(id) ? this.getLayerIds(id) : this.layers.has(id) ? [id] : [];
+
+    this.detach(id);
+    const removeNode = (nodeId: string): void => {
+      const group = this.groups.get(nodeId);
+      group?.children.forEach(removeNode);
+      this.groups.delete(nodeId);
+      this.layers.delete(nodeId);
+      this.parents.delete(nodeId);
+    };
+    removeNode(id);
+
+    return layerIds;
+  }
+
+  /**
+   * Move a layer or group below another layer or group, joining its group
+   * Without `beforeId` the item moves to the top of its current group.
+   */
+  move(id: string, beforeId?: string): void {
+    if (!this.layers.has(id) && !this.groups.has(id)) {
+      throw new Error(`Layer or layer group ${id} not found`);
+    }
+    if (beforeId === id) {
+      return;
+    }
+
+    const position = beforeId === undefined
+      ? { groupId: this.parents.get(id), beforeId: undefined }
+      : this.resolvePosition(undefined, beforeId);
+
+    // A group cannot be moved into itself or one of its descendants
+    for (let groupId = position.groupId; groupId !== undefined; groupId = this.parents.get(groupId)) {
+      if (groupId === id) {
+        throw new Error(`Layer group ${id} cannot be moved into itself`);
+      }
+    }
+
+    this.detach(id);
+    this.attach(id, position.groupId, position.beforeId);
+  }
+
+  /**
+   * Get the layer IDs in draw order, from bottom to top
+   * @param groupId Only list the layers in this group
+   */
+  getLayerIds(groupId?: string): string[] {
+    const collect = (ids: string[]): string[] =>
+      ids.flatMap((id) => {
+        const group = this.groups.get(id);
+        return group ? collect(group.children) : [id];
+      });
+    return collect(groupId === undefined ? this.root : this.getGroup(groupId).children);
+  }
+
+  /**
+   * Get a group's own visibility and opacity
+   */
+  getGroupState(groupId: string): LayerGroupState {
+    const { visible, opacity } = this.getGroup(groupId);
+    return { visible, opacity };
+  }
+
+  /**
+   * Set a group's visibility and/or opacity
+   * @returns IDs of the layers in the group
+   */
+  setGroupState(groupId: string, state: Partial<LayerGroupState>): string[] {
+    const group = this.getGroup(groupId);
+    if (state.opacity !== undefined && (state.opacity < 0 || state.opacity > 1)) {
+      throw new Error('Opacity must be between 0 and 1');
+    }
+    Object.assign(group, state);
+    return this.getLayerIds(groupId);
+  }
+
+  /**
+   * Get the visibility and opacity the groups around a layer pass down to it
+   * Visibility is the conjunction and opacity the product over all enclosing groups.
+   */
+  getInheritedState(layerId: string): LayerGroupState {
+    const state: LayerGroupState = { visible: true, opacity: 1 };
+    for (let groupId = this.parents.get(layerId); groupId !== undefined; groupId = this.parents.get(groupId)) {
+      const group = this.getGroup(groupId);
+      state.visible = state.visible && group.visible;
+      state.opacity *= group.opacity;
+    }
+    return state;
+  }
+
+  /**
+   * Build the tree of layers and groups
+   * @param getLayer Get the configuration of a layer
+   * @param groupId Only build the children of this group
+   */
+  toTree(getLayer: (layerId: string) => LayerConfig | undefined, groupId?: string): LayerTreeItem[] {
+    const build = (ids: string[]): LayerTreeItem[] =>
+      ids.flatMap((id): LayerTreeItem[] => {
+        const group = this.groups.get(id);
+        if (group) {
+          return [{ id, visible: group.visible, opacity: group.opacity, children: build(group.children) }];
+        }
+        const layer = getLayer(id);
+        return layer ? [layer] : [];
+      });
+    return build(groupId === undefined ? this.root : this.getGroup(groupId).children);
+  }
+
+  /**
+   * Remove everything
+   */
+  clear(): void {
+    this.root = [];
+    this.groups.clear();
+    this.layers.clear();
+    this.parents.clear();
+  }
+
+  /**
+   * Get a group
+   * @throws Error if there is no group with the ID
+   */
+  private getGroup(groupId: string): GroupNode {
+    const group = this.groups.get(groupId);
+    if (!group) {
+      throw new Error(`Layer group ${groupId} not found`);
+    }
+    return group;
+  }
+
+  /**
+   * Resolve where to insert an item
+   * `beforeId` decides the group when given, and must then be in `groupId`.
+   */
+  private resolvePosition(groupId?: string, beforeId?: string): { groupId?: string; beforeId?: string } {
+    if (groupId !== undefined) {
+      this.getGroup(groupId);
+    }
+    if (beforeId === undefined) {
+      return { groupId };
+    }
+
+    if (!this.layers.has(beforeId) && !this.groups.has(beforeId)) {
+      throw new Error(`Layer or layer group ${beforeId} not found`);
+    }
+    const parentId = this.parents.get(beforeId);
+    if (groupId !== undefined && parentId !== groupId) {
+      throw new Error(`${beforeId} is not in layer group ${groupId}`);
+    }
+    return { groupId: parentId, beforeId };
+  }
+
+  /**
+   * Insert an item into a group's children, or the root
+   */
+  private attach(id: string, groupId?: string, beforeId?: string): void {
+    const siblings = groupId === undefined ? this.root : this.getGroup(groupId).children;
+    const index = beforeId === undefined ? -1 : siblings.indexOf(beforeId);
+    siblings.splice(index === -1 ? siblings.length : index, 0, id);
+
+    if (groupId === undefined) {
+      this.parents.delete(id);
+    } else {
+      this.parents.set(id, groupId);
+    }
+  }
+
+  /**
+   * Remove an item from its group's children, or the root
+   */
+  private detach(id: string): void {
+    const groupId = this.parents.get(id);
+    const siblings = groupId === undefined ? this.root : this.groups.get(groupId)?.children;
+    const index = siblings?.indexOf(id) ?? -1;
+    if (index !== -1) {
+      siblings!.splice(index, 1);
+    }
+  }
+}
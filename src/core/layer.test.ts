@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { FeatureCollection } from 'geojson';
+import type { CustomLayer, LayerConfig } from './types';
+import { LayerFactory, diffLayerConfig, hasCustomLayerHooks } from './layer';
+
+const hooks: CustomLayer = { onAdd: () => {}, render: () => {}, onRemove: () => {} };
+
+describe('hasCustomLayerHooks', () => {
+  const custom: LayerConfig = { id: 'wind', type: 'custom', source: { type: 'custom' } };
+
+  it('requires the onAdd, render and onRemove hooks', () => {
+    expect(hasCustomLayerHooks({ ...custom, customLayer: hooks })).toBe(true);
+    expect(hasCustomLayerHooks({ ...custom, customLayer: { ...hooks, pick: () => [] } })).toBe(true);
+    expect(hasCustomLayerHooks(custom)).toBe(false);
+    const { onRemove: _, ...incomplete } = hooks;
+    expect(hasCustomLayerHooks({ ...custom, customLayer: incomplete as CustomLayer })).toBe(false);
+  });
+
+  it('rejects custom layers without hooks in layer validation', () => {
+    expect(() => LayerFactory.validateLayerConfig(custom)).toThrow(
+      'Custom layers require onAdd, render and onRemove hooks'
+    );
+    expect(() => LayerFactory.validateLayerConfig({ ...custom, customLayer: hooks })).not.toThrow();
+  });
+});
+
+describe('diffLayerConfig', () => {
+  const source: FeatureCollection = { type: 'FeatureCollection', features: [] };
+  const layer: LayerConfig = {
+    id: 'parks',
+    type: 'polygons',
+    source,
+    style: { fillColor: '#00ff00' },
+    options: { tooltip: '{name}' },
+  };
+  const unchanged = { source: false, style: false, visibility: false, filter: false };
+
+  it('finds no changes between equal configurations', () => {
+    expect(diffLayerConfig(layer, { ...layer, style: { fillColor: '#00ff00' } })).toEqual(unchanged);
+  });
+
+  it('tells style, opacity, visibility and filter changes apart', () => {
+    const restyled = { ...layer, style: { fillColor: '#ff0000' } };
+    expect(diffLayerConfig(layer, restyled)).toEqual({ ...unchanged, style: true });
+    expect(diffLayerConfig(layer, { ...layer, opacity: 0.5 })).toEqual({ ...unchanged, style: true });
+    expect(diffLayerConfig(layer, { ...layer, visible: false })).toEqual({ ...unchanged, visibility: true });
+    expect(diffLayerConfig(layer, { ...layer, filter: ['has', 'name'] })).toEqual({ ...unchanged, filter: true });
+  });
+
+  it('treats a missing opacity or visibility as the default', () => {
+    expect(diffLayerConfig(layer, { ...layer, opacity: 1, visible: true })).toEqual(unchanged);
+  });
+
+  it('compares sources by reference', () => {
+    expect(diffLayerConfig(layer, { ...layer, source: { ...source } }).source).toBe(true);
+  });
+
+  it('requires the layer to be created again when its type, zoom range or options change', () => {
+    expect(diffLayerConfig(layer, { ...layer, type: 'lines' }).source).toBe(true);
+    expect(diffLayerConfig(layer, { ...layer, minZoom: 10 }).source).toBe(true);
+    expect(diffLayerConfig(layer, { ...layer, options: { ...layer.options, cluster: true } }).source).toBe(true);
+    expect(diffLayerConfig(layer, { ...layer, type: 'custom', customLayer: hooks }).source).toBe(true);
+  });
+
+  it('ignores options that do not change how the layer is drawn', () => {
+    expect(diffLayerConfig(layer, { ...layer, options: { tooltip: '{name} ({area})' } })).toEqual(unchanged);
+  });
+});
@@ -151,9 +151,75 @@ export class LayerFactory {
     if (!config.source) {
       throw new Error('Layer source is required');
     }
+    if (config.type === 'custom' && !hasCustomLayerHooks(config)) {
+      throw new Error('Custom layers require onAdd, render and onRemove hooks');
+    }
   }
 }
 
+/**
+ * Check if a layer configuration has the render hooks of a custom layer
+ */
+export function hasCustomLayerHooks(config: LayerConfig): boolean {
+  const hooks = config.customLayer;
+  return (
+    !!hooks &&
+    typeof hooks.onAdd === 'function' &&
+    typeof hooks.render === 'function' &&
+    typeof hooks.onRemove === 'function'
+  );
+}
+
+/**
+ * What changed between two configurations of a layer
+ */
+export interface LayerConfigChanges {
+  /** The type, source, options, zoom range or hooks changed: the layer must be created again */
+  source: boolean;
+  /** The style or opacity changed */
+  style: boolean;
+  /** The visibility changed */
+  visibility: boolean;
+  /** The filter changed */
+  filter: boolean;
+}
+
+/**
+ * Options that do not change how a layer is drawn
+ */
+const UNDRAWN_OPTIONS = ['tooltip'];
+
+/**
+ * Compare two configurations of a layer
+ * Sources and fallbacks are compared by reference, so that large GeoJSON
+ * objects are not serialized; styles, filters and options are compared by value.
+ */
+export function diffLayerConfig(previous: LayerConfig, next: LayerConfig): LayerConfigChanges {
+  const drawnOptions = (config: LayerConfig) =>
+    Object.fromEntries(Object.entries(config.options ?? {}).filter(([key]) => !UNDRAWN_OPTIONS.includes(key)));
+
+  return {
+    source:
+      previous.type !== next.type ||
+      previous.source !== next.source ||
+      previous.minZoom !== next.minZoom ||
+      previous.maxZoom !== next.maxZoom ||
+      previous.customLayer !== next.customLayer ||
+      previous.fallback !== next.fallback ||
+      !isSameValue(drawnOptions(previous), drawnOptions(next)),
+    style: !isSameValue(previous.style, next.style) || (previous.opacity ?? 1) !== (next.opacity ?? 1),
+    visibility: (previous.visible !== false) !== (next.visible !== false),
+    filter: !isSameValue(previous.filter, next.filter),
+  };
+}
+
+/**
+ * Check if two JSON values are equal
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
 /**
  * Generic layer implementation
  */
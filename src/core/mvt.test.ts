@@ -0,0 +1,331 @@
+import { describe, it, expect } from 'vitest';
+import type { Point, Polygon, MultiPolygon } from 'geojson';
+import { decodeVectorTile, vectorTileLayerToGeoJSON, getSourceLayerStyle } from './mvt';
+
+// Minimal protobuf encoder for building vector tiles
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function zigzag(value: number): number {
+  return value < 0 ? -2 * value - 1 : 2 * value;
+}
+
+function key(field: number, wireType: number): number[] {
+  return varint(field * 8 + wireType);
+}
+
+function varintField(field: number, value: number): number[] {
+  return [...key(field, 0), ...varint(value)];
+}
+
+function bytesField(field: number, bytes: number[]): number[] {
+  return [...key(field, 2), ...varint(bytes.length), ...bytes];
+}
+
+function stringField(field: number, value: string): number[] {
+  return bytesField(field, Array.from(new TextEncoder().encode(value)));
+}
+
+function packedField(field: number, values: number[]): number[] {
+  return bytesField(field, values.flatMap(varint));
+}
+
+function doubleField(field: number, value: number): number[] {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value, true);
+  return [...key(field, 1), ...bytes];
+}
+
+function command(id: number, count: number): number {
+  return id + count * 8;
+}
+
+const MOVE_TO = 1;
+const LINE_TO = 2;
+const CLOSE_PATH = 7;
+
+/**
+ * Encode runs of commands with absolute positions as geometry commands
+ * The cursor carries over from run to run, as in the specification.
+ */
+function path(...runs: Array<[number, Array<[number, number]>]>): number[] {
+  let x = 0;
+  let y = 0;
+  return runs.flatMap(([id, points]) => [
+    command(id, id === CLOSE_PATH ? 1 : points.length),
+    ...points.flatMap(([px, py]) => {
+      const deltas = [zigzag(px - x), zigzag(py - y)];
+      x = px;
+      y = py;
+      return deltas;
+    }),
+  ]);
+}
+
+function polygon(...rings: Array<Array<[number, number]>>): number[] {
+  return path(
+    ...rings.flatMap((ring): Array<[number, Array<[number, number]>]> => [
+      [MOVE_TO, [ring[0]]],
+      [LINE_TO, ring.slice(1)],
+      [CLOSE_PATH, []],
+    ])
+  );
+}
+
+interface TestFeature {
+  id?: number;
+  type: number;
+  geometry: number[];
+  tags?: number[];
+}
+
+interface TestLayer {
+  name: string;
+  extent?: number;
+  version?: number;
+  keys?: string[];
+  values?: number[][];
+  features: TestFeature[];
+}
+
+function encodeTile(layers: TestLayer[]): Uint8Array {
+  const bytes = layers.flatMap((layer) =>
+    bytesField(3, [
+      ...varintField(15, layer.version ?? 2),
+      ...stringField(1, layer.name),
+      ...layer.features.flatMap((feature) =>
+        bytesField(2, [
+          ...(feature.id !== undefined ? varintField(1, feature.id) : []),
+          ...(feature.tags ? packedField(2, feature.tags) : []),
+          ...varintField(3, feature.type),
+          ...packedField(4, feature.geometry),
+        ])
+      ),
+      ...(layer.keys ?? []).flatMap((name) => stringField(3, name)),
+      ...(layer.values ?? []).flatMap((value) => bytesField(4, value)),
+      ...(layer.extent !== undefined ? varintField(5, layer.extent) : []),
+    ])
+  );
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode a tile with one layer holding one feature
+ */
+function encodeFeature(name: string, feature: TestFeature, layer?: Partial<TestLayer>): Uint8Array {
+  return encodeTile([{ name, ...layer, features: [feature] }]);
+}
+
+const POINT = 1;
+const LINESTRING = 2;
+const POLYGON = 3;
+
+describe('decodeVectorTile', () => {
+  it('decodes zigzag-encoded command parameters', () => {
+    const tile = decodeVectorTile(
+      encodeTile([
+        {
+          name: 'points',
+          features: [
+            { type: POINT, geometry: path([MOVE_TO, [[25, 17]]]) },
+            { type: POINT, geometry: path([MOVE_TO, [[5, 7], [3, 2]]]) },
+          ],
+        },
+      ])
+    );
+
+    expect(tile.points.features.map((feature) => feature.geometry)).toEqual([
+      { type: 'Point', coordinates: [25, 17] },
+      { type: 'MultiPoint', coordinates: [[5, 7], [3, 2]] },
+    ]);
+  });
+
+  it('starts a new line on every MoveTo', () => {
+    const tile = decodeVectorTile(
+      encodeTile([
+        {
+          name: 'lines',
+          features: [
+            { type: LINESTRING, geometry: path([MOVE_TO, [[2, 2]]], [LINE_TO, [[2, 10], [10, 10]]]) },
+            {
+              type: LINESTRING,
+              geometry: path(
+                [MOVE_TO, [[2, 2]]],
+                [LINE_TO, [[2, 10], [10, 10]]],
+                [MOVE_TO, [[1, 1]]],
+                [LINE_TO, [[3, 5]]]
+              ),
+            },
+          ],
+        },
+      ])
+    );
+
+    expect(tile.lines.features.map((feature) => feature.geometry)).toEqual([
+      { type: 'LineString', coordinates: [[2, 2], [2, 10], [10, 10]] },
+      {
+        type: 'MultiLineString',
+        coordinates: [
+          [[2, 2], [2, 10], [10, 10]],
+          [[1, 1], [3, 5]],
+        ],
+      },
+    ]);
+  });
+
+  it('decodes large command counts and coordinates', () => {
+    const points: Array<[number, number]> = Array.from({ length: 300 }, (_, i) => [i * 100, 8192 - i * 50]);
+    const geometry = path([MOVE_TO, [points[0]]], [LINE_TO, points.slice(1)]);
+    const tile = decodeVectorTile(encodeFeature('lines', { type: LINESTRING, geometry }));
+
+    expect(tile.lines.features[0].geometry).toEqual({ type: 'LineString', coordinates: points });
+  });
+
+  it('closes polygon rings and attaches holes to their exterior ring', () => {
+    const geometry = polygon([[0, 0], [10, 0], [10, 10], [0, 10]], [[3, 3], [3, 7], [7, 7], [7, 3]]);
+    const tile = decodeVectorTile(encodeFeature('areas', { type: POLYGON, geometry }));
+
+    const decoded = tile.areas.features[0].geometry as Polygon;
+    expect(decoded.type).toBe('Polygon');
+    expect(decoded.coordinates).toEqual([
+      [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
+      [[3, 3], [3, 7], [7, 7], [7, 3], [3, 3]],
+    ]);
+  });
+
+  it('splits rings wound like the first ring into separate polygons', () => {
+    const geometry = polygon(
+      [[0, 0], [10, 0], [10, 10], [0, 10]],
+      [[11, 11], [20, 11], [20, 20], [11, 20]],
+      [[13, 13], [13, 17], [17, 17], [17, 13]]
+    );
+    const tile = decodeVectorTile(encodeFeature('areas', { type: POLYGON, geometry }));
+
+    const multiPolygon = tile.areas.features[0].geometry as MultiPolygon;
+    expect(multiPolygon.type).toBe('MultiPolygon');
+    expect(multiPolygon.coordinates.map((polygon) => polygon.length)).toEqual([1, 2]);
+    expect(multiPolygon.coordinates[1][1][0]).toEqual([13, 13]);
+  });
+
+  it('drops polygon rings without area', () => {
+    const geometry = polygon([[0, 0], [10, 0], [20, 0]], [[0, 0], [10, 0], [10, 10], [0, 10]]);
+    const tile = decodeVectorTile(encodeFeature('areas', { type: POLYGON, geometry }));
+
+    expect((tile.areas.features[0].geometry as Polygon).coordinates).toHaveLength(1);
+  });
+
+  it('decodes feature IDs and properties of every value type', () => {
+    const tile = decodeVectorTile(
+      encodeTile([
+        {
+          name: 'places',
+          keys: ['name', 'population', 'elevation', 'offset', 'capital', 'rank'],
+          values: [
+            stringField(1, 'Zürich'),
+            doubleField(3, 1.5),
+            varintField(5, 408),
+            varintField(6, zigzag(-12)),
+            varintField(7, 1),
+          ],
+          features: [
+            {
+              id: 42,
+              type: POINT,
+              geometry: path([MOVE_TO, [[1, 1]]]),
+              tags: [0, 0, 1, 2, 2, 1, 3, 3, 4, 4],
+            },
+          ],
+        },
+      ])
+    );
+
+    const feature = tile.places.features[0];
+    expect(feature.id).toBe(42);
+    expect(feature.properties).toEqual({
+      name: 'Zürich',
+      population: 408,
+      elevation: 1.5,
+      offset: -12,
+      capital: true,
+    });
+  });
+
+  it('reads the layer extent and version, defaulting the extent to 4096', () => {
+    const tile = decodeVectorTile(
+      encodeTile([
+        { name: 'small', extent: 512, version: 1, features: [] },
+        { name: 'default', features: [] },
+      ])
+    );
+
+    expect(tile.small).toMatchObject({ name: 'small', extent: 512, version: 1 });
+    expect(tile.default).toMatchObject({ name: 'default', extent: 4096, version: 2 });
+  });
+
+  it('throws on truncated data', () => {
+    const bytes = encodeFeature('points', { type: POINT, geometry: path([MOVE_TO, [[25, 17]]]) });
+    expect(() => decodeVectorTile(bytes.subarray(0, bytes.length - 3))).toThrow('Unexpected end of vector tile data');
+  });
+});
+
+describe('vectorTileLayerToGeoJSON', () => {
+  const pointAt = (extent: number, x: number, y: number) =>
+    decodeVectorTile(encodeFeature('points', { type: POINT, geometry: path([MOVE_TO, [[x, y]]]) }, { extent })).points;
+
+  const lngLat = (layer: ReturnType<typeof pointAt>, tile: { x: number; y: number; z: number }) =>
+    (vectorTileLayerToGeoJSON(layer, tile).features[0].geometry as Point).coordinates;
+
+  it('scales tile coordinates by the layer extent', () => {
+    const [lng, lat] = lngLat(pointAt(4096, 2048, 2048), { x: 0, y: 0, z: 0 });
+    expect(lng).toBeCloseTo(0);
+    expect(lat).toBeCloseTo(0);
+
+    const tile = { x: 3, y: 5, z: 4 };
+    expect(lngLat(pointAt(512, 128, 384), tile)).toEqual(lngLat(pointAt(4096, 1024, 3072), tile));
+  });
+
+  it('places coordinates within their tile', () => {
+    const [west, north] = lngLat(pointAt(4096, 0, 0), { x: 0, y: 0, z: 0 });
+    expect(west).toBeCloseTo(-180);
+    expect(north).toBeCloseTo(85.0511, 3);
+
+    const [lng, lat] = lngLat(pointAt(4096, 0, 4096), { x: 1, y: 0, z: 1 });
+    expect(lng).toBeCloseTo(0);
+    expect(lat).toBeCloseTo(0);
+  });
+
+  it('keeps feature IDs and properties', () => {
+    const layer = decodeVectorTile(
+      encodeTile([
+        {
+          name: 'points',
+          keys: ['name'],
+          values: [stringField(1, 'a')],
+          features: [{ id: 7, type: POINT, geometry: path([MOVE_TO, [[1, 1]]]), tags: [0, 0] }],
+        },
+      ])
+    ).points;
+
+    expect(vectorTileLayerToGeoJSON(layer, { x: 0, y: 0, z: 0 }).features[0]).toMatchObject({
+      id: 7,
+      properties: { name: 'a' },
+    });
+  });
+});
+
+describe('getSourceLayerStyle', () => {
+  it('merges the source layer style over the layer style', () => {
+    const style = { fillColor: '#ff0000', strokeWidth: 2, sourceLayers: { water: { fillColor: '#0000ff' } } };
+
+    expect(getSourceLayerStyle(style, 'water')).toEqual({ fillColor: '#0000ff', strokeWidth: 2 });
+    expect(getSourceLayerStyle(style, 'roads')).toEqual({ fillColor: '#ff0000', strokeWidth: 2 });
+  });
+});
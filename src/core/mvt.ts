@@ -0,0 +1,520 @@
+/**
+ * Mapbox Vector Tile (MVT) decoding
+ * Implements the protobuf subset used by version 1 and 2 vector tiles.
+ */
+
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import type { LayerStyle } from './types';
+import type { TileCoordinates } from './tiles';
+import { TILE_SIZE, unprojectFromWorld } from './projection';
+
+/**
+ * Layer of a decoded vector tile
+ * Feature geometries are in tile coordinates, from 0 to `extent`.
+ */
+export interface VectorTileLayer {
+  /** Source layer name */
+  name: string;
+  /** Tile coordinate range */
+  extent: number;
+  /** Vector tile specification version */
+  version: number;
+  /** Features in tile coordinates */
+  features: Feature[];
+}
+
+/**
+ * Decoded vector tile, keyed by source layer name
+ */
+export type VectorTile = Record<string, VectorTileLayer>;
+
+/**
+ * Property value types of vector tile features
+ */
+type VectorTileValue = string | number | boolean | null;
+
+/**
+ * Protobuf wire types
+ */
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * Vector tile geometry types
+ */
+const GEOMETRY_POINT = 1;
+const GEOMETRY_LINESTRING = 2;
+const GEOMETRY_POLYGON = 3;
+
+/**
+ * Vector tile geometry commands
+ */
+const COMMAND_MOVE_TO = 1;
+const COMMAND_LINE_TO = 2;
+const COMMAND_CLOSE_PATH = 7;
+
+/**
+ * Minimal protobuf reader
+ */
+class ProtobufReader {
+  pos = 0;
+  private bytes: Uint8Array;
+  private view: DataView;
+  private decoder = new TextDecoder();
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  /**
+   * Read an unsigned varint
+   * Values beyond 2^53 lose precision.
+   */
+  readVarint(): number {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      if (this.pos >= this.bytes.length) {
+        throw new Error('Unexpected end of vector tile data');
+      }
+      byte = this.bytes[this.pos++];
+      result += (byte & 0x7f) * Math.pow(2, shift);
+      shift += 7;
+    } while (byte >= 0x80);
+
+    return result;
+  }
+
+  /**
+   * Read a two's complement int64 varint
+   */
+  readInt64(): number {
+    const value = this.readVarint();
+    return value >= Math.pow(2, 63) ? value - Math.pow(2, 64) : value;
+  }
+
+  /**
+   * Read a zigzag-encoded varint
+   */
+  readSVarint(): number {
+    return zigzag(this.readVarint());
+  }
+
+  /**
+   * Read the end position of a length-delimited field
+   */
+  readLength(): number {
+    const end = this.readVarint() + this.pos;
+    if (end > this.bytes.length) {
+      throw new Error('Unexpected end of vector tile data');
+    }
+    return end;
+  }
+
+  readString(): string {
+    const end = this.readLength();
+    const value = this.decoder.decode(this.bytes.subarray(this.pos, end));
+    this.pos = end;
+    return value;
+  }
+
+  readFloat(): number {
+    const value = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  readDouble(): number {
+    const value = this.view.getFloat64(this.pos, true);
+    this.pos += 8;
+    return value;
+  }
+
+  /**
+   * Read a packed repeated varint field
+   */
+  readPackedVarints(): number[] {
+    const end = this.readLength();
+    const values: number[] = [];
+    while (this.pos < end) {
+      values.push(this.readVarint());
+    }
+    return values;
+  }
+
+  /**
+   * Skip a field of the given wire type
+   */
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.readVarint();
+        break;
+      case WIRE_FIXED64:
+        this.pos += 8;
+        break;
+      case WIRE_BYTES:
+        this.pos = this.readLength();
+        break;
+      case WIRE_FIXED32:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  /**
+   * Read fields until the end position, handing each one to a callback
+   * The callback must consume the field value.
+   */
+  readFields(end: number, onField: (field: number, wireType: number) => void): void {
+    while (this.pos < end) {
+      const key = this.readVarint();
+      onField(Math.floor(key / 8), key & 0x7);
+    }
+  }
+}
+
+/**
+ * Decode a zigzag-encoded integer
+ */
+function zigzag(value: number): number {
+  return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+}
+
+/**
+ * Decode a feature property value message
+ */
+function readValue(reader: ProtobufReader): VectorTileValue {
+  let value: VectorTileValue = null;
+
+  reader.readFields(reader.readLength(), (field, wireType) => {
+    switch (field) {
+      case 1:
+        value = reader.readString();
+        break;
+      case 2:
+        value = reader.readFloat();
+        break;
+      case 3:
+        value = reader.readDouble();
+        break;
+      case 4:
+        value = reader.readInt64();
+        break;
+      case 5:
+        value = reader.readVarint();
+        break;
+      case 6:
+        value = reader.readSVarint();
+        break;
+      case 7:
+        value = reader.readVarint() !== 0;
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  });
+
+  return value;
+}
+
+/**
+ * Decode geometry commands into lines of points
+ * Every MoveTo starts a new line; ClosePath repeats the first point.
+ */
+function decodeCommands(commands: number[]): Position[][] {
+  const lines: Position[][] = [];
+  let line: Position[] | undefined;
+  let x = 0;
+  let y = 0;
+  let i = 0;
+
+  while (i < commands.length) {
+    const command = commands[i] & 0x7;
+    const count = Math.floor(commands[i] / 8);
+    i++;
+
+    if (command === COMMAND_MOVE_TO || command === COMMAND_LINE_TO) {
+      for (let j = 0; j < count; j++) {
+        x += zigzag(commands[i++]);
+        y += zigzag(commands[i++]);
+        if (command === COMMAND_MOVE_TO || !line) {
+          line = [];
+          lines.push(line);
+        }
+        line.push([x, y]);
+      }
+    } else if (command === COMMAND_CLOSE_PATH) {
+      if (line && line.length > 0) {
+        line.push([line[0][0], line[0][1]]);
+      }
+    } else {
+      throw new Error(`Unknown vector tile geometry command ${command}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Signed area of a ring in tile coordinates
+ */
+function signedArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[i][0] - ring[j][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return sum;
+}
+
+/**
+ * Group polygon rings into polygons
+ * Rings wound like the first ring start a new polygon; the others are its holes.
+ */
+function classifyRings(rings: Position[][]): Position[][][] {
+  const polygons: Position[][][] = [];
+  let polygon: Position[][] | undefined;
+  let exteriorClockwise: boolean | undefined;
+
+  rings.forEach((ring) => {
+    const area = signedArea(ring);
+    if (area === 0) return;
+
+    const clockwise = area < 0;
+    exteriorClockwise = exteriorClockwise ?? clockwise;
+
+    if (clockwise === exteriorClockwise || !polygon) {
+      polygon = [ring];
+      polygons.push(polygon);
+    } else {
+      polygon.push(ring);
+    }
+  });
+
+  return polygons;
+}
+
+/**
+ * Build a GeoJSON geometry from decoded geometry commands
+ */
+function toGeometry(type: number, commands: number[]): Geometry | null {
+  const lines = decodeCommands(commands);
+
+  switch (type) {
+    case GEOMETRY_POINT: {
+      const points = lines.flat();
+      if (points.length === 0) return null;
+      return points.length === 1
+        ? { type: 'Point', coordinates: points[0] }
+        : { type: 'MultiPoint', coordinates: points };
+    }
+    case GEOMETRY_LINESTRING:
+      if (lines.length === 0) return null;
+      return lines.length === 1
+        ? { type: 'LineString', coordinates: lines[0] }
+        : { type: 'MultiLineString', coordinates: lines };
+    case GEOMETRY_POLYGON: {
+      const polygons = classifyRings(lines);
+      if (polygons.length === 0) return null;
+      return polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode a feature message
+ */
+function readFeature(
+  reader: ProtobufReader,
+  end: number,
+  keys: string[],
+  values: VectorTileValue[]
+): Feature | null {
+  let id: number | undefined;
+  let tags: number[] = [];
+  let type = 0;
+  let commands: number[] = [];
+
+  reader.readFields(end, (field, wireType) => {
+    switch (field) {
+      case 1:
+        id = reader.readVarint();
+        break;
+      case 2:
+        tags = reader.readPackedVarints();
+        break;
+      case 3:
+        type = reader.readVarint();
+        break;
+      case 4:
+        commands = reader.readPackedVarints();
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  });
+
+  const geometry = toGeometry(type, commands);
+  if (!geometry) {
+    return null;
+  }
+
+  const properties: Record<string, VectorTileValue> = {};
+  for (let i = 0; i + 1 < tags.length; i += 2) {
+    const key = keys[tags[i]];
+    if (key !== undefined) {
+      properties[key] = values[tags[i + 1]] ?? null;
+    }
+  }
+
+  return {
+    type: 'Feature',
+    ...(id !== undefined && { id }),
+    geometry,
+    properties,
+  };
+}
+
+/**
+ * Decode a layer message
+ * Features are decoded last because they reference the layer's keys and values.
+ */
+function readLayer(reader: ProtobufReader): VectorTileLayer {
+  const end = reader.readLength();
+  const layer: VectorTileLayer = { name: '', extent: 4096, version: 1, features: [] };
+  const keys: string[] = [];
+  const values: VectorTileValue[] = [];
+  const featureRanges: Array<[number, number]> = [];
+
+  reader.readFields(end, (field, wireType) => {
+    switch (field) {
+      case 1:
+        layer.name = reader.readString();
+        break;
+      case 2: {
+        const featureEnd = reader.readLength();
+        featureRanges.push([reader.pos, featureEnd]);
+        reader.pos = featureEnd;
+        break;
+      }
+      case 3:
+        keys.push(reader.readString());
+        break;
+      case 4:
+        values.push(readValue(reader));
+        break;
+      case 5:
+        layer.extent = reader.readVarint();
+        break;
+      case 15:
+        layer.version = reader.readVarint();
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  });
+
+  featureRanges.forEach(([start, featureEnd]) => {
+    reader.pos = start;
+    const feature = readFeature(reader, featureEnd, keys, values);
+    if (feature) {
+      layer.features.push(feature);
+    }
+  });
+  reader.pos = end;
+
+  return layer;
+}
+
+/**
+ * Decode a vector tile
+ * @throws Error if the data is not a valid vector tile
+ */
+export function decodeVectorTile(data: ArrayBuffer | Uint8Array): VectorTile {
+  const reader = new ProtobufReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const tile: VectorTile = {};
+
+  reader.readFields(reader.length, (field, wireType) => {
+    if (field === 3) {
+      const layer = readLayer(reader);
+      tile[layer.name] = layer;
+    } else {
+      reader.skip(wireType);
+    }
+  });
+
+  return tile;
+}
+
+/**
+ * Convert a vector tile layer to GeoJSON in [lng, lat]
+ * @param tile Coordinates of the tile the layer was decoded from
+ */
+export function vectorTileLayerToGeoJSON(
+  layer: VectorTileLayer,
+  tile: TileCoordinates
+): FeatureCollection {
+  const scale = TILE_SIZE / layer.extent;
+
+  const toLngLat = (position: Position): Position => {
+    const [lat, lng] = unprojectFromWorld(
+      [tile.x * TILE_SIZE + position[0] * scale, tile.y * TILE_SIZE + position[1] * scale],
+      tile.z
+    );
+    return [lng, lat];
+  };
+
+  const features = layer.features.map((feature): Feature => {
+    const geometry = feature.geometry;
+    let coordinates: unknown;
+
+    switch (geometry.type) {
+      case 'Point':
+        coordinates = toLngLat(geometry.coordinates);
+        break;
+      case 'MultiPoint':
+      case 'LineString':
+        coordinates = geometry.coordinates.map(toLngLat);
+        break;
+      case 'MultiLineString':
+      case 'Polygon':
+        coordinates = geometry.coordinates.map((line) => line.map(toLngLat));
+        break;
+      case 'MultiPolygon':
+        coordinates = geometry.coordinates.map((polygon) =>
+          polygon.map((ring) => ring.map(toLngLat))
+        );
+        break;
+      default:
+        return feature;
+    }
+
+    return { ...feature, geometry: { type: geometry.type, coordinates } as Geometry };
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Resolve the style of one vector tile source layer
+ * Entries of `style.sourceLayers` are merged over the layer style.
+ */
+export function getSourceLayerStyle(style: LayerStyle | undefined, sourceLayer: string): LayerStyle {
+  const { sourceLayers, ...baseStyle } = style || {};
+  return { ...baseStyle, ...sourceLayers?.[sourceLayer] };
+}
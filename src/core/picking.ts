@@ -0,0 +1,202 @@
+/**
+ * Feature picking
+ * Screen-space hit testing and filtering of queried features
+ */
+
+import type { Feature, Geometry, Position } from 'geojson';
+import type { LayerConfig, RenderedFeature, ScreenPoint, ScreenBox, StyleExpression } from './types';
+import { evaluateExpression, resolveLayerStyle } from './expressions';
+import { DEFAULT_LAYER_STYLE } from './config';
+
+/**
+ * Tolerance in pixels around a queried point
+ */
+export const PICK_RADIUS = 3;
+
+/**
+ * Screen rectangle [minX, minY, maxX, maxY]
+ */
+type Rect = [number, number, number, number];
+
+/**
+ * Project a GeoJSON position to the screen
+ * Returns undefined for positions that are not drawn, e.g. behind the globe.
+ */
+export type ScreenProjector = (position: Position) => ScreenPoint | undefined;
+
+/**
+ * Check if a query geometry is a box
+ */
+export function isScreenBox(geometry: ScreenPoint | ScreenBox): geometry is ScreenBox {
+  return Array.isArray(geometry[0]);
+}
+
+/**
+ * Get the features of GeoJSON data
+ * Feature collections yield their features, features themselves; anything else none.
+ */
+export function toFeatures(geoJSON: unknown): Feature[] {
+  const data = geoJSON as { type?: string; features?: Feature[] } | null | undefined;
+  if (data?.type === 'FeatureCollection') {
+    return data.features ?? [];
+  }
+  return data?.type === 'Feature' ? [data as Feature] : [];
+}
+
+/**
+ * Check if a feature matches a filter expression
+ * Features match when the expression evaluates to `true` for their properties.
+ */
+export function matchesFilter(feature: Feature, filter?: StyleExpression): boolean {
+  return !filter || evaluateExpression(filter, feature.properties ?? {}) === true;
+}
+
+/**
+ * Get the features of a layer drawn at a screen point or in a screen box
+ * Points are hit within their radius plus PICK_RADIUS for point queries,
+ * lines within half their width, and polygons also inside their area.
+ * Heatmaps draw densities rather than features and are never hit.
+ * @param features Features drawn by the layer
+ * @param project Project positions to the screen
+ */
+export function pickFeatures(
+  layer: LayerConfig,
+  features: Feature[],
+  geometry: ScreenPoint | ScreenBox,
+  project: ScreenProjector
+): RenderedFeature[] {
+  if (layer.type === 'heatmap') {
+    return [];
+  }
+
+  const [[x1, y1], [x2, y2]] = isScreenBox(geometry) ? geometry : [geometry, geometry];
+  const padding = isScreenBox(geometry) ? 0 : PICK_RADIUS;
+  const rect: Rect = [
+    Math.min(x1, x2) - padding,
+    Math.min(y1, y2) - padding,
+    Math.max(x1, x2) + padding,
+    Math.max(y1, y2) + padding,
+  ];
+
+  return features
+    .filter((feature) => {
+      if (!feature.geometry) return false;
+      const style = resolveLayerStyle(layer.style, feature.properties);
+      const radius = style.radius ?? (DEFAULT_LAYER_STYLE.radius as number);
+      const halfWidth = (style.strokeWidth ?? (DEFAULT_LAYER_STYLE.strokeWidth as number)) / 2;
+      return hitsGeometry(feature.geometry, rect, project, radius, halfWidth);
+    })
+    .map((feature) => ({ ...feature, layerId: layer.id }));
+}
+
+/**
+ * Check if a geometry is drawn in a screen rectangle
+ */
+function hitsGeometry(geometry: Geometry, rect: Rect, project: ScreenProjector, radius: number, halfWidth: number): boolean {
+  switch (geometry.type) {
+    case 'Point':
+      return hitsPoints([geometry.coordinates], rect, project, radius);
+    case 'MultiPoint':
+      return hitsPoints(geometry.coordinates, rect, project, radius);
+    case 'LineString':
+      return hitsLine(geometry.coordinates, rect, project, halfWidth);
+    case 'MultiLineString':
+      return geometry.coordinates.some((line) => hitsLine(line, rect, project, halfWidth));
+    case 'Polygon':
+      return hitsPolygon(geometry.coordinates, rect, project, halfWidth);
+    case 'MultiPolygon':
+      return geometry.coordinates.some((rings) => hitsPolygon(rings, rect, project, halfWidth));
+    case 'GeometryCollection':
+      return geometry.geometries.some((part) => hitsGeometry(part, rect, project, radius, halfWidth));
+  }
+}
+
+/**
+ * Check if any point, drawn as a circle of the given radius, touches a rectangle
+ */
+function hitsPoints(positions: Position[], rect: Rect, project: ScreenProjector, radius: number): boolean {
+  return positions.some((position) => {
+    const point = project(position);
+    return !!point && intersectsRect(point, point, grow(rect, radius));
+  });
+}
+
+/**
+ * Check if a line of the given half width touches a rectangle
+ */
+function hitsLine(positions: Position[], rect: Rect, project: ScreenProjector, halfWidth: number): boolean {
+  const grown = grow(rect, halfWidth);
+  const points = positions.map(project);
+  for (let i = 0; i < points.length - 1; i++) {
+    const [a, b] = [points[i], points[i + 1]];
+    if (a && b && intersectsRect(a, b, grown)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check if a polygon's outline or area touches a rectangle
+ * The area is hit when it contains the rectangle's center; holes are left out.
+ */
+function hitsPolygon(rings: Position[][], rect: Rect, project: ScreenProjector, halfWidth: number): boolean {
+  if (rings.some((ring) => hitsLine(ring, rect, project, halfWidth))) {
+    return true;
+  }
+
+  const center: ScreenPoint = [(rect[0] + rect[2]) / 2, (rect[1] + rect[3]) / 2];
+  const [outer, ...holes] = rings.map((ring) =>
+    ring.map(project).filter((point): point is ScreenPoint => !!point)
+  );
+  return !!outer && containsPoint(outer, center) && !holes.some((hole) => containsPoint(hole, center));
+}
+
+/**
+ * Grow a rectangle on every side
+ */
+function grow([minX, minY, maxX, maxY]: Rect, amount: number): Rect {
+  return [minX - amount, minY - amount, maxX + amount, maxY + amount];
+}
+
+/**
+ * Check if the segment from `a` to `b` intersects a rectangle (Liang-Barsky clipping)
+ */
+function intersectsRect([ax, ay]: ScreenPoint, [bx, by]: ScreenPoint, [minX, minY, maxX, maxY]: Rect): boolean {
+  const dx = bx - ax;
+  const dy = by - ay;
+  let t0 = 0;
+  let t1 = 1;
+
+  const edges: Array<[number, number]> = [[-dx, ax - minX], [dx, maxX - ax], [-dy, ay - minY], [dy, maxY - ay]];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return false;
+      t0 = Math.max(t0, t);
+    } else {
+      if (t < t0) return false;
+      t1 = Math.min(t1, t);
+    }
+  }
+  return true;
+}
+
+/**
+ * Check if a ring contains a point (even-odd rule)
+ */
+function containsPoint(ring: ScreenPoint[], [x, y]: ScreenPoint): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Coordinates, RenderedFeature, ScreenPoint } from './types';
+import { PopupManager, renderTooltip } from './popup';
+
+const paris: RenderedFeature = {
+  type: 'Feature',
+  id: 'paris',
+  layerId: 'cities',
+  geometry: { type: 'Point', coordinates: [2.35, 48.85] },
+  properties: { name: 'Paris', population: 2100000, nickname: null },
+};
+
+describe('renderTooltip', () => {
+  it('fills the placeholders of templates with feature properties', () => {
+    expect(renderTooltip('{name}: { population }', paris)).toBe('Paris: 2100000');
+  });
+
+  it('leaves missing properties empty', () => {
+    expect(renderTooltip('{name} ({nickname}{area})', paris)).toBe('Paris ()');
+  });
+
+  it('calls render functions with the feature', () => {
+    expect(renderTooltip((feature) => `${feature.layerId}/${feature.id}`, paris)).toBe('cities/paris');
+  });
+});
+
+describe('PopupManager', () => {
+  // Coordinates [lat, lng] are drawn at [lng, lat] pixels; negative latitudes are not drawn
+  const project = ([lat, lng]: Coordinates): ScreenPoint | undefined => (lat < 0 ? undefined : [lng, lat]);
+
+  let container: HTMLElement;
+  let popups: PopupManager;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    popups = new PopupManager(project);
+    popups.mount(container);
+  });
+
+  afterEach(() => {
+    popups.destroy();
+    container.remove();
+  });
+
+  it('draws popups at their projected coordinates', () => {
+    const popup = popups.open([20, 10], 'Paris', { offset: [0, -5], className: 'city' });
+    const element = popup.getElement()!;
+
+    expect(container.contains(element)).toBe(true);
+    expect(element.className).toBe('universal-map-popup city');
+    expect(element.textContent).toContain('Paris');
+    expect(element.style.left).toBe('10px');
+    expect(element.style.top).toBe('15px');
+  });
+
+  it('follows the coordinates and hides popups whose coordinates are not drawn', () => {
+    const popup = popups.open([20, 10], 'Paris');
+
+    popup.setLngLat([30, 40]);
+    expect(popup.getElement()!.style.left).toBe('40px');
+
+    popup.setLngLat([-10, 40]);
+    expect(popup.getElement()!.style.display).toBe('none');
+  });
+
+  it('shows strings as text', () => {
+    const popup = popups.open([20, 10], '<b>Paris</b>');
+
+    expect(popup.getElement()!.querySelector('b')).toBeNull();
+  });
+
+  it('closes popups with their close button', () => {
+    const popup = popups.open([20, 10], 'Paris');
+
+    popup.getElement()!.querySelector('button')!.click();
+
+    expect(popup.isOpen()).toBe(false);
+    expect(popup.getElement()!.isConnected).toBe(false);
+    expect(popups.getPopups()).toEqual([]);
+  });
+
+  it('closes popups on map clicks unless disabled', () => {
+    const popup = popups.open([20, 10], 'Paris');
+    const pinned = popups.open([20, 10], 'Lyon', { closeOnClick: false });
+
+    popups.closeOnClick();
+
+    expect(popup.isOpen()).toBe(false);
+    expect(popups.getPopups()).toEqual([pinned]);
+  });
+
+  it('closes the popups and tooltip of a layer', () => {
+    const popup = popups.open([20, 10], 'Paris', { layerId: 'cities' });
+    const other = popups.open([20, 10], 'Lyon', { layerId: 'towns' });
+    popups.showTooltip([20, 10], 'Paris', 'cities');
+
+    popups.closeLayer('cities');
+
+    expect(popup.isOpen()).toBe(false);
+    expect(other.isOpen()).toBe(true);
+    expect(container.querySelector('.universal-map-tooltip')).toBeNull();
+  });
+
+  it('moves the tooltip of a layer instead of opening another one', () => {
+    popups.showTooltip([20, 10], 'Paris', 'cities');
+    popups.showTooltip([30, 40], 'Lyon', 'cities');
+
+    const tooltips = container.querySelectorAll<HTMLElement>('.universal-map-tooltip');
+    expect(tooltips).toHaveLength(1);
+    expect(tooltips[0].textContent).toBe('Lyon');
+    expect(tooltips[0].style.left).toBe('40px');
+    expect(popups.getPopups()).toEqual([]);
+  });
+
+  it('hides the tooltip', () => {
+    popups.showTooltip([20, 10], 'Paris', 'cities');
+
+    popups.hideTooltip();
+
+    expect(container.querySelector('.universal-map-tooltip')).toBeNull();
+  });
+
+  it('removes the overlay when destroyed', () => {
+    const popup = popups.open([20, 10], 'Paris');
+
+    popups.destroy();
+
+    expect(popup.isOpen()).toBe(false);
+    expect(container.children).toHaveLength(0);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Popups
+ * Popups and feature tooltips drawn in an overlay above the map and positioned
+ * with the current provider's projection, so they work the same on every provider
+ */
+
+import type {
+  Coordinates,
+  LayerTooltip,
+  PopupContent,
+  PopupOptions,
+  RenderedFeature,
+  ScreenPoint,
+} from './types';
+
+/**
+ * Project coordinates to the map container
+ * Returns undefined for coordinates that are not drawn, e.g. behind the globe.
+ */
+export type CoordinatesProjector = (coordinates: Coordinates) => ScreenPoint | undefined;
+
+/**
+ * Offset of tooltips above the pointer, in pixels
+ */
+const TOOLTIP_OFFSET: ScreenPoint = [0, -12];
+
+/**
+ * Render a layer's tooltip for a feature
+ * `{property}` placeholders of templates are replaced with the feature's
+ * properties; missing properties are left empty.
+ */
+export function renderTooltip(tooltip: LayerTooltip, feature: RenderedFeature): PopupContent {
+  if (typeof tooltip === 'function') {
+    return tooltip(feature);
+  }
+
+  const properties = feature.properties ?? {};
+  return tooltip.replace(/\{([^{}]+)\}/g, (_, key: string) => {
+    const value = properties[key.trim()];
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * Popup anchored at geographic coordinates
+ * Open popups follow their coordinates as the camera moves and are hidden
+ * while the coordinates are not drawn.
+ */
+export class Popup {
+  private element?: HTMLElement;
+  private contentElement?: HTMLElement;
+  private open = true;
+
+  constructor(
+    private lngLat: Coordinates,
+    private content: PopupContent,
+    readonly options: PopupOptions,
+    private project: CoordinatesProjector,
+    private onClose: (popup: Popup) => void
+  ) {
+    // Headless environments have no DOM; popups are kept without an element
+    if (typeof document !== 'undefined') {
+      this.element = this.createElement();
+      this.renderContent();
+    }
+  }
+
+  /**
+   * Get the coordinates the popup is anchored at
+   */
+  getLngLat(): Coordinates {
+    return [this.lngLat[0], this.lngLat[1]];
+  }
+
+  /**
+   * Move the popup to other coordinates
+   */
+  setLngLat(lngLat: Coordinates): this {
+    this.lngLat = [lngLat[0], lngLat[1]];
+    this.render();
+    return this;
+  }
+
+  /**
+   * Get the popup content
+   */
+  getContent(): PopupContent {
+    return this.content;
+  }
+
+  /**
+   * Replace the popup content
+   */
+  setContent(content: PopupContent): this {
+    this.content = content;
+    this.renderContent();
+    this.render();
+    return this;
+  }
+
+  /**
+   * Get the popup's DOM element (undefined without a DOM)
+   */
+  getElement(): HTMLElement | undefined {
+    return this.element;
+  }
+
+  /**
+   * Check if the popup is open
+   */
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  /**
+   * Close the popup
+   */
+  close(): void {
+    if (!this.open) {
+      return;
+    }
+    this.open = false;
+    this.element?.remove();
+    this.onClose(this);
+  }
+
+  /**
+   * Position the popup at its coordinates
+   */
+  render(): void {
+    if (!this.element || !this.open) {
+      return;
+    }
+
+    const point = this.project(this.lngLat);
+    if (!point) {
+      this.element.style.display = 'none';
+      return;
+    }
+    const [offsetX, offsetY] = this.options.offset ?? [0, 0];
+    Object.assign(this.element.style, {
+      display: '',
+      left: `${point[0] + offsetX}px`,
+      top: `${point[1] + offsetY}px`,
+    });
+  }
+
+  /**
+   * Create the popup element, anchored at the middle of its bottom edge
+   */
+  private createElement(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = ['universal-map-popup', this.options.className].filter(Boolean).join(' ');
+    Object.assign(element.style, {
+      position: 'absolute',
+      transform: 'translate(-50%, -100%)',
+      pointerEvents: 'auto',
+      maxWidth: '240px',
+      padding: '6px 10px',
+      borderRadius: '4px',
+      background: '#ffffff',
+      boxShadow: '0 1px 4px rgba(0, 0, 0, 0.3)',
+      color: '#333333',
+      font: '12px sans-serif',
+    });
+
+    this.contentElement = document.createElement('div');
+    element.appendChild(this.contentElement);
+
+    if (this.options.closeButton !== false) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = '×';
+      button.setAttribute('aria-label', 'Close popup');
+      Object.assign(button.style, {
+        position: 'absolute',
+        top: '0',
+        right: '0',
+        padding: '0 4px',
+        border: 'none',
+        background: 'transparent',
+        font: '14px sans-serif',
+        cursor: 'pointer',
+      });
+      button.addEventListener('click', () => this.close());
+      element.style.paddingRight = '20px';
+      element.appendChild(button);
+    }
+
+    // Keep pointer events on the popup from reaching maps drawn into the container itself
+    ['click', 'dblclick', 'contextmenu', 'mousedown', 'mousemove', 'pointerdown', 'touchstart', 'wheel'].forEach(
+      (type) => element.addEventListener(type, (event) => event.stopPropagation())
+    );
+    return element;
+  }
+
+  /**
+   * Show the content in the popup element, strings as text
+   */
+  private renderContent(): void {
+    if (!this.contentElement) {
+      return;
+    }
+    if (typeof this.content === 'string') {
+      this.contentElement.textContent = this.content;
+    } else {
+      this.contentElement.replaceChildren(this.content);
+    }
+  }
+}
+
+/**
+ * Popups and the feature tooltip of a map
+ * Draws them in an overlay on top of the map container and keeps them at
+ * their coordinates on every animation frame while any is open.
+ */
+export class PopupManager {
+  private overlay?: HTMLElement;
+  private popups: Set<Popup> = new Set();
+  private tooltip?: Popup;
+  private frame?: number;
+
+  constructor(private project: CoordinatesProjector) {
+    if (typeof document !== 'undefined') {
+      this.overlay = document.createElement('div');
+      Object.assign(this.overlay.style, {
+        position: 'absolute',
+        inset: '0',
+        overflow: 'hidden',
+        pointerEvents: 'none',
+        zIndex: '1000',
+      });
+    }
+  }
+
+  /**
+   * Attach the overlay to a map container, on top of the map drawn in it
+   * Called again after switching providers, which may clear the container.
+   */
+  mount(container: HTMLElement | undefined): void {
+    if (!this.overlay || !container) {
+      return;
+    }
+    if (getComputedStyle(container).position === 'static') {
+      container.style.position = 'relative';
+    }
+    container.appendChild(this.overlay);
+    this.update();
+  }
+
+  /**
+   * Open a popup
+   */
+  open(lngLat: Coordinates, content: PopupContent, options: PopupOptions = {}): Popup {
+    const popup = new Popup(lngLat, content, options, this.project, (closed) => this.release(closed));
+    this.popups.add(popup);
+
+    const element = popup.getElement();
+    if (element) {
+      this.overlay?.appendChild(element);
+    }
+    popup.render();
+    this.scheduleUpdate();
+    return popup;
+  }
+
+  /**
+   * Get the open popups, without the tooltip
+   */
+  getPopups(): Popup[] {
+    return Array.from(this.popups).filter((popup) => popup !== this.tooltip);
+  }
+
+  /**
+   * Show the tooltip of a layer's feature at the pointer
+   */
+  showTooltip(lngLat: Coordinates, content: PopupContent, layerId: string): void {
+    if (this.tooltip?.options.layerId === layerId) {
+      this.tooltip.setContent(content).setLngLat(lngLat);
+      return;
+    }
+
+    this.hideTooltip();
+    this.tooltip = this.open(lngLat, content, {
+      layerId,
+      offset: TOOLTIP_OFFSET,
+      className: 'universal-map-tooltip',
+      closeButton: false,
+      closeOnClick: false,
+    });
+    // The tooltip must not catch the pointer it follows
+    const element = this.tooltip.getElement();
+    if (element) {
+      Object.assign(element.style, { pointerEvents: 'none', whiteSpace: 'nowrap' });
+    }
+  }
+
+  /**
+   * Hide the tooltip
+   */
+  hideTooltip(): void {
+    this.tooltip?.close();
+  }
+
+  /**
+   * Close the popups that close on map clicks
+   */
+  closeOnClick(): void {
+    this.getPopups()
+      .filter((popup) => popup.options.closeOnClick !== false)
+      .forEach((popup) => popup.close());
+  }
+
+  /**
+   * Close the popups and tooltip of a layer
+   */
+  closeLayer(layerId: string): void {
+    Array.from(this.popups)
+      .filter((popup) => popup.options.layerId === layerId)
+      .forEach((popup) => popup.close());
+  }
+
+  /**
+   * Close all popups and the tooltip
+   */
+  closeAll(): void {
+    Array.from(this.popups).forEach((popup) => popup.close());
+  }
+
+  /**
+   * Position all open popups
+   */
+  update(): void {
+    this.popups.forEach((popup) => popup.render());
+  }
+
+  /**
+   * Close all popups and remove the overlay
+   */
+  destroy(): void {
+    this.closeAll();
+    this.overlay?.remove();
+    if (this.frame !== undefined) {
+      cancelAnimationFrame(this.frame);
+      this.frame = undefined;
+    }
+  }
+
+  /**
+   * Forget a closed popup
+   */
+  private release(popup: Popup): void {
+    this.popups.delete(popup);
+    if (popup === this.tooltip) {
+      this.tooltip = undefined;
+    }
+  }
+
+  /**
+   * Position the popups on the next animation frames while any is open
+   * Without requestAnimationFrame, popups are only positioned when they change.
+   */
+  private scheduleUpdate(): void {
+    if (this.frame !== undefined || typeof requestAnimationFrame === 'undefined') {
+      return;
+    }
+    this.frame = requestAnimationFrame(() => {
+      this.frame = undefined;
+      if (this.popups.size > 0) {
+        this.update();
+        this.scheduleUpdate();
+      }
+    });
+  }
+}
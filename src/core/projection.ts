@@ -0,0 +1,91 @@
+/**
+ * Web Mercator projection utilities
+ */
+
+import type { Coordinates, Coordinates3D, BoundingBox } from './types';
+
+/**
+ * Size of a map tile in pixels at zoom level 0
+ */
+export const TILE_SIZE = 256;
+
+/**
+ * Maximum latitude representable in Web Mercator
+ */
+export const MAX_MERCATOR_LATITUDE = 85.0511287798;
+
+/**
+ * Width of the world in pixels at the given zoom level
+ */
+export function worldSize(zoom: number): number {
+  return TILE_SIZE * Math.pow(2, zoom);
+}
+
+/**
+ * Project [lat, lng] coordinates to world pixel coordinates [x, y]
+ */
+export function projectToWorld(coords: Coordinates | Coordinates3D, zoom: number): [number, number] {
+  const [lat, lng] = coords;
+  const size = worldSize(zoom);
+  const clampedLat = Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+
+  const x = ((lng + 180) / 360) * size;
+  const y = (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size;
+
+  return [x, y];
+}
+
+/**
+ * Unproject world pixel coordinates [x, y] to [lat, lng] coordinates
+ */
+export function unprojectFromWorld(point: [number, number], zoom: number): Coordinates {
+  const [x, y] = point;
+  const size = worldSize(zoom);
+
+  const lng = (x / size) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  const lat = (180 / Math.PI) * Math.atan(Math.sinh(n));
+
+  return [lat, lng];
+}
+
+/**
+ * Compute the bounding box visible in a viewport of the given pixel size
+ */
+export function viewportBounds(
+  center: Coordinates | Coordinates3D,
+  zoom: number,
+  width: number,
+  height: number
+): BoundingBox {
+  const [cx, cy] = projectToWorld(center, zoom);
+  const [north, west] = unprojectFromWorld([cx - width / 2, cy - height / 2], zoom);
+  const [south, east] = unprojectFromWorld([cx + width / 2, cy + height / 2], zoom);
+
+  return [west, south, east, north];
+}
+
+/**
+ * Compute the center and zoom that fit a bounding box into a viewport
+ */
+export function fitBoundsToViewport(
+  bounds: BoundingBox,
+  width: number,
+  height: number,
+  padding: number = 0
+): { center: Coordinates; zoom: number } {
+  const [west, south, east, north] = bounds;
+  const [x1, y1] = projectToWorld([north, west], 0);
+  const [x2, y2] = projectToWorld([south, east], 0);
+
+  const spanX = Math.max(Math.abs(x2 - x1), Number.EPSILON);
+  const spanY = Math.max(Math.abs(y2 - y1), Number.EPSILON);
+  const availableWidth = Math.max(width - padding * 2, 1);
+  const availableHeight = Math.max(height - padding * 2, 1);
+
+  const zoom = Math.log2(Math.min(availableWidth / spanX, availableHeight / spanY));
+  const center = unprojectFromWorld([(x1 + x2) / 2, (y1 + y2) / 2], 0);
+
+  return { center, zoom };
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { BoundingBox, LayerConfig, MapEvent, ViewState } from './types';
+import type { IProviderLayerManager } from './provider';
+import { BaseMapProvider } from './provider';
+import { MockMapProvider } from '../providers/mock';
+import { MOCK_CAPABILITIES } from '../providers/mock/capabilities';
+
+/**
+ * Provider whose layer updates fail before the layer loads
+ */
+class UnavailableMapProvider extends MockMapProvider {
+  async updateLayer(): Promise<void> {
+    throw new Error('No context');
+  }
+}
+
+/**
+ * Provider whose layer updates fail to load
+ */
+class OfflineMapProvider extends MockMapProvider {
+  updateLayer(layerId: string): Promise<void> {
+    return this.trackLayerLoad(layerId, Promise.reject(new Error('Offline')));
+  }
+}
+
+/**
+ * Provider drawing its layers through a layer manager that records the calls
+ */
+class ManagedMapProvider extends BaseMapProvider {
+  readonly name = 'managed';
+  readonly capabilities = MOCK_CAPABILITIES;
+  readonly layerManager = {
+    addLayer: vi.fn(async () => {}),
+    updateLayer: vi.fn(async () => {}),
+    removeLayer: vi.fn(),
+    setLayerVisibility: vi.fn(),
+    setLayerOrder: vi.fn(),
+    applyFeatureState: vi.fn(),
+    pickFeatures: vi.fn(() => []),
+    getSourceFeatures: vi.fn(() => []),
+  } satisfies IProviderLayerManager;
+
+  async initialize(): Promise<void> {
+    this.ready = true;
+  }
+  destroy(): void {
+    this.ready = false;
+  }
+  getViewState(): ViewState {
+    return { center: [0, 0], zoom: 4 };
+  }
+  setViewState(): void {}
+  getBounds(): BoundingBox {
+    return [-180, -85, 180, 85];
+  }
+  fitBounds(): void {}
+  project(): undefined {}
+  unproject(): undefined {}
+  resize(): void {}
+  getMapInstance(): unknown {
+    return undefined;
+  }
+
+  protected getLayerManager(): IProviderLayerManager | undefined {
+    return this.ready ? this.layerManager : undefined;
+  }
+}
+
+const parks: LayerConfig = { id: 'parks', type: 'points', source: { type: 'FeatureCollection', features: [] } };
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+let provider: MockMapProvider;
+let errors: MapEvent[];
+
+async function initialize(instance: MockMapProvider): Promise<void> {
+  provider = instance;
+  await provider.initialize({ provider: 'mock', container: 'map', center: [0, 0], zoom: 4 });
+  await provider.addLayer(parks);
+  provider.on('layer:error', (event) => errors.push(event));
+}
+
+beforeEach(() => {
+  errors = [];
+});
+
+afterEach(() => {
+  provider.destroy();
+});
+
+describe('setLayerVisibility and setLayerOpacity', () => {
+  it('report updates failing before the layer loads as layer:error', async () => {
+    await initialize(new UnavailableMapProvider());
+
+    provider.setLayerVisibility('parks', false);
+    provider.setLayerOpacity('parks', 0.5);
+    await flush();
+
+    expect(errors.map((event) => event.layerId)).toEqual(['parks', 'parks']);
+    expect(errors[0].error).toMatchObject({
+      code: 'LAYER_LOAD_ERROR',
+      message: 'Failed to load layer parks: No context',
+    });
+  });
+
+  it('report failed loads once', async () => {
+    await initialize(new OfflineMapProvider());
+
+    provider.setLayerOpacity('parks', 0.5);
+    await flush();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].error?.message).toBe('Failed to load layer parks: Offline');
+  });
+});
+
+describe('layers drawn by a layer manager', () => {
+  let managed: ManagedMapProvider;
+
+  beforeEach(async () => {
+    managed = new ManagedMapProvider();
+    await managed.initialize();
+  });
+
+  it('draws layers in the layer order', async () => {
+    await managed.addLayer(parks);
+    await managed.addLayer({ ...parks, id: 'rivers' }, { beforeId: 'parks' });
+
+    expect(managed.layerManager.addLayer).toHaveBeenLastCalledWith({ ...parks, id: 'rivers' });
+    expect(managed.layerManager.setLayerOrder).toHaveBeenLastCalledWith(['rivers', 'parks']);
+  });
+
+  it('draws layers outside their zoom range hidden', async () => {
+    await managed.addLayer({ ...parks, minZoom: 10 });
+
+    expect(managed.layerManager.addLayer).toHaveBeenCalledWith({ ...parks, minZoom: 10, visible: false });
+    expect(managed.getLayer('parks')?.visible).toBeUndefined();
+  });
+
+  it('merges updates, keeping the layer ID', async () => {
+    await managed.addLayer(parks);
+    await managed.updateLayer('parks', { id: 'rivers', opacity: 0.5 });
+
+    expect(managed.getLayer('parks')).toEqual({ ...parks, opacity: 0.5 });
+    expect(managed.layerManager.updateLayer).toHaveBeenCalledWith('parks', { ...parks, opacity: 0.5 });
+    await expect(managed.updateLayer('rivers', {})).rejects.toThrow('Layer rivers not found');
+  });
+
+  it('removes what was drawn of layers whose data failed to load, keeping their configuration', async () => {
+    managed.layerManager.addLayer.mockRejectedValueOnce(new Error('404'));
+    await expect(managed.addLayer(parks)).rejects.toMatchObject({ code: 'LAYER_LOAD_ERROR' });
+    expect(managed.layerManager.removeLayer).toHaveBeenCalledWith('parks');
+    expect(managed.getLayer('parks')).toEqual(parks);
+
+    managed.layerManager.updateLayer.mockRejectedValueOnce(new Error('404'));
+    await expect(managed.updateLayer('parks', { opacity: 0.5 })).rejects.toMatchObject({ code: 'LAYER_LOAD_ERROR' });
+    expect(managed.layerManager.removeLayer).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects layer operations before the provider is initialized', async () => {
+    const uninitialized = new ManagedMapProvider();
+
+    await expect(uninitialized.addLayer(parks)).rejects.toThrow('Layer manager not initialized');
+    expect(() => uninitialized.removeLayer('parks')).toThrow('Layer manager not initialized');
+  });
+});
@@ -3,16 +3,33 @@
  * All map providers must implement this interface
  */
 
+import type { Feature } from 'geojson';
 import type {
   MapConfig,
   ViewState,
   LayerConfig,
+  AddLayerOptions,
   MapEventType,
   MapEventHandler,
   CameraOptions,
   BoundingBox,
   ProviderCapabilities,
+  Coordinates,
+  RenderedFeature,
+  ScreenPoint,
+  ScreenBox,
+  QueryFeaturesOptions,
+  StyleExpression,
+  FeatureId,
+  FeatureState,
+  FeatureIdentifier,
 } from './types';
+import { MapError } from './types';
+import { createMapEvent } from './events';
+import { isZoomInRange } from './tiles';
+import { validateStyleExpression } from './expressions';
+import { matchesFilter } from './picking';
+import { FeatureStateStore } from './feature-state';
 
 /**
  * Base interface that all map providers must implement
@@ -63,11 +80,31 @@ export interface IMapProvider {
    */
   fitBounds(bounds: BoundingBox, options?: CameraOptions): void;
 
+  /**
+   * Project geographic coordinates to the screen
+   * @param coordinates Coordinates [lat, lng]
+   * @returns Position in pixels relative to the map container, or undefined
+   * when the coordinates are not drawn, e.g. behind the globe
+   */
+  project(coordinates: Coordinates): ScreenPoint | undefined;
+
+  /**
+   * Unproject a screen point to geographic coordinates
+   * @param point Position in pixels relative to the map container
+   * @returns Coordinates [lat, lng], or undefined when the map is not drawn
+   * at the point, e.g. beside the globe
+   */
+  unproject(point: ScreenPoint): Coordinates | undefined;
+
   /**
    * Add a layer to the map
+   * Layers are stacked in the order they are added unless `options.beforeId` is set.
    * @param layer Layer configuration
+   * @param options Where to insert the layer
+   * @returns Resolves once the layer's data is drawn; rejects with a MapError
+   * (`LAYER_LOAD_ERROR`) if it failed to load
    */
-  addLayer(layer: LayerConfig): void;
+  addLayer(layer: LayerConfig, options?: AddLayerOptions): Promise<void>;
 
   /**
    * Remove a layer from the map
@@ -79,8 +116,11 @@ export interface IMapProvider {
    * Update a layer
    * @param layerId Layer ID
    * @param updates Partial layer configuration
+   * @returns Resolves once the update is drawn; rejects with a MapError
+   * (`LAYER_LOAD_ERROR`) if reloading the layer's data failed, or with an
+   * Error if the layer does not exist
    */
-  updateLayer(layerId: string, updates: Partial<LayerConfig>): void;
+  updateLayer(layerId: string, updates: Partial<LayerConfig>): Promise<void>;
 
   /**
    * Get a layer by ID
@@ -89,10 +129,39 @@ export interface IMapProvider {
   getLayer(layerId: string): LayerConfig | undefined;
 
   /**
-   * Get all layers
+   * Get all layers, from bottom to top
    */
   getLayers(): LayerConfig[];
 
+  /**
+   * Move a layer below another layer
+   * @param layerId Layer ID
+   * @param beforeId ID of the layer to move it below (default: on top of all layers)
+   */
+  moveLayer(layerId: string, beforeId?: string): void;
+
+  /**
+   * Get the layer IDs from bottom to top
+   * Updating a layer keeps its position.
+   */
+  getLayerOrder(): string[];
+
+  /**
+   * Check if the current zoom is within a layer's `minZoom`/`maxZoom` range
+   * Layers outside their range are hidden; `layer:active` and `layer:inactive`
+   * events are emitted when the zoom crosses it.
+   * @param layerId Layer ID
+   */
+  isLayerActive(layerId: string): boolean;
+
+  /**
+   * Check if a layer is being added or updated
+   * `layer:loading` is emitted when an operation starts, `layer:loaded` or
+   * `layer:error` when it settles.
+   * @param layerId Layer ID
+   */
+  isLayerLoading(layerId: string): boolean;
+
   /**
    * Set layer visibility
    * @param layerId Layer ID
@@ -107,6 +176,51 @@ export interface IMapProvider {
    */
   setLayerOpacity(layerId: string, opacity: number): void;
 
+  /**
+   * Get the points of a cluster in a clustered layer
+   * Optional; providers without clustering leave it out.
+   * @param layerId Layer ID
+   * @param clusterId `cluster_id` property of the cluster feature
+   * @param limit Maximum number of points
+   * @param offset Number of points to skip
+   */
+  getClusterLeaves?(layerId: string, clusterId: number, limit?: number, offset?: number): Promise<Feature[]>;
+
+  /**
+   * Get the features drawn at a screen point or in a screen box, from top to bottom
+   * Hidden layers and layers outside their zoom range are not queried.
+   * @param geometry Point or box in pixels relative to the map container
+   * @param options Layers to query and a filter expression
+   */
+  queryRenderedFeatures(geometry: ScreenPoint | ScreenBox, options?: QueryFeaturesOptions): RenderedFeature[];
+
+  /**
+   * Get the features of a layer's data, drawn or not
+   * Vector tile layers only have the features of the tiles loaded so far.
+   * @param layerId Layer ID
+   * @param filter Expression the feature properties must match
+   */
+  querySourceFeatures(layerId: string, filter?: StyleExpression): Feature[];
+
+  /**
+   * Merge keys into the state of a feature, restyling only that feature
+   * @param target Layer and GeoJSON `id` of the feature
+   * @param state State keys, e.g. `{ hover: true }`
+   */
+  setFeatureState(target: FeatureIdentifier, state: FeatureState): void;
+
+  /**
+   * Get the state of a feature (empty if it has none)
+   */
+  getFeatureState(target: FeatureIdentifier): FeatureState;
+
+  /**
+   * Remove a key, or the whole state, of one or all features of a layer
+   * @param target Layer, and the feature to clear (default: all features of the layer)
+   * @param key State key to remove (default: all keys)
+   */
+  removeFeatureState(target: { layerId: string; featureId?: FeatureId }, key?: string): void;
+
   /**
    * Add an event listener
    * @param eventType Event type
@@ -138,6 +252,58 @@ export interface IMapProvider {
   isReady(): boolean;
 }
 
+/**
+ * Layer manager interface
+ * Draws the layers of a provider on its map. BaseMapProvider keeps the layer
+ * configurations, their order and zoom ranges, and delegates drawing to it.
+ */
+export interface IProviderLayerManager {
+  /**
+   * Load a layer's data and draw it
+   * Updates while the data loads replace the configuration the layer is drawn with.
+   * Rejects if the data failed to load; the provider then removes the layer.
+   */
+  addLayer(config: LayerConfig): Promise<void>;
+
+  /**
+   * Draw a layer with a new configuration
+   * Rejects if new data failed to load; the provider then removes the layer.
+   */
+  updateLayer(layerId: string, config: LayerConfig): Promise<void>;
+
+  /**
+   * Remove a layer, dropping the pending load of its data
+   */
+  removeLayer(layerId: string): void;
+
+  /**
+   * Show or hide a drawn layer without changing its configuration
+   */
+  setLayerVisibility(layerId: string, visible: boolean): void;
+
+  /**
+   * Stack the drawn layers in the given order
+   * @param order Layer IDs from bottom to top
+   */
+  setLayerOrder(order: string[]): void;
+
+  /**
+   * Restyle a feature after its state changed
+   */
+  applyFeatureState(layerId: string, featureId: FeatureId): void;
+
+  /**
+   * Get the features of some layers drawn at a screen point or in a screen box
+   * Each layer's features are listed from top to bottom.
+   */
+  pickFeatures(geometry: ScreenPoint | ScreenBox, layerIds: string[]): RenderedFeature[];
+
+  /**
+   * Get the features of a layer's loaded data
+   */
+  getSourceFeatures(layerId: string): Feature[];
+}
+
 /**
  * Abstract base class for map providers
  * Provides common functionality and enforces interface implementation
@@ -149,8 +315,14 @@ export abstract class BaseMapProvider implements IMapProvider {
   protected config?: MapConfig;
   protected container?: HTMLElement;
   protected layers: Map<string, LayerConfig> = new Map();
+  protected activeLayers: Set<string> = new Set();
+  protected featureStates: FeatureStateStore = new FeatureStateStore();
   protected eventHandlers: Map<MapEventType, Set<MapEventHandler>> = new Map();
   protected ready: boolean = false;
+  /** Number of unsettled add and update operations, by layer ID */
+  private pendingLoads: Map<string, number> = new Map();
+  /** Errors already reported as `layer:error` */
+  private reportedLayerErrors: WeakSet<MapError> = new WeakSet();
 
   abstract initialize(config: MapConfig): Promise<void>;
   abstract destroy(): void;
@@ -158,12 +330,93 @@ export abstract class BaseMapProvider implements IMapProvider {
   abstract setViewState(viewState: Partial<ViewState>, options?: CameraOptions): void;
   abstract getBounds(): BoundingBox;
   abstract fitBounds(bounds: BoundingBox, options?: CameraOptions): void;
-  abstract addLayer(layer: LayerConfig): void;
-  abstract removeLayer(layerId: string): void;
-  abstract updateLayer(layerId: string, updates: Partial<LayerConfig>): void;
+  abstract project(coordinates: Coordinates): ScreenPoint | undefined;
+  abstract unproject(point: ScreenPoint): Coordinates | undefined;
   abstract resize(): void;
   abstract getMapInstance(): unknown;
 
+  /**
+   * Get the layer manager drawing the layers
+   * Providers that render layers return theirs once initialized.
+   */
+  protected getLayerManager(): IProviderLayerManager | undefined {
+    return undefined;
+  }
+
+  /**
+   * Add a layer
+   */
+  async addLayer(layer: LayerConfig, options?: AddLayerOptions): Promise<void> {
+    const layerManager = this.requireLayerManager();
+
+    this.insertLayer(layer, options?.beforeId);
+    layerManager.setLayerOrder(this.getLayerOrder());
+    const add = layerManager.addLayer(this.getRenderedLayer(layer));
+    return this.trackLayerLoad(layer.id, this.removeFailedLayer(layerManager, layer.id, add));
+  }
+
+  /**
+   * Remove a layer
+   */
+  removeLayer(layerId: string): void {
+    this.requireLayerManager().removeLayer(layerId);
+    this.layers.delete(layerId);
+    this.featureStates.clearLayer(layerId);
+  }
+
+  /**
+   * Update a layer
+   */
+  async updateLayer(layerId: string, updates: Partial<LayerConfig>): Promise<void> {
+    const layerManager = this.requireLayerManager();
+
+    const updatedLayer = this.mergeLayerUpdates(layerId, updates);
+    const update = layerManager.updateLayer(layerId, this.getRenderedLayer(updatedLayer));
+    this.layers.set(layerId, updatedLayer);
+    this.updateActiveLayers();
+    return this.trackLayerLoad(layerId, this.removeFailedLayer(layerManager, layerId, update));
+  }
+
+  /**
+   * Merge updates into the configuration of a layer, keeping its ID
+   * @throws Error if the layer does not exist
+   */
+  protected mergeLayerUpdates(layerId: string, updates: Partial<LayerConfig>): LayerConfig {
+    const layer = this.layers.get(layerId);
+    if (!layer) {
+      throw new Error(`Layer ${layerId} not found`);
+    }
+    return { ...layer, ...updates, id: layerId };
+  }
+
+  /**
+   * Get the layer manager, which exists once the provider is initialized
+   */
+  private requireLayerManager(): IProviderLayerManager {
+    const layerManager = this.getLayerManager();
+    if (!layerManager) {
+      throw new Error('Layer manager not initialized');
+    }
+    return layerManager;
+  }
+
+  /**
+   * Remove what was drawn of a layer whose data failed to load
+   * The layer keeps its configuration, so updating it loads it again.
+   */
+  private removeFailedLayer(
+    layerManager: IProviderLayerManager,
+    layerId: string,
+    operation: Promise<void>
+  ): Promise<void> {
+    return operation.catch((error) => {
+      if (this.ready) {
+        layerManager.removeLayer(layerId);
+      }
+      throw error;
+    });
+  }
+
   /**
    * Get a layer by ID
    */
@@ -172,29 +425,322 @@ export abstract class BaseMapProvider implements IMapProvider {
   }
 
   /**
-   * Get all layers
+   * Get all layers, from bottom to top
    */
   getLayers(): LayerConfig[] {
     return Array.from(this.layers.values());
   }
 
+  /**
+   * Move a layer below another layer, or on top of all layers
+   */
+  moveLayer(layerId: string, beforeId?: string): void {
+    const layer = this.layers.get(layerId);
+    if (!layer) {
+      throw new Error(`Layer ${layerId} not found`);
+    }
+
+    if (beforeId === layerId) {
+      return;
+    }
+    if (beforeId !== undefined && !this.layers.has(beforeId)) {
+      throw new Error(`Layer ${beforeId} not found`);
+    }
+
+    this.layers.delete(layerId);
+    this.insertLayer(layer, beforeId);
+    this.applyLayerOrder();
+  }
+
+  /**
+   * Get the layer IDs from bottom to top
+   */
+  getLayerOrder(): string[] {
+    return Array.from(this.layers.keys());
+  }
+
+  /**
+   * Check if the current zoom is within a layer's zoom range
+   */
+  isLayerActive(layerId: string): boolean {
+    return this.activeLayers.has(layerId);
+  }
+
+  /**
+   * Check if a layer is being added or updated
+   */
+  isLayerLoading(layerId: string): boolean {
+    return this.pendingLoads.has(layerId);
+  }
+
+  /**
+   * Get the features drawn at a screen point or in a screen box, from top to bottom
+   */
+  queryRenderedFeatures(geometry: ScreenPoint | ScreenBox, options: QueryFeaturesOptions = {}): RenderedFeature[] {
+    if (options.filter !== undefined) {
+      validateStyleExpression(options.filter, 'boolean');
+    }
+
+    const layerIds = this.getLayerOrder().filter(
+      (layerId) =>
+        (!options.layers || options.layers.includes(layerId)) &&
+        this.layers.get(layerId)!.visible !== false &&
+        this.activeLayers.has(layerId)
+    );
+    if (layerIds.length === 0) {
+      return [];
+    }
+
+    // The sort is stable, so each layer keeps the order of its own features
+    const ranks = new Map(layerIds.map((layerId, index) => [layerId, index]));
+    return this.pickRenderedFeatures(geometry, layerIds)
+      .filter((feature) => ranks.has(feature.layerId) && matchesFilter(feature, options.filter))
+      .sort((a, b) => ranks.get(b.layerId)! - ranks.get(a.layerId)!);
+  }
+
+  /**
+   * Get the features of a layer's data, drawn or not
+   */
+  querySourceFeatures(layerId: string, filter?: StyleExpression): Feature[] {
+    if (!this.layers.has(layerId)) {
+      throw new Error(`Layer ${layerId} not found`);
+    }
+    if (filter !== undefined) {
+      validateStyleExpression(filter, 'boolean');
+    }
+
+    return this.getSourceFeatures(layerId).filter((feature) => matchesFilter(feature, filter));
+  }
+
+  /**
+   * Merge keys into the state of a feature
+   * @throws Error if the layer does not exist
+   */
+  setFeatureState(target: FeatureIdentifier, state: FeatureState): void {
+    this.checkFeatureTarget(target);
+    this.featureStates.set(target.layerId, target.featureId, state);
+    this.applyFeatureState(target.layerId, target.featureId);
+  }
+
+  /**
+   * Get the state of a feature (empty if it has none)
+   */
+  getFeatureState(target: FeatureIdentifier): FeatureState {
+    this.checkFeatureTarget(target);
+    return { ...this.featureStates.get(target.layerId, target.featureId) };
+  }
+
+  /**
+   * Remove a key, or the whole state, of one or all features of a layer
+   */
+  removeFeatureState(target: { layerId: string; featureId?: FeatureId }, key?: string): void {
+    this.checkFeatureTarget(target);
+    this.featureStates
+      .remove(target.layerId, target.featureId, key)
+      .forEach((featureId) => this.applyFeatureState(target.layerId, featureId));
+  }
+
+  /**
+   * Restyle a feature after its state changed
+   * The layer manager reads the state from `featureStates`.
+   */
+  protected applyFeatureState(layerId: string, featureId: FeatureId): void {
+    this.getLayerManager()?.applyFeatureState(layerId, featureId);
+  }
+
+  /**
+   * Check the layer and feature ID of a feature state call
+   * @throws Error if the layer does not exist or the feature ID is invalid
+   */
+  private checkFeatureTarget(target: { layerId: string; featureId?: FeatureId }): void {
+    if (!this.layers.has(target.layerId)) {
+      throw new Error(`Layer ${target.layerId} not found`);
+    }
+    if (target.featureId !== undefined && typeof target.featureId !== 'string' && typeof target.featureId !== 'number') {
+      throw new Error('Feature ID must be a string or a number');
+    }
+  }
+
+  /**
+   * Get the features drawn by some layers at a screen point or in a screen box
+   * Each layer's features are listed from top to bottom; the result is then
+   * filtered and sorted by the layer order.
+   * @param layerIds Visible layers to query
+   */
+  protected pickRenderedFeatures(geometry: ScreenPoint | ScreenBox, layerIds: string[]): RenderedFeature[] {
+    return this.getLayerManager()?.pickFeatures(geometry, layerIds) ?? [];
+  }
+
+  /**
+   * Get the features of a layer's loaded data
+   */
+  protected getSourceFeatures(layerId: string): Feature[] {
+    return this.getLayerManager()?.getSourceFeatures(layerId) ?? [];
+  }
+
+  /**
+   * Track a layer below another layer, or on top of all layers
+   * The layers map is kept in stacking order; layers already tracked keep
+   * their position unless `beforeId` is given.
+   * @throws Error if `beforeId` is not a layer
+   */
+  protected insertLayer(layer: LayerConfig, beforeId?: string): void {
+    if (beforeId !== undefined && beforeId !== layer.id && !this.layers.has(beforeId)) {
+      throw new Error(`Layer ${beforeId} not found`);
+    }
+
+    if (this.isInZoomRange(layer)) {
+      this.activeLayers.add(layer.id);
+    } else {
+      this.activeLayers.delete(layer.id);
+    }
+
+    if (beforeId === undefined || beforeId === layer.id) {
+      this.layers.set(layer.id, layer);
+      return;
+    }
+
+    const entries = Array.from(this.layers).filter(([id]) => id !== layer.id);
+    const index = entries.findIndex(([id]) => id === beforeId);
+    entries.splice(index, 0, [layer.id, layer]);
+    this.layers = new Map(entries);
+  }
+
+  /**
+   * Get the configuration a layer is drawn with
+   * Layers outside their zoom range are drawn hidden.
+   */
+  protected getRenderedLayer(layer: LayerConfig): LayerConfig {
+    return this.isInZoomRange(layer) ? layer : { ...layer, visible: false };
+  }
+
+  /**
+   * Show or hide layers whose zoom range the zoom has entered or left
+   * Called on every zoom event and after layers are updated. Emits
+   * `layer:active` or `layer:inactive` for every layer whose state changed.
+   */
+  protected updateActiveLayers(): void {
+    this.activeLayers.forEach((layerId) => {
+      if (!this.layers.has(layerId)) {
+        this.activeLayers.delete(layerId);
+      }
+    });
+
+    this.layers.forEach((layer, layerId) => {
+      const active = this.isInZoomRange(layer);
+      if (active === this.activeLayers.has(layerId)) {
+        return;
+      }
+
+      if (active) {
+        this.activeLayers.add(layerId);
+      } else {
+        this.activeLayers.delete(layerId);
+      }
+      if (layer.visible !== false) {
+        this.setRenderedLayerVisibility(layerId, active);
+      }
+
+      const eventType = active ? 'layer:active' : 'layer:inactive';
+      this.emit(eventType, createMapEvent(eventType, this.getMapInstance(), { layerId }));
+    });
+  }
+
+  /**
+   * Track an add or update operation of a layer
+   * Emits `layer:loading` right away, then `layer:loaded` or `layer:error`
+   * once the operation settled. The layer is loading until all its operations settled.
+   * @returns The operation, rejecting with a MapError (`LAYER_LOAD_ERROR`) if it failed
+   */
+  protected trackLayerLoad(layerId: string, operation: Promise<void>): Promise<void> {
+    this.pendingLoads.set(layerId, (this.pendingLoads.get(layerId) ?? 0) + 1);
+    this.emit('layer:loading', createMapEvent('layer:loading', this.getMapInstance(), { layerId }));
+
+    const settle = () => {
+      const pending = this.pendingLoads.get(layerId) ?? 0;
+      if (pending > 1) {
+        this.pendingLoads.set(layerId, pending - 1);
+      } else {
+        this.pendingLoads.delete(layerId);
+      }
+    };
+
+    return operation.then(
+      () => {
+        settle();
+        this.emit('layer:loaded', createMapEvent('layer:loaded', this.getMapInstance(), { layerId }));
+      },
+      (cause) => {
+        settle();
+        throw this.reportLayerError(layerId, cause);
+      }
+    );
+  }
+
+  /**
+   * Report the failure of a layer operation as `layer:error`, once
+   * @returns The failure as a MapError (`LAYER_LOAD_ERROR` unless it already was a MapError)
+   */
+  private reportLayerError(layerId: string, cause: unknown): MapError {
+    const error = cause instanceof MapError
+      ? cause
+      : new MapError(
+          `Failed to load layer ${layerId}: ${cause instanceof Error ? cause.message : 'Unknown error'}`,
+          'LAYER_LOAD_ERROR',
+          { layerId, error: cause }
+        );
+    if (!this.reportedLayerErrors.has(error)) {
+      this.reportedLayerErrors.add(error);
+      this.emit('layer:error', createMapEvent('layer:error', this.getMapInstance(), { layerId, error }));
+    }
+    return error;
+  }
+
+  /**
+   * Show or hide a drawn layer without changing its configuration
+   * Used to enforce zoom ranges.
+   */
+  protected setRenderedLayerVisibility(layerId: string, visible: boolean): void {
+    this.getLayerManager()?.setLayerVisibility(layerId, visible);
+  }
+
+  /**
+   * Check if the current zoom is within a layer's zoom range
+   */
+  private isInZoomRange(layer: LayerConfig): boolean {
+    if (layer.minZoom === undefined && layer.maxZoom === undefined) {
+      return true;
+    }
+    return isZoomInRange(this.getViewState().zoom, layer.minZoom, layer.maxZoom);
+  }
+
+  /**
+   * Stack the rendered layers in the order of `getLayerOrder()`
+   * Called after a layer is moved.
+   */
+  protected applyLayerOrder(): void {
+    this.getLayerManager()?.setLayerOrder(this.getLayerOrder());
+  }
+
   /**
    * Set layer visibility
+   * Failures are reported as `layer:error`.
    */
   setLayerVisibility(layerId: string, visible: boolean): void {
     const layer = this.layers.get(layerId);
     if (layer) {
-      this.updateLayer(layerId, { visible });
+      this.updateLayer(layerId, { visible }).catch((error) => this.reportLayerError(layerId, error));
     }
   }
 
   /**
    * Set layer opacity
+   * Failures are reported as `layer:error`.
    */
   setLayerOpacity(layerId: string, opacity: number): void {
     const layer = this.layers.get(layerId);
     if (layer) {
-      this.updateLayer(layerId, { opacity });
+      this.updateLayer(layerId, { opacity }).catch((error) => this.reportLayerError(layerId, error));
     }
   }
 
@@ -220,8 +766,13 @@ export abstract class BaseMapProvider implements IMapProvider {
 
   /**
    * Emit an event to all registered handlers
+   * Zoom events first show or hide the layers whose zoom range was crossed.
    */
   protected emit(eventType: MapEventType, event: unknown): void {
+    if (eventType === 'zoom') {
+      this.updateActiveLayers();
+    }
+
     const handlers = this.eventHandlers.get(eventType);
     if (handlers) {
       handlers.forEach((handler) => handler(event as any));
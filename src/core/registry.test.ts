@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ProviderCapabilities } from './types';
+import { ProviderRegistry } from './registry';
+import { MockMapProvider } from '../providers/mock';
+
+const CAPABILITIES: ProviderCapabilities = {
+  supports3D: false,
+  supportsVectorTiles: true,
+  supports3DTiles: false,
+  supportsCustomProjections: false,
+  supportsTerrain: false,
+  requiresApiKey: true,
+};
+
+let registry: ProviderRegistry;
+
+beforeEach(() => {
+  registry = new ProviderRegistry();
+});
+
+describe('ProviderRegistry', () => {
+  it('looks providers up by case-insensitive name', async () => {
+    registry.register('Mock', () => new MockMapProvider());
+
+    expect(registry.has('mock')).toBe(true);
+    expect(registry.has('MOCK')).toBe(true);
+    expect(registry.getNames()).toEqual(['mock']);
+    expect(await registry.create('mock')).toBeInstanceOf(MockMapProvider);
+  });
+
+  it('replaces providers registered under the same name', async () => {
+    const replacement = new MockMapProvider();
+    registry.register('mock', () => new MockMapProvider());
+    registry.register('mock', () => replacement);
+
+    expect(registry.getNames()).toEqual(['mock']);
+    expect(await registry.create('mock')).toBe(replacement);
+  });
+
+  it('requires a name', () => {
+    expect(() => registry.register('', () => new MockMapProvider())).toThrow('Provider name is required');
+  });
+
+  it('rejects unknown names', async () => {
+    registry.register('mock', () => new MockMapProvider());
+
+    await expect(registry.create('nope')).rejects.toMatchObject({
+      code: 'PROVIDER_NOT_FOUND',
+      message: 'Provider "nope" not found. Available providers: mock',
+    });
+    await expect(registry.getCapabilities('nope')).rejects.toMatchObject({ code: 'PROVIDER_NOT_FOUND' });
+  });
+
+  it('forgets unregistered providers', async () => {
+    registry.register('mock', () => new MockMapProvider(), CAPABILITIES);
+    registry.unregister('MOCK');
+
+    expect(registry.has('mock')).toBe(false);
+    await expect(registry.getCapabilities('mock')).rejects.toMatchObject({ code: 'PROVIDER_NOT_FOUND' });
+  });
+
+  it('creates a new provider each time', async () => {
+    registry.register('mock', () => new MockMapProvider());
+
+    expect(await registry.create('mock')).not.toBe(await registry.create('mock'));
+  });
+});
+
+describe('lazy loading', () => {
+  it('does not load providers when they are registered', () => {
+    const loader = vi.fn(() => new MockMapProvider());
+    registry.register('mock', loader);
+
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it('reports registered capabilities without loading the provider', async () => {
+    const loader = vi.fn(() => new MockMapProvider());
+    registry.register('mock', loader, CAPABILITIES);
+
+    expect(await registry.getCapabilities('mock')).toBe(CAPABILITIES);
+    expect(await registry.list()).toEqual([{ name: 'mock', capabilities: CAPABILITIES }]);
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it('loads providers registered without capabilities once to read them', async () => {
+    const provider = new MockMapProvider();
+    const loader = vi.fn(async () => provider);
+    registry.register('mock', loader);
+
+    expect(await registry.getCapabilities('mock')).toBe(provider.capabilities);
+    expect(await registry.getCapabilities('mock')).toBe(provider.capabilities);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the capabilities of a replaced provider', async () => {
+    const provider = new MockMapProvider();
+    registry.register('mock', () => provider, CAPABILITIES);
+    registry.register('mock', () => provider);
+
+    expect(await registry.getCapabilities('mock')).toBe(provider.capabilities);
+  });
+});
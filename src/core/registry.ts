@@ -0,0 +1,118 @@
+/**
+ * Provider registry
+ * Maps provider names to lazy factories so providers can be added without forking
+ */
+
+import type { ProviderCapabilities } from './types';
+import type { IMapProvider } from './provider';
+import { MapError } from './types';
+
+/**
+ * Lazy factory that creates a provider instance
+ * Typically wraps a dynamic import so the provider code is only loaded when used.
+ */
+export type ProviderLoader = () => Promise<IMapProvider> | IMapProvider;
+
+/**
+ * Registered provider summary
+ */
+export interface ProviderInfo {
+  /** Registered provider name */
+  name: string;
+  /** Provider capabilities */
+  capabilities: ProviderCapabilities;
+}
+
+/**
+ * Registry of map providers
+ */
+export class ProviderRegistry {
+  private loaders: Map<string, ProviderLoader> = new Map();
+  private capabilities: Map<string, ProviderCapabilities> = new Map();
+
+  /**
+   * Register a provider
+   * Names are case-insensitive; registering an existing name replaces it.
+   * @param capabilities Capabilities of the provider, reported without
+   * loading it; otherwise the provider is loaded the first time they are requested
+   */
+  register(name: string, loader: ProviderLoader, capabilities?: ProviderCapabilities): void {
+    if (!name) {
+      throw new MapError('Provider name is required', 'CONFIG_ERROR');
+    }
+    const key = name.toLowerCase();
+    this.loaders.set(key, loader);
+    if (capabilities) {
+      this.capabilities.set(key, capabilities);
+    } else {
+      this.capabilities.delete(key);
+    }
+  }
+
+  /**
+   * Unregister a provider
+   */
+  unregister(name: string): void {
+    const key = name.toLowerCase();
+    this.loaders.delete(key);
+    this.capabilities.delete(key);
+  }
+
+  /**
+   * Check if a provider is registered
+   */
+  has(name: string): boolean {
+    return this.loaders.has(name.toLowerCase());
+  }
+
+  /**
+   * Get the names of all registered providers
+   */
+  getNames(): string[] {
+    return Array.from(this.loaders.keys());
+  }
+
+  /**
+   * Create a new provider instance
+   */
+  async create(name: string): Promise<IMapProvider> {
+    const key = name.toLowerCase();
+    const loader = this.loaders.get(key);
+    if (!loader) {
+      throw new MapError(
+        `Provider "${name}" not found. Available providers: ${this.getNames().join(', ')}`,
+        'PROVIDER_NOT_FOUND'
+      );
+    }
+
+    const provider = await loader();
+    this.capabilities.set(key, provider.capabilities);
+    return provider;
+  }
+
+  /**
+   * Get the capabilities of a provider
+   * Providers registered without capabilities are loaded the first time
+   * their capabilities are requested.
+   */
+  async getCapabilities(name: string): Promise<ProviderCapabilities> {
+    const key = name.toLowerCase();
+    const cached = this.capabilities.get(key);
+    if (cached) {
+      return cached;
+    }
+    return (await this.create(key)).capabilities;
+  }
+
+  /**
+   * List all registered providers with their capabilities
+   */
+  async list(): Promise<ProviderInfo[]> {
+    return Promise.all(
+      this.getNames().map(async (name) => ({
+        name,
+        capabilities: await this.getCapabilities(name),
+      }))
+    );
+  }
+}
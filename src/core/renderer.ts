@@ -0,0 +1,70 @@
+/**
+ * Layer renderer interface
+ * Providers delegate the layer types a renderer supports to it
+ */
+
+import type { Feature } from 'geojson';
+import type { LayerConfig, RenderedFeature, ScreenPoint, ScreenBox, FeatureId } from './types';
+
+/**
+ * Layer renderer interface
+ * A renderer draws layers on top of a provider's base map, e.g. through a
+ * WebGL overlay, independently of the provider's native layer support.
+ */
+export interface ILayerRenderer {
+  /**
+   * Check if the renderer can draw a layer configuration
+   */
+  canRender(config: LayerConfig): boolean;
+
+  /**
+   * Check if the renderer draws a layer
+   */
+  hasLayer(layerId: string): boolean;
+
+  /**
+   * Load a layer's data and draw it
+   * Updates while the data loads replace the configuration the layer is drawn with.
+   * Rejects if the data failed to load; callers then remove the layer.
+   */
+  addLayer(config: LayerConfig): Promise<void>;
+
+  /**
+   * Update a layer
+   * Layers whose data is unchanged are restyled without reloading it.
+   */
+  updateLayer(config: LayerConfig): Promise<void>;
+
+  /**
+   * Remove a layer
+   */
+  removeLayer(layerId: string): void;
+
+  /**
+   * Restyle a feature after its state changed
+   */
+  applyFeatureState(layerId: string, featureId: FeatureId): void;
+
+  /**
+   * Stack the renderer's layers in the given order
+   * @param order Layer IDs from bottom to top; IDs of other layers are ignored
+   */
+  setLayerOrder(order: string[]): void;
+
+  /**
+   * Get the features drawn at a screen point or in a screen box, from top to bottom
+   * @param geometry Point or box in pixels relative to the map container
+   * @param radius Tolerance in pixels around a point
+   */
+  pickFeatures(geometry: ScreenPoint | ScreenBox, radius?: number): RenderedFeature[];
+
+  /**
+   * Get the features of a layer's loaded data
+   */
+  getFeatures(layerId: string): Feature[];
+
+  /**
+   * Remove all layers and release resources
+   */
+  destroy(): void;
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTileTemplate,
+  getTileUrl,
+  expandTileTemplate,
+  tileToQuadkey,
+  isZoomInRange,
+  getTilesInBounds,
+} from './tiles';
+
+describe('tileToQuadkey', () => {
+  it('interleaves the bits of the tile coordinates', () => {
+    expect(tileToQuadkey(0, 0, 1)).toBe('0');
+    expect(tileToQuadkey(1, 1, 1)).toBe('3');
+    expect(tileToQuadkey(3, 5, 3)).toBe('213');
+    expect(tileToQuadkey(0, 0, 0)).toBe('');
+  });
+});
+
+describe('createTileTemplate', () => {
+  it('requires a URL template', () => {
+    expect(() => createTileTemplate({ type: 'tiles' })).toThrow('Tile URL template is required');
+  });
+
+  it('reads the template from a string data source', () => {
+    expect(createTileTemplate({ type: 'tiles', data: 'https://tiles/{z}/{x}/{y}.png' }).url).toBe(
+      'https://tiles/{z}/{x}/{y}.png'
+    );
+  });
+
+  it('infers the scheme from the template', () => {
+    expect(createTileTemplate({ type: 'tiles', url: 'https://tiles/{z}/{x}/{y}.png' }).scheme).toBe('xyz');
+    expect(createTileTemplate({ type: 'tiles', url: 'https://tiles/{z}/{x}/{-y}.png' })).toMatchObject({
+      url: 'https://tiles/{z}/{x}/{y}.png',
+      scheme: 'tms',
+    });
+    expect(createTileTemplate({ type: 'tiles', url: 'https://tiles/{quadkey}.jpeg' })).toMatchObject({
+      url: 'https://tiles/{q}.jpeg',
+      scheme: 'quadkey',
+    });
+  });
+
+  it('applies source options', () => {
+    const template = createTileTemplate({
+      type: 'tiles',
+      url: 'https://{s}.tiles/{z}/{x}/{y}{r}.png',
+      options: { scheme: 'tms', subdomains: '1234', tileSize: 512, retina: true, minZoom: 2, maxZoom: 18 },
+    });
+
+    expect(template).toEqual({
+      url: 'https://{s}.tiles/{z}/{x}/{y}{r}.png',
+      scheme: 'tms',
+      subdomains: ['1', '2', '3', '4'],
+      tileSize: 512,
+      retinaSuffix: '@2x',
+      minZoom: 2,
+      maxZoom: 18,
+    });
+  });
+
+  it('defaults to 256px tiles on abc subdomains without retina tiles outside browsers', () => {
+    expect(createTileTemplate({ type: 'tiles', url: 'https://{s}.tiles/{z}/{x}/{y}{r}.png' })).toMatchObject({
+      subdomains: ['a', 'b', 'c'],
+      tileSize: 256,
+      retinaSuffix: '',
+    });
+  });
+});
+
+describe('getTileUrl', () => {
+  it('expands xyz templates', () => {
+    const template = createTileTemplate({ type: 'tiles', url: 'https://tiles/{z}/{x}/{y}.png' });
+    expect(getTileUrl(template, 3, 5, 4)).toBe('https://tiles/4/3/5.png');
+  });
+
+  it('flips the row of tms templates', () => {
+    const template = createTileTemplate({ type: 'tiles', url: 'https://tiles/{z}/{x}/{-y}.png' });
+    expect(getTileUrl(template, 3, 5, 4)).toBe('https://tiles/4/3/10.png');
+    expect(getTileUrl(template, 0, 0, 0)).toBe('https://tiles/0/0/0.png');
+  });
+
+  it('expands quadkey templates', () => {
+    const template = createTileTemplate({ type: 'tiles', url: 'https://tiles/a{quadkey}.jpeg?g=1' });
+    expect(getTileUrl(template, 3, 5, 3)).toBe('https://tiles/a213.jpeg?g=1');
+  });
+
+  it('spreads tiles over the subdomains', () => {
+    const template = createTileTemplate({ type: 'tiles', url: 'https://{s}.tiles/{z}/{x}/{y}.png' });
+    const hosts = [0, 1, 2, 3].map((x) => new URL(getTileUrl(template, x, 0, 2)).host);
+    expect(hosts).toEqual(['a.tiles', 'b.tiles', 'c.tiles', 'a.tiles']);
+  });
+
+  it('substitutes the retina suffix', () => {
+    const template = createTileTemplate({
+      type: 'tiles',
+      url: 'https://tiles/{z}/{x}/{y}{r}.png',
+      options: { retina: true },
+    });
+    expect(getTileUrl(template, 1, 2, 3)).toBe('https://tiles/3/1/2@2x.png');
+  });
+});
+
+describe('expandTileTemplate', () => {
+  it('creates one template per subdomain, keeping the tile tokens', () => {
+    const template = createTileTemplate({
+      type: 'tiles',
+      url: 'https://{s}.tiles/{z}/{x}/{y}{r}.png',
+      options: { subdomains: ['x', 'y'], retina: false },
+    });
+    expect(expandTileTemplate(template)).toEqual([
+      'https://x.tiles/{z}/{x}/{y}.png',
+      'https://y.tiles/{z}/{x}/{y}.png',
+    ]);
+  });
+
+  it('keeps templates without subdomains as they are', () => {
+    const template = createTileTemplate({ type: 'tiles', url: 'https://tiles/{z}/{x}/{y}.png' });
+    expect(expandTileTemplate(template)).toEqual(['https://tiles/{z}/{x}/{y}.png']);
+  });
+});
+
+describe('isZoomInRange', () => {
+  it('includes both ends of the range', () => {
+    expect(isZoomInRange(5)).toBe(true);
+    expect(isZoomInRange(5, 5, 10)).toBe(true);
+    expect(isZoomInRange(10, 5, 10)).toBe(true);
+    expect(isZoomInRange(4.9, 5)).toBe(false);
+    expect(isZoomInRange(10.1, undefined, 10)).toBe(false);
+  });
+});
+
+describe('getTilesInBounds', () => {
+  it('lists the tiles covering a bounding box', () => {
+    expect(getTilesInBounds([-180, -85, 180, 85], 1)).toEqual([
+      { x: 0, y: 0, z: 1 },
+      { x: 0, y: 1, z: 1 },
+      { x: 1, y: 0, z: 1 },
+      { x: 1, y: 1, z: 1 },
+    ]);
+    expect(getTilesInBounds([10, 10, 20, 20], 2)).toEqual([{ x: 2, y: 1, z: 2 }]);
+  });
+
+  it('wraps bounds crossing the antimeridian', () => {
+    expect(getTilesInBounds([170, -10, -170, 10], 1).map(({ x }) => x)).toEqual([1, 1, 0, 0]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tile URL templates and tile addressing
+ */
+
+import type { DataSource, BoundingBox } from './types';
+import { TILE_SIZE, projectToWorld, worldSize } from './projection';
+
+/**
+ * Tile addressing scheme of a URL template
+ * - `xyz`: `{z}/{x}/{y}` with y growing southwards
+ * - `tms`: `{z}/{x}/{y}` with y growing northwards
+ * - `quadkey`: Bing-style `{q}` quadkeys
+ */
+export type TileScheme = 'xyz' | 'tms' | 'quadkey';
+
+/**
+ * Resolved raster tile template
+ *
+ * `url` only contains the tokens `{z}`, `{x}`, `{y}`, `{s}`, `{r}` and `{q}`;
+ * `{-y}` and `{quadkey}` are normalized when the template is created.
+ */
+export interface TileTemplate {
+  /** Normalized URL template */
+  url: string;
+  /** Tile addressing scheme */
+  scheme: TileScheme;
+  /** Values substituted for `{s}` */
+  subdomains: string[];
+  /** Tile size in pixels */
+  tileSize: number;
+  /** Value substituted for `{r}` (`@2x` on high-density displays) */
+  retinaSuffix: string;
+  /** Lowest zoom level tiles exist for */
+  minZoom?: number;
+  /** Highest zoom level tiles exist for */
+  maxZoom?: number;
+}
+
+/**
+ * Tile address in the XYZ scheme
+ */
+export interface TileCoordinates {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Default `{s}` subdomains
+ */
+const DEFAULT_SUBDOMAINS = ['a', 'b', 'c'];
+
+/**
+ * Convert tile coordinates to a quadkey
+ */
+export function tileToQuadkey(x: number, y: number, z: number): string {
+  let quadkey = '';
+  for (let i = z; i > 0; i--) {
+    const mask = 1 << (i - 1);
+    quadkey += ((x & mask) !== 0 ? 1 : 0) + ((y & mask) !== 0 ? 2 : 0);
+  }
+  return quadkey;
+}
+
+/**
+ * Resolve the tile template of a tile source
+ *
+ * The template is read from `url` (or a string `data`). Supported `options`:
+ * - `scheme`: `'xyz'`, `'tms'` or `'quadkey'` (inferred from the template when omitted)
+ * - `subdomains`: values for `{s}`, as an array or a string of characters (default: `abc`)
+ * - `tileSize`: tile size in pixels (default: 256)
+ * - `retina`: `true`, `false` or `'auto'` to use `@2x` tiles for `{r}` (default: `'auto'`)
+ * - `minZoom` / `maxZoom`: zoom range tiles exist for
+ * @throws Error if the source has no URL template
+ */
+export function createTileTemplate(source: DataSource): TileTemplate {
+  const template = source.url ?? (typeof source.data === 'string' ? source.data : undefined);
+  if (!template) {
+    throw new Error('Tile URL template is required');
+  }
+
+  const options = source.options || {};
+  let url = template.replace('{quadkey}', '{q}');
+  let scheme = options.scheme as TileScheme | undefined;
+
+  if (url.includes('{-y}')) {
+    url = url.replace('{-y}', '{y}');
+    scheme = scheme ?? 'tms';
+  }
+  if (url.includes('{q}')) {
+    scheme = 'quadkey';
+  }
+
+  const subdomains = options.subdomains as string[] | string | undefined;
+  const retina = (options.retina as boolean | 'auto' | undefined) ?? 'auto';
+  const highDensity =
+    retina === 'auto' ? typeof window !== 'undefined' && window.devicePixelRatio > 1 : retina;
+
+  return {
+    url,
+    scheme: scheme ?? 'xyz',
+    subdomains: typeof subdomains === 'string' ? subdomains.split('') : subdomains || DEFAULT_SUBDOMAINS,
+    tileSize: (options.tileSize as number | undefined) ?? TILE_SIZE,
+    retinaSuffix: highDensity ? '@2x' : '',
+    minZoom: options.minZoom as number | undefined,
+    maxZoom: options.maxZoom as number | undefined,
+  };
+}
+
+/**
+ * Get the URL of one tile
+ * @param y Tile row counted from the north, as in XYZ
+ */
+export function getTileUrl(template: TileTemplate, x: number, y: number, z: number): string {
+  const { subdomains } = template;
+  const row = template.scheme === 'tms' ? Math.pow(2, z) - 1 - y : y;
+
+  return template.url
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(row))
+    .replace('{q}', tileToQuadkey(x, y, z))
+    .replace('{r}', template.retinaSuffix)
+    .replace('{s}', subdomains.length ? subdomains[Math.abs(x + y) % subdomains.length] : '');
+}
+
+/**
+ * Expand a tile template into one URL per subdomain
+ * `{r}` is substituted; the tile tokens are left for the renderer.
+ */
+export function expandTileTemplate(template: TileTemplate): string[] {
+  const url = template.url.replace('{r}', template.retinaSuffix);
+  if (!url.includes('{s}') || template.subdomains.length === 0) {
+    return [url];
+  }
+  return template.subdomains.map((subdomain) => url.replace('{s}', subdomain));
+}
+
+/**
+ * Check if a zoom level is within an optional range
+ */
+export function isZoomInRange(zoom: number, minZoom?: number, maxZoom?: number): boolean {
+  return (minZoom === undefined || zoom >= minZoom) && (maxZoom === undefined || zoom <= maxZoom);
+}
+
+/**
+ * List the XYZ tiles covering a bounding box at a zoom level
+ * Bounds crossing the antimeridian (west > east) are supported.
+ */
+export function getTilesInBounds(bounds: BoundingBox, z: number): TileCoordinates[] {
+  const [west, south, east, north] = bounds;
+  const count = Math.pow(2, z);
+
+  const [minX, minY] = projectToWorld([north, west], z);
+  const [eastX, maxY] = projectToWorld([south, east], z);
+  const maxX = east < west ? eastX + worldSize(z) : eastX;
+
+  const firstColumn = Math.floor(minX / TILE_SIZE);
+  const lastColumn = Math.min(Math.floor(maxX / TILE_SIZE), firstColumn + count - 1);
+  const firstRow = Math.max(0, Math.floor(minY / TILE_SIZE));
+  const lastRow = Math.min(count - 1, Math.floor(maxY / TILE_SIZE));
+
+  const tiles: TileCoordinates[] = [];
+  for (let column = firstColumn; column <= lastColumn; column++) {
+    for (let y = firstRow; y <= lastRow; y++) {
+      tiles.push({ x: ((column % count) + count) % count, y, z });
+    }
+  }
+  return tiles;
+}
@@ -2,7 +2,7 @@
  * Core type definitions for Universal Map Component
  */
 
-import type { GeoJSON } from 'geojson';
+import type { GeoJSON, Feature } from 'geojson';
 
 /**
  * Geographic coordinates [latitude, longitude]
@@ -64,8 +64,8 @@ export type DataSourceType =
  * Map view state
  */
 export interface ViewState {
-  /** Center coordinates [lat, lng] */
-  center: Coordinates;
+  /** Center coordinates [lat, lng], or [lat, lng, altitude] for 3D providers */
+  center: Coordinates | Coordinates3D;
   /** Zoom level */
   zoom: ZoomLevel;
   /** Bearing/rotation in degrees (0-360) */
@@ -78,8 +78,8 @@ export interface ViewState {
  * Map configuration options
  */
 export interface MapConfig {
-  /** Map provider to use */
-  provider: MapProvider;
+  /** Map provider to use (a built-in provider or any registered name) */
+  provider: MapProvider | (string & {});
   /** Container element ID or HTMLElement */
   container: string | HTMLElement;
   /** Initial view state */
@@ -98,28 +98,75 @@ export interface MapConfig {
   mockData?: string;
   /** Custom options for specific providers */
   providerOptions?: Record<string, unknown>;
+  /** Handling of layers the provider cannot render (default: 'fallback') */
+  unsupportedLayerPolicy?: UnsupportedLayerPolicy;
 }
 
+/**
+ * Color gradient stop [position (0-1), color]
+ */
+export type GradientStop = [number, string];
+
+/**
+ * Data-driven style expression, e.g. `['get', 'population']`
+ * A subset of the Mapbox GL style expression syntax: `get`, `has`, `literal`,
+ * `match`, `case`, `step`, `interpolate`, `coalesce`, comparisons and logic.
+ */
+export type StyleExpression = [string, ...unknown[]];
+
+/**
+ * Style value that is either a literal or an expression evaluated per feature
+ */
+export type StyleValue<T> = T | StyleExpression;
+
 /**
  * Layer style configuration
  */
 export interface LayerStyle {
   /** Fill color (hex, rgb, rgba) */
-  fillColor?: string;
+  fillColor?: StyleValue<string>;
   /** Stroke/border color */
-  strokeColor?: string;
+  strokeColor?: StyleValue<string>;
   /** Stroke width in pixels */
-  strokeWidth?: number;
+  strokeWidth?: StyleValue<number>;
   /** Opacity (0-1) */
-  opacity?: number;
-  /** Point radius in pixels */
-  radius?: number;
+  opacity?: StyleValue<number>;
+  /** Point or heatmap kernel radius in pixels */
+  radius?: StyleValue<number>;
   /** Extrusion height for 3D */
-  extrusionHeight?: number;
+  extrusionHeight?: StyleValue<number>;
+  /** Line dash pattern as alternating dash and gap lengths in pixels */
+  dashArray?: number[];
+  /** Line ends drawn with an arrowhead */
+  arrowheads?: 'start' | 'end' | 'both';
+  /** Styles of vector tile source layers, merged over this style */
+  sourceLayers?: Record<string, LayerStyle>;
+  /** Style merged over this one for features whose `hover` state is set */
+  hover?: LayerStyle;
+  /** Style merged over this one for features whose `selected` state is set, over `hover` */
+  selected?: LayerStyle;
+  /** Heatmap intensity multiplier */
+  intensity?: number;
+  /** Heatmap density at which the gradient reaches its last color */
+  maxIntensity?: number;
+  /** Heatmap color gradient stops, ordered by position */
+  gradient?: GradientStop[];
   /** Custom style properties */
   [key: string]: unknown;
 }
 
+/**
+ * Layer style with its expressions evaluated for one feature
+ */
+export interface ResolvedLayerStyle extends LayerStyle {
+  fillColor?: string;
+  strokeColor?: string;
+  strokeWidth?: number;
+  opacity?: number;
+  radius?: number;
+  extrusionHeight?: number;
+}
+
 /**
  * Data source definition
  */
@@ -146,18 +193,67 @@ export interface LayerConfig {
   source: DataSource | string | GeoJSON;
   /** Layer style */
   style?: LayerStyle;
+  /**
+   * Expression the feature properties must match to be drawn, e.g. `['>=', ['get', 'population'], 1000000]`
+   * Applies to layers of GeoJSON features; their source features are still queried unfiltered.
+   */
+  filter?: StyleExpression;
   /** Layer visibility */
   visible?: boolean;
   /** Layer opacity (0-1) */
   opacity?: number;
-  /** Min zoom level for layer visibility */
+  /**
+   * Min zoom level for layer visibility
+   * The layer is hidden below it, whatever `visible` is.
+   */
   minZoom?: number;
-  /** Max zoom level for layer visibility */
+  /**
+   * Max zoom level for layer visibility
+   * The layer is hidden above it, whatever `visible` is.
+   */
   maxZoom?: number;
   /** Layer-specific options */
   options?: Record<string, unknown>;
+  /** Render hooks of `custom` layers (required for that type) */
+  customLayer?: CustomLayer;
+  /**
+   * Replacement used when the provider cannot render this layer,
+   * e.g. extruded polygons for 3D buildings. Merged over this configuration.
+   */
+  fallback?: Partial<Omit<LayerConfig, 'id'>>;
+}
+
+/**
+ * Options for adding a layer
+ */
+export interface AddLayerOptions {
+  /** ID of the layer or group to insert the new layer below (default: on top of all layers) */
+  beforeId?: string;
+  /** ID of the group to add the layer to, on top of its other children unless `beforeId` is set */
+  groupId?: string;
+}
+
+/**
+ * Layer group configuration
+ * Groups hold layers and nested groups that share visibility and opacity and
+ * are stacked together in the draw order.
+ */
+export interface LayerGroupConfig {
+  /** Unique group ID, distinct from all layer IDs */
+  id: string;
+  /** Group visibility; hidden groups hide all their layers (default: true) */
+  visible?: boolean;
+  /** Group opacity (0-1), multiplied into the opacity of its layers (default: 1) */
+  opacity?: number;
+  /** Layers and nested groups, from bottom to top */
+  children: LayerTreeItem[];
 }
 
+/**
+ * Layer or layer group
+ */
+export type LayerTreeItem = LayerConfig | LayerGroupConfig;
+
 /**
  * Map event types
  */
@@ -177,7 +273,12 @@ export type MapEventType =
   | 'zoomend'
   | 'rotate'
   | 'pitch'
-  | 'error';
+  | 'error'
+  | 'layer:active'
+  | 'layer:inactive'
+  | 'layer:loading'
+  | 'layer:loaded'
+  | 'layer:error';
 
 /**
  * Map event data
@@ -192,9 +293,142 @@ export interface MapEvent {
   /** Geographic coordinates at event location */
   lngLat?: Coordinates;
   /** Screen coordinates */
-  point?: [number, number];
-  /** Features at event location */
-  features?: unknown[];
+  point?: ScreenPoint;
+  /** Features at event location, from top to bottom (pointer events) */
+  features?: RenderedFeature[];
+  /** ID of the layer, for layer events */
+  layerId?: string;
+  /** Why loading a layer failed, for `layer:error` events */
+  error?: MapError;
+}
+
+/**
+ * GeoJSON feature drawn by a layer
+ */
+export interface RenderedFeature extends Feature {
+  /** ID of the layer that drew the feature */
+  layerId: string;
+}
+
+/**
+ * Screen position in pixels relative to the map container [x, y]
+ */
+export type ScreenPoint = [number, number];
+
+/**
+ * Screen rectangle given by two opposite corners
+ */
+export type ScreenBox = [ScreenPoint, ScreenPoint];
+
+/**
+ * Options for querying rendered features
+ */
+export interface QueryFeaturesOptions {
+  /** IDs of the layers to query (default: all layers) */
+  layers?: string[];
+  /** Expression the feature properties must match, e.g. `['==', ['get', 'kind'], 'park']` */
+  filter?: StyleExpression;
+}
+
+/**
+ * GeoJSON feature ID
+ */
+export type FeatureId = string | number;
+
+/**
+ * Feature state, e.g. `{ hover: true }`
+ * `hover` and `selected` switch on the layer style overrides of the same name;
+ * other keys are kept for the application.
+ */
+export type FeatureState = Record<string, unknown>;
+
+/**
+ * Feature of a layer, addressed by its GeoJSON `id`
+ */
+export interface FeatureIdentifier {
+  /** Layer ID */
+  layerId: string;
+  /** Feature ID */
+  featureId: FeatureId;
+}
+
+/**
+ * Popup content; strings are shown as text
+ */
+export type PopupContent = string | HTMLElement;
+
+/**
+ * Popup options
+ */
+export interface PopupOptions {
+  /** Offset in pixels of the popup's anchor point [x, y] (default: [0, 0]) */
+  offset?: ScreenPoint;
+  /** CSS class added to the popup element */
+  className?: string;
+  /** Show a button closing the popup (default: true) */
+  closeButton?: boolean;
+  /** Close the popup when the map is clicked (default: true) */
+  closeOnClick?: boolean;
+  /** ID of a layer; the popup is closed when the layer is removed */
+  layerId?: string;
+}
+
+/**
+ * Tooltip shown while the pointer is over a layer's features, set as `options.tooltip`
+ * Either a template whose `{property}` placeholders are replaced with feature
+ * properties, e.g. `'{name}: {population}'`, or a function rendering a feature.
+ */
+export type LayerTooltip = string | ((feature: RenderedFeature) => PopupContent);
+
+/**
+ * Conversion between geographic coordinates and pixels relative to the map container
+ */
+export interface MapProjection {
+  /** Project coordinates [lat, lng]; undefined when they are not drawn, e.g. behind the globe */
+  project(coordinates: Coordinates): ScreenPoint | undefined;
+  /** Unproject a point; undefined when the map is not drawn there, e.g. beside the globe */
+  unproject(point: ScreenPoint): Coordinates | undefined;
+}
+
+/**
+ * Resources of a custom layer, passed to its `onAdd` hook
+ */
+export interface CustomLayerContext {
+  /**
+   * Canvas the layer draws on, covering the map container; undefined without a DOM
+   * Its size is in device pixels; get a 2D or WebGL context from it as needed.
+   */
+  canvas?: HTMLCanvasElement;
+  /** Device pixels per CSS pixel of the canvas */
+  pixelRatio: number;
+  /** Conversion between coordinates and CSS pixels of the canvas */
+  projection: MapProjection;
+  /** Layer configuration, e.g. to read the layer's `source` */
+  layer: LayerConfig;
+  /** Get the state of one of the layer's features */
+  getFeatureState(featureId: FeatureId): FeatureState | undefined;
+  /** Draw the layer again on the next frame, e.g. for animations or after its data changed */
+  requestRender(): void;
+}
+
+/**
+ * Render hooks of a `custom` layer, set as its `customLayer`
+ * Custom layers draw on their own canvas; the canvases are stacked above the
+ * map's other layers, in the layer order of the custom layers.
+ */
+export interface CustomLayer {
+  /** Set up drawing, e.g. get a context from `context.canvas` */
+  onAdd(context: CustomLayerContext): void;
+  /**
+   * Draw a frame
+   * Called when the camera, the canvas size or the layer's state changed and
+   * after `requestRender`. The canvas is not cleared between frames.
+   */
+  render(viewState: ViewState, projection: MapProjection): void;
+  /** Release what `onAdd` set up; the canvas is removed afterwards */
+  onRemove(): void;
+  /** Get the features drawn at a point in CSS pixels, from top to bottom */
+  pick?(point: ScreenPoint): Feature[];
 }
 
 /**
@@ -255,4 +489,13 @@ export interface ProviderCapabilities {
   supportsTerrain: boolean;
   /** Requires API key */
   requiresApiKey: boolean;
+  /** Layer types the provider can render (all types when omitted) */
+  layerTypes?: LayerType[];
 }
+
+/**
+ * What to do when a layer cannot be rendered by the current provider
+ * - `'error'`: throw a MapError with code `UNSUPPORTED_LAYER`
+ * - `'fallback'`: render the layer's declared fallback, throwing if none is declared
+ */
+export type UnsupportedLayerPolicy = 'error' | 'fallback';
@@ -6,5 +6,14 @@
 // Re-export everything from core
 export * from './core';
 
+// Layer renderers
+export * from './renderers';
+
+// Registry of the built-in providers
+export { createDefaultProviderRegistry } from './providers/registry';
+
+// Provider conformance test kit
+export * from './testing';
+
 // Version
 export const VERSION = '0.1.0';
@@ -0,0 +1,369 @@
+/**
+ * Cesium Provider
+ * Implementation of IMapProvider for the CesiumJS 3D globe
+ */
+
+import type * as Cesium from 'cesium';
+import { BaseMapProvider } from '../../core/provider';
+import type {
+  MapConfig,
+  ViewState,
+  CameraOptions,
+  BoundingBox,
+  ProviderCapabilities,
+  Coordinates,
+  ScreenPoint,
+} from '../../core/types';
+import { TILE_SIZE } from '../../core/projection';
+import { CustomLayerRenderer } from '../../renderers/custom';
+import { loadCesium } from './loader';
+import type { CesiumLibrary } from './loader';
+import { CesiumEventMapper } from './events';
+import { CesiumLayerManager } from './layers';
+import { CESIUM_CAPABILITIES } from './capabilities';
+
+/**
+ * Default base imagery (OpenStreetMap tiles, no token required)
+ */
+export const DEFAULT_CESIUM_IMAGERY_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+/**
+ * Equatorial circumference of the earth in meters
+ */
+const EARTH_CIRCUMFERENCE = 40075016.686;
+
+/**
+ * Convert a web map zoom level to a camera distance in meters
+ */
+function zoomToAltitude(zoom: number, latitude: number, viewportHeight: number, fovy: number): number {
+  const metersPerPixel =
+    (EARTH_CIRCUMFERENCE * Math.cos((latitude * Math.PI) / 180)) / (TILE_SIZE * Math.pow(2, zoom));
+  return (viewportHeight * metersPerPixel) / 2 / Math.tan(fovy / 2);
+}
+
+/**
+ * Convert a camera distance in meters to a web map zoom level
+ */
+function altitudeToZoom(altitude: number, latitude: number, viewportHeight: number, fovy: number): number {
+  const metersPerPixel = (altitude * 2 * Math.tan(fovy / 2)) / viewportHeight;
+  return Math.log2(
+    (EARTH_CIRCUMFERENCE * Math.cos((latitude * Math.PI) / 180)) / (TILE_SIZE * metersPerPixel)
+  );
+}
+
+/**
+ * Cesium Provider implementation
+ *
+ * View states map to the camera as follows: `center` is the point the camera
+ * looks at, the optional third `center` element is the camera distance from
+ * that point in meters (derived from `zoom` when omitted), `bearing` is the
+ * camera heading and `pitch` is the tilt away from looking straight down.
+ *
+ * Supported `providerOptions`:
+ * - `baseUrl`: URL the Cesium static assets are served from (`CESIUM_BASE_URL`)
+ * - `imageryUrl`: base imagery URL template
+ * - `terrain`: `'world'` for Cesium World Terrain (needs an ion token in `apiKey`),
+ *   or a quantized-mesh terrain URL
+ */
+export class CesiumProvider extends BaseMapProvider {
+  readonly name = 'cesium';
+  readonly capabilities: ProviderCapabilities = CESIUM_CAPABILITIES;
+
+  private cesium?: CesiumLibrary;
+  private viewer?: Cesium.Viewer;
+  private eventMapper?: CesiumEventMapper;
+  private layerManager?: CesiumLayerManager;
+
+  /**
+   * Initialize the Cesium provider
+   */
+  async initialize(config: MapConfig): Promise<void> {
+    this.validateConfig(config);
+    this.config = config;
+
+    const options = config.providerOptions || {};
+
+    // Load CesiumJS
+    const cesium = await loadCesium({
+      baseUrl: options.baseUrl as string | undefined,
+      accessToken: config.apiKey,
+    });
+    this.cesium = cesium;
+
+    // Resolve container
+    this.container = this.resolveContainer(config.container);
+
+    // Create viewer without the default widgets
+    this.viewer = new cesium.Viewer(this.container, {
+      baseLayer: new cesium.ImageryLayer(
+        new cesium.UrlTemplateImageryProvider({
+          url: (options.imageryUrl as string | undefined) || DEFAULT_CESIUM_IMAGERY_URL,
+        })
+      ),
+      terrain: this.createTerrain(cesium, options.terrain),
+      ...this.createSceneMode(cesium, config),
+      animation: false,
+      baseLayerPicker: false,
+      fullscreenButton: false,
+      geocoder: false,
+      homeButton: false,
+      infoBox: false,
+      navigationHelpButton: false,
+      sceneModePicker: false,
+      selectionIndicator: false,
+      timeline: false,
+    });
+
+    // Initialize layer manager
+    const customLayers = new CustomLayerRenderer({
+      container: this.container,
+      getViewState: () => this.getViewState(),
+      projection: this,
+      getFeatureState: (layerId, featureId) => this.featureStates.get(layerId, featureId),
+    });
+    this.layerManager = new CesiumLayerManager(cesium, this.viewer, this.featureStates, customLayers);
+
+    // Set up event mapping
+    this.eventMapper = new CesiumEventMapper(
+      cesium,
+      this.viewer,
+      (event) => {
+        this.emit(event.type, event);
+      },
+      (point) => this.queryRenderedFeatures(point)
+    );
+
+    this.ready = true;
+
+    this.setViewState({
+      center: config.viewState?.center || config.center || [0, 0],
+      zoom: config.viewState?.zoom ?? config.zoom ?? 2,
+      bearing: config.viewState?.bearing ?? 0,
+      pitch: config.viewState?.pitch ?? (config.enable3D ? 45 : 0),
+    });
+  }
+
+  /**
+   * Destroy the viewer
+   */
+  destroy(): void {
+    if (this.eventMapper) {
+      this.eventMapper.destroy();
+    }
+    if (this.layerManager) {
+      this.layerManager.destroy();
+    }
+    if (this.viewer && !this.viewer.isDestroyed()) {
+      this.viewer.destroy();
+    }
+    this.viewer = undefined;
+    this.ready = false;
+  }
+
+  /**
+   * Get current view state
+   * The returned center carries the camera distance as its altitude.
+   */
+  getViewState(): ViewState {
+    const { cesium, viewer } = this.getViewer();
+    const camera = viewer.camera;
+    const canvas = viewer.scene.canvas;
+
+    const target = camera.pickEllipsoid(
+      new cesium.Cartesian2(canvas.clientWidth / 2, canvas.clientHeight / 2),
+      viewer.scene.globe.ellipsoid
+    );
+
+    const cartographic = target
+      ? cesium.Cartographic.fromCartesian(target)
+      : camera.positionCartographic;
+    const range = target
+      ? cesium.Cartesian3.distance(camera.position, target)
+      : camera.positionCartographic.height;
+
+    const lat = cesium.Math.toDegrees(cartographic.latitude);
+    const lng = cesium.Math.toDegrees(cartographic.longitude);
+
+    return {
+      center: [lat, lng, range],
+      zoom: altitudeToZoom(range, lat, canvas.clientHeight || 1, this.getFovy()),
+      bearing: cesium.Math.toDegrees(camera.heading),
+      pitch: Math.max(0, Math.min(90, cesium.Math.toDegrees(camera.pitch) + 90)),
+    };
+  }
+
+  /**
+   * Set view state
+   */
+  setViewState(viewState: Partial<ViewState>, options?: CameraOptions): void {
+    const { cesium, viewer } = this.getViewer();
+    const current = this.getViewState();
+
+    const [lat, lng, altitude] = viewState.center || current.center;
+    const bearing = viewState.bearing ?? current.bearing ?? 0;
+    const pitch = viewState.pitch ?? current.pitch ?? 0;
+
+    let range: number;
+    if (viewState.center && altitude !== undefined) {
+      range = altitude;
+    } else if (viewState.zoom !== undefined) {
+      range = zoomToAltitude(viewState.zoom, lat, viewer.scene.canvas.clientHeight || 1, this.getFovy());
+    } else {
+      range = current.center[2] ?? 0;
+    }
+
+    const target = cesium.Cartesian3.fromDegrees(lng, lat, 0);
+    const offset = new cesium.HeadingPitchRange(
+      cesium.Math.toRadians(bearing),
+      cesium.Math.toRadians(pitch - 90),
+      range
+    );
+
+    if (options?.duration) {
+      // Animated transition
+      viewer.camera.flyToBoundingSphere(new cesium.BoundingSphere(target, 0), {
+        offset,
+        duration: options.duration / 1000,
+        ...(options.easing && { easingFunction: options.easing }),
+      });
+    } else {
+      // Immediate transition
+      viewer.camera.lookAt(target, offset);
+      viewer.camera.lookAtTransform(cesium.Matrix4.IDENTITY);
+    }
+  }
+
+  /**
+   * Get current bounds
+   */
+  getBounds(): BoundingBox {
+    const { cesium, viewer } = this.getViewer();
+
+    const rectangle = viewer.camera.computeViewRectangle(viewer.scene.globe.ellipsoid);
+    if (!rectangle) {
+      return [-180, -90, 180, 90];
+    }
+
+    return [
+      cesium.Math.toDegrees(rectangle.west),
+      cesium.Math.toDegrees(rectangle.south),
+      cesium.Math.toDegrees(rectangle.east),
+      cesium.Math.toDegrees(rectangle.north),
+    ];
+  }
+
+  /**
+   * Fit map to bounds
+   */
+  fitBounds(bounds: BoundingBox, options?: CameraOptions): void {
+    const { cesium, viewer } = this.getViewer();
+
+    const [west, south, east, north] = bounds;
+    const destination = cesium.Rectangle.fromDegrees(west, south, east, north);
+
+    if (options?.duration) {
+      viewer.camera.flyTo({ destination, duration: options.duration / 1000 });
+    } else {
+      viewer.camera.setView({ destination });
+    }
+  }
+
+  /**
+   * Project coordinates on the ellipsoid to the screen
+   */
+  project(coordinates: Coordinates): ScreenPoint | undefined {
+    if (!this.layerManager) {
+      throw new Error('Layer manager not initialized');
+    }
+    return this.layerManager.project([coordinates[1], coordinates[0]]);
+  }
+
+  /**
+   * Unproject a screen point to coordinates
+   */
+  unproject(point: ScreenPoint): Coordinates | undefined {
+    if (!this.layerManager) {
+      throw new Error('Layer manager not initialized');
+    }
+
+    const position = this.layerManager.unproject(point);
+    return position ? [position[1], position[0]] : undefined;
+  }
+
+  /**
+   * Get the layer manager drawing the layers
+   */
+  protected getLayerManager(): CesiumLayerManager | undefined {
+    return this.layerManager;
+  }
+
+  /**
+   * Resize the viewer
+   */
+  resize(): void {
+    if (this.viewer) {
+      this.viewer.resize();
+    }
+  }
+
+  /**
+   * Get the underlying Cesium viewer
+   */
+  getMapInstance(): Cesium.Viewer | undefined {
+    return this.viewer;
+  }
+
+  /**
+   * Create the terrain from the `terrain` provider option
+   */
+  private createTerrain(cesium: CesiumLibrary, terrain: unknown): Cesium.Terrain | undefined {
+    if (terrain === 'world') {
+      return cesium.Terrain.fromWorldTerrain();
+    }
+    if (typeof terrain === 'string') {
+      return new cesium.Terrain(cesium.CesiumTerrainProvider.fromUrl(terrain));
+    }
+    return undefined;
+  }
+
+  /**
+   * Map the configured projection to a Cesium scene mode
+   */
+  private createSceneMode(
+    cesium: CesiumLibrary,
+    config: MapConfig
+  ): Pick<Cesium.Viewer.ConstructorOptions, 'sceneMode' | 'mapProjection'> {
+    switch (config.projection) {
+      case 'mercator':
+        return {
+          sceneMode: cesium.SceneMode.SCENE2D,
+          mapProjection: new cesium.WebMercatorProjection(),
+        };
+      case 'equirectangular':
+        return {
+          sceneMode: cesium.SceneMode.SCENE2D,
+          mapProjection: new cesium.GeographicProjection(),
+        };
+      default:
+        return { sceneMode: cesium.SceneMode.SCENE3D };
+    }
+  }
+
+  /**
+   * Get the vertical field of view of the camera in radians
+   */
+  private getFovy(): number {
+    const frustum = this.viewer?.camera.frustum as Cesium.PerspectiveFrustum | undefined;
+    return frustum?.fovy ?? Math.PI / 3;
+  }
+
+  /**
+   * Get the viewer, throwing if the provider is not initialized
+   */
+  private getViewer(): { cesium: CesiumLibrary; viewer: Cesium.Viewer } {
+    if (!this.cesium || !this.viewer) {
+      throw new Error('Map not initialized');
+    }
+    return { cesium: this.cesium, viewer: this.viewer };
+  }
+}
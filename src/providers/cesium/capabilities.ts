@@ -0,0 +1,18 @@
+/**
+ * Cesium provider capabilities
+ */
+
+import type { ProviderCapabilities } from '../../core/types';
+
+/**
+ * Capabilities of the Cesium provider
+ */
+export const CESIUM_CAPABILITIES: ProviderCapabilities = {
+  supports3D: true,
+  supportsVectorTiles: false,
+  supports3DTiles: true,
+  supportsCustomProjections: true,
+  supportsTerrain: true,
+  requiresApiKey: false,
+  layerTypes: ['geojson', 'polygons', 'lines', 'points', 'markers', '3d-tiles', 'raster-tiles', 'custom'],
+};
@@ -0,0 +1,144 @@
+/**
+ * Cesium Event Mapper
+ * Maps Cesium screen-space and camera events to Universal Map Component events
+ */
+
+import type * as Cesium from 'cesium';
+import type { MapEvent, MapEventType, Coordinates, RenderedFeature } from '../../core/types';
+import { createMapEvent } from '../../core/events';
+import type { CesiumLibrary } from './loader';
+
+/**
+ * Event mapper for Cesium
+ */
+export class CesiumEventMapper {
+  private cesium: CesiumLibrary;
+  private viewer: Cesium.Viewer;
+  private handler: Cesium.ScreenSpaceEventHandler;
+  private removeCallbacks: Array<() => void> = [];
+  private eventCallback: (event: MapEvent) => void;
+  private pickFeatures?: (point: [number, number]) => RenderedFeature[];
+  private lastHeight?: number;
+
+  /**
+   * @param pickFeatures Get the features drawn at a screen position, added to pointer events
+   */
+  constructor(
+    cesium: CesiumLibrary,
+    viewer: Cesium.Viewer,
+    eventCallback: (event: MapEvent) => void,
+    pickFeatures?: (point: [number, number]) => RenderedFeature[]
+  ) {
+    this.cesium = cesium;
+    this.viewer = viewer;
+    this.eventCallback = eventCallback;
+    this.pickFeatures = pickFeatures;
+    this.handler = new cesium.ScreenSpaceEventHandler(viewer.scene.canvas);
+    this.setupEventListeners();
+  }
+
+  /**
+   * Set up all event listeners
+   */
+  private setupEventListeners(): void {
+    const { ScreenSpaceEventType } = this.cesium;
+
+    // Pointer events
+    const pointerEvents: Array<[Cesium.ScreenSpaceEventType, MapEventType]> = [
+      [ScreenSpaceEventType.LEFT_CLICK, 'click'],
+      [ScreenSpaceEventType.LEFT_DOUBLE_CLICK, 'dblclick'],
+      [ScreenSpaceEventType.RIGHT_CLICK, 'contextmenu'],
+    ];
+
+    pointerEvents.forEach(([cesiumEvent, type]) => {
+      this.handler.setInputAction((e: { position: Cesium.Cartesian2 }) => {
+        this.emitPointerEvent(type, e.position);
+      }, cesiumEvent);
+    });
+
+    this.handler.setInputAction((e: { endPosition: Cesium.Cartesian2 }) => {
+      this.emitPointerEvent('mousemove', e.endPosition);
+    }, ScreenSpaceEventType.MOUSE_MOVE);
+
+    // Camera events
+    const camera = this.viewer.camera;
+
+    this.removeCallbacks.push(
+      camera.moveStart.addEventListener(() => {
+        this.eventCallback(createMapEvent('movestart', this.viewer));
+      }),
+      camera.moveEnd.addEventListener(() => {
+        this.eventCallback(createMapEvent('moveend', this.viewer));
+      }),
+      camera.changed.addEventListener(() => {
+        this.eventCallback(createMapEvent('move', this.viewer));
+
+        const height = camera.positionCartographic.height;
+        if (height !== this.lastHeight) {
+          this.lastHeight = height;
+          this.eventCallback(createMapEvent('zoom', this.viewer));
+        }
+      })
+    );
+
+    // Tile loading finished
+    this.removeCallbacks.push(
+      this.viewer.scene.globe.tileLoadProgressEvent.addEventListener((queued: number) => {
+        if (queued === 0) {
+          this.eventCallback(createMapEvent('load', this.viewer));
+        }
+      })
+    );
+
+    // Rendering errors
+    this.removeCallbacks.push(
+      this.viewer.scene.renderError.addEventListener(() => {
+        this.eventCallback(createMapEvent('error', this.viewer));
+      })
+    );
+  }
+
+  /**
+   * Emit a pointer event at a canvas position, with the features under the pointer
+   */
+  private emitPointerEvent(type: MapEventType, position: Cesium.Cartesian2): void {
+    const point: [number, number] = [position.x, position.y];
+    this.eventCallback(
+      createMapEvent(type, this.viewer, {
+        lngLat: this.screenToCoords(position),
+        point,
+        ...(this.pickFeatures && { features: this.pickFeatures(point) }),
+      })
+    );
+  }
+
+  /**
+   * Convert a canvas position to our Coordinates format
+   * Uses the depth buffer when available so picks land on terrain and tiles.
+   */
+  private screenToCoords(position: Cesium.Cartesian2): Coordinates | undefined {
+    const scene = this.viewer.scene;
+    const cartesian = scene.pickPositionSupported
+      ? scene.pickPosition(position)
+      : this.viewer.camera.pickEllipsoid(position, scene.globe.ellipsoid);
+
+    if (!cartesian) return undefined;
+
+    const cartographic = this.cesium.Cartographic.fromCartesian(cartesian);
+    return [
+      this.cesium.Math.toDegrees(cartographic.latitude),
+      this.cesium.Math.toDegrees(cartographic.longitude),
+    ];
+  }
+
+  /**
+   * Clean up all event listeners
+   */
+  destroy(): void {
+    this.removeCallbacks.forEach((remove) => remove());
+    this.removeCallbacks = [];
+    if (!this.handler.isDestroyed()) {
+      this.handler.destroy();
+    }
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Cesium Provider
+ * Exports for CesiumJS 3D globe integration
+ */
+
+export { CesiumProvider, DEFAULT_CESIUM_IMAGERY_URL } from './CesiumProvider';
+export { CESIUM_CAPABILITIES } from './capabilities';
+export { loadCesium } from './loader';
+export type { CesiumLibrary, CesiumLoaderOptions } from './loader';
+export { CesiumEventMapper } from './events';
+export { CesiumLayerManager } from './layers';
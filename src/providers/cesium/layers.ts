@@ -0,0 +1,573 @@
+/**
+ * Cesium Layer Manager
+ * Renders layers as Cesium data sources, primitives and imagery layers
+ */
+
+import type * as Cesium from 'cesium';
+import type { Feature, Position } from 'geojson';
+import type {
+  LayerConfig,
+  ResolvedLayerStyle,
+  DataSource,
+  RenderedFeature,
+  ScreenPoint,
+  ScreenBox,
+  FeatureId,
+} from '../../core/types';
+import type { IProviderLayerManager } from '../../core/provider';
+import { DataSourceFactory, PendingLayerLoads } from '../../core/data-source';
+import { DEFAULT_LAYER_STYLE } from '../../core/config';
+import { isDataDrivenStyle, resolveLayerStyle } from '../../core/expressions';
+import { getClusterOptions } from '../../core/clustering';
+import { createTileTemplate, tileToQuadkey } from '../../core/tiles';
+import { pickFeatures, toFeatures, matchesFilter } from '../../core/picking';
+import { diffLayerConfig } from '../../core/layer';
+import { applyFeatureState, getFeatureId } from '../../core/feature-state';
+import type { FeatureStateStore } from '../../core/feature-state';
+import type { CustomLayerRenderer } from '../../renderers/custom';
+import type { CesiumLibrary } from './loader';
+
+/**
+ * Layer manager for Cesium
+ *
+ * GeoJSON features are loaded with their index as ID, so the entities Cesium
+ * creates for each feature are known and can be restyled on their own.
+ * Custom layers are drawn by the custom layer renderer above the scene.
+ */
+export class CesiumLayerManager implements IProviderLayerManager {
+  private cesium: CesiumLibrary;
+  private viewer: Cesium.Viewer;
+  private layers: Map<string, LayerConfig> = new Map();
+  private dataSources: Map<string, Cesium.GeoJsonDataSource> = new Map();
+  private tilesets: Map<string, Cesium.Cesium3DTileset> = new Map();
+  private imageryLayers: Map<string, Cesium.ImageryLayer> = new Map();
+  private sourceFeatures: Map<string, Feature[]> = new Map();
+  /** Entities of the features of GeoJSON layers, by feature ID */
+  private featureEntities: Map<string, Map<FeatureId, Cesium.Entity[]>> = new Map();
+  private featureStates: FeatureStateStore;
+  private customLayers: CustomLayerRenderer;
+  private loads: PendingLayerLoads = new PendingLayerLoads();
+  private order: string[] = [];
+
+  /**
+   * @param featureStates State of the features, read when styling them
+   * @param customLayers Renderer of `custom` layers
+   */
+  constructor(
+    cesium: CesiumLibrary,
+    viewer: Cesium.Viewer,
+    featureStates: FeatureStateStore,
+    customLayers: CustomLayerRenderer
+  ) {
+    this.cesium = cesium;
+    this.viewer = viewer;
+    this.featureStates = featureStates;
+    this.customLayers = customLayers;
+  }
+
+  /**
+   * Add a layer to the map
+   */
+  async addLayer(config: LayerConfig): Promise<void> {
+    if (this.layers.has(config.id)) {
+      console.warn(`Layer ${config.id} already exists, updating instead`);
+      await this.updateLayer(config.id, config);
+      return;
+    }
+
+    this.layers.set(config.id, config);
+    switch (config.type) {
+      case 'geojson':
+      case 'polygons':
+      case 'lines':
+      case 'points':
+      case 'markers':
+        if (getClusterOptions(config)) {
+          console.warn(`Clustering not yet implemented for Cesium; layer ${config.id} is drawn unclustered`);
+        }
+        await this.addGeoJSONLayer(config);
+        break;
+      case '3d-tiles':
+        await this.add3DTilesLayer(config);
+        break;
+      case 'raster-tiles':
+        this.addRasterTileLayer(config);
+        break;
+      case 'custom':
+        await this.customLayers.addLayer(config);
+        break;
+      default:
+        console.warn(`Layer type ${config.type} not yet implemented for Cesium`);
+    }
+
+    this.applyLayerOrder();
+  }
+
+  /**
+   * Remove a layer from the map
+   */
+  removeLayer(layerId: string): void {
+    this.loads.cancel(layerId);
+
+    const dataSource = this.dataSources.get(layerId);
+    if (dataSource) {
+      this.viewer.dataSources.remove(dataSource, true);
+      this.dataSources.delete(layerId);
+    }
+
+    const tileset = this.tilesets.get(layerId);
+    if (tileset) {
+      this.viewer.scene.primitives.remove(tileset);
+      this.tilesets.delete(layerId);
+    }
+
+    const imageryLayer = this.imageryLayers.get(layerId);
+    if (imageryLayer) {
+      this.viewer.imageryLayers.remove(imageryLayer, true);
+      this.imageryLayers.delete(layerId);
+    }
+
+    this.customLayers.removeLayer(layerId);
+    this.sourceFeatures.delete(layerId);
+    this.featureEntities.delete(layerId);
+    this.layers.delete(layerId);
+  }
+
+  /**
+   * Update a layer
+   * Custom layers keeping their hooks are drawn again. Other layers are only
+   * created again when their type, source, options or zoom range changed, or
+   * when polygons start or stop being extruded; otherwise their entities,
+   * tilesets and imagery are restyled, filtered or shown in place.
+   */
+  async updateLayer(layerId: string, config: LayerConfig): Promise<void> {
+    if (this.customLayers.hasLayer(layerId) && this.customLayers.canRender(config)) {
+      await this.customLayers.updateLayer(config);
+      this.layers.set(layerId, config);
+      return;
+    }
+
+    const previous = this.layers.get(layerId);
+    const changes = previous && diffLayerConfig(previous, config);
+    const extrusionChanged =
+      (previous?.style?.extrusionHeight === undefined) !== (config.style?.extrusionHeight === undefined);
+    if (!changes || changes.source || (changes.style && extrusionChanged)) {
+      this.removeLayer(layerId);
+      await this.addLayer(config);
+      return;
+    }
+
+    this.layers.set(layerId, config);
+    if (this.loads.has(layerId)) {
+      return;
+    }
+    if (changes.filter) {
+      this.applyFilter(config);
+    }
+    if (changes.style) {
+      this.restyleLayer(config);
+    }
+    if (changes.visibility) {
+      this.setLayerVisibility(layerId, config.visible !== false);
+    }
+  }
+
+  /**
+   * Set layer visibility
+   */
+  setLayerVisibility(layerId: string, visible: boolean): void {
+    const config = this.layers.get(layerId);
+    if (config && this.loads.has(layerId)) {
+      this.layers.set(layerId, { ...config, visible });
+      return;
+    }
+
+    const dataSource = this.dataSources.get(layerId);
+    if (dataSource) {
+      dataSource.show = visible;
+    }
+
+    const tileset = this.tilesets.get(layerId);
+    if (tileset) {
+      tileset.show = visible;
+    }
+
+    const imageryLayer = this.imageryLayers.get(layerId);
+    if (imageryLayer) {
+      imageryLayer.show = visible;
+    }
+
+    if (config && this.customLayers.hasLayer(layerId)) {
+      this.customLayers.updateLayer({ ...config, visible });
+    }
+  }
+
+  /**
+   * Stack the layers in the given order
+   * @param order Layer IDs from bottom to top
+   */
+  setLayerOrder(order: string[]): void {
+    this.order = order;
+    this.customLayers.setLayerOrder(order);
+    this.applyLayerOrder();
+  }
+
+  /**
+   * Restyle the entities of a feature after its state changed
+   */
+  applyFeatureState(layerId: string, featureId: FeatureId): void {
+    if (this.customLayers.hasLayer(layerId)) {
+      this.customLayers.applyFeatureState(layerId);
+      return;
+    }
+
+    const config = this.layers.get(layerId);
+    const entities = this.featureEntities.get(layerId)?.get(featureId);
+    if (!config || !entities) return;
+
+    const feature = this.sourceFeatures.get(layerId)?.find((sourceFeature) => getFeatureId(sourceFeature) === featureId);
+    const style = resolveLayerStyle(
+      applyFeatureState(config.style, this.featureStates.get(layerId, featureId)),
+      feature?.properties
+    );
+    entities.forEach((entity) => this.applyFeatureStyle(entity, style, config.opacity ?? 1));
+  }
+
+  /**
+   * Get the features drawn by some layers at a screen point or in a screen box
+   * GeoJSON layers are hit-tested against their features on the ellipsoid;
+   * features on the far side of the globe are not hit. Custom layers pick their own features.
+   * @param layerIds IDs of the layers to pick from
+   */
+  pickFeatures(geometry: ScreenPoint | ScreenBox, layerIds: string[]): RenderedFeature[] {
+    const project = (position: Position) => this.project(position);
+
+    const features = layerIds.flatMap((layerId) => {
+      const config = this.layers.get(layerId);
+      if (!config || !this.dataSources.has(layerId)) {
+        return [];
+      }
+      const features = (this.sourceFeatures.get(layerId) ?? []).filter((feature) =>
+        matchesFilter(feature, config.filter)
+      );
+      // Features drawn later are on top
+      return pickFeatures(config, features, geometry, project).reverse();
+    });
+    return [...this.customLayers.pickFeatures(geometry), ...features];
+  }
+
+  /**
+   * Project a GeoJSON position on the ellipsoid to the screen
+   * Returns undefined for positions on the far side of the globe.
+   */
+  project([lng, lat]: Position): ScreenPoint | undefined {
+    const { Cartesian3, SceneMode, SceneTransforms } = this.cesium;
+    const scene = this.viewer.scene;
+    const position = Cartesian3.fromDegrees(lng, lat);
+
+    // On a globe, points facing away from the camera are beyond the horizon
+    if (
+      scene.mode === SceneMode.SCENE3D &&
+      Cartesian3.dot(position, scene.camera.positionWC) < Cartesian3.magnitudeSquared(position)
+    ) {
+      return undefined;
+    }
+    const point = SceneTransforms.worldToWindowCoordinates(scene, position);
+    return point ? [point.x, point.y] : undefined;
+  }
+
+  /**
+   * Unproject a screen point to the ellipsoid
+   * Returns undefined for points beside the globe.
+   */
+  unproject([x, y]: ScreenPoint): Position | undefined {
+    const { Cartesian2, Cartographic, Math: CesiumMath } = this.cesium;
+    const scene = this.viewer.scene;
+    const cartesian = scene.camera.pickEllipsoid(new Cartesian2(x, y), scene.globe.ellipsoid);
+    if (!cartesian) {
+      return undefined;
+    }
+
+    const cartographic = Cartographic.fromCartesian(cartesian);
+    return [CesiumMath.toDegrees(cartographic.longitude), CesiumMath.toDegrees(cartographic.latitude)];
+  }
+
+  /**
+   * Get the features of a layer's loaded data
+   */
+  getSourceFeatures(layerId: string): Feature[] {
+    return this.sourceFeatures.get(layerId) ?? [];
+  }
+
+  /**
+   * Destroy all layers
+   */
+  destroy(): void {
+    Array.from(this.layers.keys()).forEach((layerId) => this.removeLayer(layerId));
+    this.customLayers.destroy();
+    this.loads.clear();
+    this.layers.clear();
+  }
+
+  /**
+   * Stack the layers in the layer order by raising each one to the top in turn
+   * Imagery is composited in this order; entities and 3D Tiles are drawn in
+   * depth order, so the order only decides between overlapping ground features.
+   */
+  private applyLayerOrder(): void {
+    this.order.forEach((layerId) => {
+      const dataSource = this.dataSources.get(layerId);
+      if (dataSource && this.viewer.dataSources.contains(dataSource)) {
+        this.viewer.dataSources.raiseToTop(dataSource);
+      }
+
+      const tileset = this.tilesets.get(layerId);
+      if (tileset && this.viewer.scene.primitives.contains(tileset)) {
+        this.viewer.scene.primitives.raiseToTop(tileset);
+      }
+
+      const imageryLayer = this.imageryLayers.get(layerId);
+      if (imageryLayer && this.viewer.imageryLayers.contains(imageryLayer)) {
+        this.viewer.imageryLayers.raiseToTop(imageryLayer);
+      }
+    });
+  }
+
+  /**
+   * Add a GeoJSON layer clamped to the terrain
+   * Polygons with an extrusion height are extruded instead.
+   */
+  private async addGeoJSONLayer(config: LayerConfig): Promise<void> {
+    await this.loads.load(config.id, this.loadGeoJSON(config), ({ features, cesiumDataSource, loadedWith }) => {
+      this.sourceFeatures.set(config.id, features);
+      this.drawGeoJSONLayer(this.layers.get(config.id) ?? config, loadedWith, cesiumDataSource);
+    });
+  }
+
+  /**
+   * Load the data of a GeoJSON layer into a Cesium data source
+   * The data source is created with the configuration the layer has once its data loaded.
+   */
+  private async loadGeoJSON(
+    config: LayerConfig
+  ): Promise<{ features: Feature[]; cesiumDataSource: Cesium.GeoJsonDataSource; loadedWith: LayerConfig }> {
+    const { Color, GeoJsonDataSource } = this.cesium;
+
+    const source = DataSourceFactory.normalizeSource(config.source);
+    const geoJSON = await DataSourceFactory.createDataSource(source).load();
+    const features = toFeatures(geoJSON);
+    const loadedWith = this.layers.get(config.id) ?? config;
+
+    const style = resolveLayerStyle(loadedWith.style);
+    const layerOpacity = loadedWith.opacity ?? 1;
+    const extruded = style.extrusionHeight !== undefined;
+    const fill = Color.fromCssColorString(style.fillColor || (DEFAULT_LAYER_STYLE.fillColor as string))
+      .withAlpha((style.opacity ?? 0.6) * layerOpacity);
+    const stroke = Color.fromCssColorString(style.strokeColor || (DEFAULT_LAYER_STYLE.strokeColor as string))
+      .withAlpha(layerOpacity);
+
+    // Cesium names the entities of a feature's parts `${id}`, `${id}_2`, and so on
+    const indexed = features.length > 0
+      ? { type: 'FeatureCollection', features: features.map((feature, index) => ({ ...feature, id: index })) }
+      : geoJSON;
+    const cesiumDataSource = await GeoJsonDataSource.load(indexed as object, {
+      clampToGround: !extruded,
+      fill,
+      stroke,
+      strokeWidth: style.strokeWidth ?? (DEFAULT_LAYER_STYLE.strokeWidth as number),
+      markerColor: fill.withAlpha(layerOpacity),
+    });
+    return { features, cesiumDataSource, loadedWith };
+  }
+
+  /**
+   * Draw the loaded data source of a GeoJSON layer
+   * Entities are restyled when the layer was updated after its data source was created.
+   * @param loadedWith Configuration the data source was created with
+   */
+  private drawGeoJSONLayer(
+    config: LayerConfig,
+    loadedWith: LayerConfig,
+    cesiumDataSource: Cesium.GeoJsonDataSource
+  ): void {
+    const features = this.sourceFeatures.get(config.id) ?? [];
+    const style = resolveLayerStyle(config.style);
+    const layerOpacity = config.opacity ?? 1;
+    const restyled = config !== loadedWith;
+
+    const entities = new Map<FeatureId, Cesium.Entity[]>();
+    const dataDriven = isDataDrivenStyle(config.style);
+    const time = this.cesium.JulianDate.now();
+    cesiumDataSource.entities.values.forEach((entity) => {
+      const feature: Feature | undefined = features[parseInt(entity.id, 10)];
+      const featureId = feature && getFeatureId(feature);
+      if (featureId !== undefined) {
+        entities.set(featureId, [...(entities.get(featureId) ?? []), entity]);
+      }
+
+      const state = feature && this.featureStates.getForFeature(config.id, feature);
+      if (dataDriven || state || restyled) {
+        const properties = feature ? feature.properties : entity.properties?.getValue(time);
+        this.applyFeatureStyle(entity, resolveLayerStyle(applyFeatureState(config.style, state), properties), layerOpacity);
+      } else if (style.extrusionHeight !== undefined && entity.polygon) {
+        entity.polygon.extrudedHeight = new this.cesium.ConstantProperty(style.extrusionHeight);
+      }
+    });
+    this.featureEntities.set(config.id, entities);
+
+    cesiumDataSource.show = config.visible !== false;
+    // A loaded data source is added at once
+    this.viewer.dataSources.add(cesiumDataSource);
+    this.dataSources.set(config.id, cesiumDataSource);
+    this.applyFilter(config);
+  }
+
+  /**
+   * Show the entities of the features of a GeoJSON layer matching its filter
+   * Entities of filtered out features are hidden, so filters change without loading the data again.
+   */
+  private applyFilter(config: LayerConfig): void {
+    const features = this.sourceFeatures.get(config.id) ?? [];
+    this.dataSources.get(config.id)?.entities.values.forEach((entity) => {
+      const feature: Feature | undefined = features[parseInt(entity.id, 10)];
+      entity.show = !feature || matchesFilter(feature, config.filter);
+    });
+  }
+
+  /**
+   * Restyle the entities, tileset or imagery of a layer after its style or opacity changed
+   */
+  private restyleLayer(config: LayerConfig): void {
+    const layerOpacity = config.opacity ?? 1;
+
+    const dataSource = this.dataSources.get(config.id);
+    if (dataSource) {
+      const features = this.sourceFeatures.get(config.id) ?? [];
+      const time = this.cesium.JulianDate.now();
+      dataSource.entities.values.forEach((entity) => {
+        const feature: Feature | undefined = features[parseInt(entity.id, 10)];
+        const state = feature && this.featureStates.getForFeature(config.id, feature);
+        const properties = feature ? feature.properties : entity.properties?.getValue(time);
+        const style = resolveLayerStyle(applyFeatureState(config.style, state), properties);
+        this.applyFeatureStyle(entity, style, layerOpacity);
+      });
+    }
+
+    const tileset = this.tilesets.get(config.id);
+    if (tileset) {
+      tileset.style = this.createTilesetStyle(layerOpacity);
+    }
+
+    const imageryLayer = this.imageryLayers.get(config.id);
+    if (imageryLayer) {
+      imageryLayer.alpha = layerOpacity;
+    }
+  }
+
+  /**
+   * Style the entity of one feature with its evaluated data-driven style and state overrides
+   * Points are drawn as circles so their radius can vary.
+   */
+  private applyFeatureStyle(entity: Cesium.Entity, style: ResolvedLayerStyle, layerOpacity: number): void {
+    const { Color, ColorMaterialProperty, ConstantProperty, PointGraphics } = this.cesium;
+
+    const fill = Color.fromCssColorString(style.fillColor || (DEFAULT_LAYER_STYLE.fillColor as string))
+      .withAlpha((style.opacity ?? 0.6) * layerOpacity);
+    const stroke = Color.fromCssColorString(style.strokeColor || (DEFAULT_LAYER_STYLE.strokeColor as string))
+      .withAlpha(layerOpacity);
+    const strokeWidth = style.strokeWidth ?? (DEFAULT_LAYER_STYLE.strokeWidth as number);
+
+    if (entity.polygon) {
+      entity.polygon.material = new ColorMaterialProperty(fill);
+      entity.polygon.outlineColor = new ConstantProperty(stroke);
+      if (style.extrusionHeight !== undefined) {
+        entity.polygon.extrudedHeight = new ConstantProperty(style.extrusionHeight);
+      }
+    }
+    if (entity.polyline) {
+      entity.polyline.material = new ColorMaterialProperty(stroke);
+      entity.polyline.width = new ConstantProperty(strokeWidth);
+    }
+    if (entity.billboard || entity.point) {
+      entity.billboard = undefined;
+      entity.point = new PointGraphics({
+        pixelSize: 2 * (style.radius ?? (DEFAULT_LAYER_STYLE.radius as number)),
+        color: fill.withAlpha((style.opacity ?? 1) * layerOpacity),
+        outlineColor: stroke,
+        outlineWidth: strokeWidth,
+      });
+    }
+  }
+
+  /**
+   * Add a 3D Tiles layer rendered natively by Cesium
+   */
+  private async add3DTilesLayer(config: LayerConfig): Promise<void> {
+    await this.loads.load(config.id, this.loadTileset(config), (tileset) => {
+      const latest = this.layers.get(config.id) ?? config;
+      tileset.style = this.createTilesetStyle(latest.opacity ?? 1);
+      tileset.show = latest.visible !== false;
+      this.viewer.scene.primitives.add(tileset);
+      this.tilesets.set(config.id, tileset);
+    });
+  }
+
+  /**
+   * Load the tileset of a 3D Tiles layer
+   */
+  private async loadTileset(config: LayerConfig): Promise<Cesium.Cesium3DTileset> {
+    const source = this.to3DTilesSource(DataSourceFactory.normalizeSource(config.source));
+    const dataSource = DataSourceFactory.createDataSource(source);
+    const url = (await dataSource.load()) as string;
+
+    return this.cesium.Cesium3DTileset.fromUrl(url, {
+      maximumScreenSpaceError: (config.options?.maximumScreenSpaceError as number | undefined) ?? 16,
+    });
+  }
+
+  /**
+   * Create the style of a 3D Tiles layer drawn with an opacity
+   * Opaque tilesets keep the style of their tiles.
+   */
+  private createTilesetStyle(opacity: number): Cesium.Cesium3DTileStyle | undefined {
+    return opacity < 1
+      ? new this.cesium.Cesium3DTileStyle({ color: `color('white', ${opacity})` })
+      : undefined;
+  }
+
+  /**
+   * Add a raster tile layer draped over the globe
+   */
+  private addRasterTileLayer(config: LayerConfig): void {
+    const template = createTileTemplate(DataSourceFactory.normalizeSource(config.source));
+
+    const provider = new this.cesium.UrlTemplateImageryProvider({
+      url: template.url
+        .replace('{y}', template.scheme === 'tms' ? '{reverseY}' : '{y}')
+        .replace('{r}', template.retinaSuffix),
+      subdomains: template.subdomains,
+      tileWidth: template.tileSize,
+      tileHeight: template.tileSize,
+      customTags: {
+        q: (_: unknown, x: number, y: number, level: number) => tileToQuadkey(x, y, level),
+      },
+      minimumLevel: template.minZoom,
+      maximumLevel: template.maxZoom,
+    });
+
+    const imageryLayer = this.viewer.imageryLayers.addImageryProvider(provider);
+    imageryLayer.alpha = config.opacity ?? 1;
+    imageryLayer.show = config.visible !== false;
+    this.imageryLayers.set(config.id, imageryLayer);
+  }
+
+  /**
+   * Treat plain URLs given to a 3D Tiles layer as tileset URLs
+   */
+  private to3DTilesSource(source: DataSource): DataSource {
+    if (source.type === 'url') {
+      return { ...source, type: '3d-tiles' };
+    }
+    return source;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Cesium Loader
+ * Lazily imports CesiumJS and configures where it loads its static assets from
+ */
+
+import type * as CesiumModule from 'cesium';
+
+export type CesiumLibrary = typeof CesiumModule;
+
+export interface CesiumLoaderOptions {
+  /** URL the Cesium Workers, Assets and Widgets directories are served from */
+  baseUrl?: string;
+  /** Cesium ion access token */
+  accessToken?: string;
+}
+
+let loadPromise: Promise<CesiumLibrary> | undefined;
+
+/**
+ * Load CesiumJS
+ * The module is imported only once; subsequent calls share the same promise.
+ */
+export async function loadCesium(options: CesiumLoaderOptions = {}): Promise<CesiumLibrary> {
+  // Cesium reads its base URL from this global when the module is evaluated
+  if (options.baseUrl) {
+    (window as unknown as { CESIUM_BASE_URL?: string }).CESIUM_BASE_URL = options.baseUrl;
+  }
+
+  if (!loadPromise) {
+    loadPromise = import('cesium')
+      .then((module) => {
+        const cesium = ((module as unknown as { default?: CesiumLibrary }).default ?? module) as CesiumLibrary;
+        if (!cesium.Viewer) {
+          throw new Error('Cesium loaded but Viewer not available');
+        }
+        return cesium;
+      })
+      .catch((error) => {
+        loadPromise = undefined;
+        throw error instanceof Error
+          ? error
+          : new Error('Failed to load Cesium. Install it with "npm install cesium"');
+      });
+  }
+
+  const cesium = await loadPromise;
+  if (options.accessToken) {
+    cesium.Ion.defaultAccessToken = options.accessToken;
+  }
+  return cesium;
+}
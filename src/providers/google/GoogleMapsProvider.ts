@@ -3,33 +3,32 @@
  * Implementation of IMapProvider for Google Maps
  */
 
+import type { Feature, Point } from 'geojson';
 import { BaseMapProvider } from '../../core/provider';
 import type {
   MapConfig,
   ViewState,
-  LayerConfig,
   CameraOptions,
   BoundingBox,
   ProviderCapabilities,
   MapEvent,
+  Coordinates,
+  Coordinates3D,
+  ScreenPoint,
 } from '../../core/types';
+import { createMapEvent } from '../../core/events';
+import { CustomLayerRenderer } from '../../renderers/custom';
 import { loadGoogleMapsAPI } from './loader';
 import { GoogleMapsEventMapper } from './events';
 import { GoogleMapsLayerManager } from './layers';
+import { GOOGLE_MAPS_CAPABILITIES } from './capabilities';
 
 /**
  * Google Maps Provider implementation
  */
 export class GoogleMapsProvider extends BaseMapProvider {
   readonly name = 'google';
-  readonly capabilities: ProviderCapabilities = {
-    supports3D: true,
-    supportsVectorTiles: true,
-    supports3DTiles: true,
-    supportsCustomProjections: false,
-    supportsTerrain: true,
-    requiresApiKey: true,
-  };
+  readonly capabilities: ProviderCapabilities = GOOGLE_MAPS_CAPABILITIES;
 
   private map?: google.maps.Map;
   private eventMapper?: GoogleMapsEventMapper;
@@ -68,12 +67,32 @@ export class GoogleMapsProvider extends BaseMapProvider {
     this.map = new google.maps.Map(this.container, mapOptions);
 
     // Initialize layer manager
-    this.layerManager = new GoogleMapsLayerManager(this.map);
+    const customLayers = new CustomLayerRenderer({
+      container: this.container,
+      getViewState: () => this.getViewState(),
+      projection: this,
+      getFeatureState: (layerId, featureId) => this.featureStates.get(layerId, featureId),
+    });
+    this.layerManager = new GoogleMapsLayerManager(
+      this.map,
+      this.featureStates,
+      customLayers,
+      config.apiKey,
+      (feature) => {
+        // Marker clicks do not reach the map; report them as clicks on their feature
+        const [lng, lat] = (feature.geometry as Point).coordinates;
+        this.emit('click', createMapEvent('click', this.map, { lngLat: [lat, lng], features: [feature] }));
+      }
+    );
 
     // Set up event mapping
-    this.eventMapper = new GoogleMapsEventMapper(this.map, (event) => {
-      this.emit(event.type, event);
-    });
+    this.eventMapper = new GoogleMapsEventMapper(
+      this.map,
+      (event) => {
+        this.emit(event.type, event);
+      },
+      (point) => this.queryRenderedFeatures(point)
+    );
 
     this.ready = true;
   }
@@ -190,45 +209,42 @@ export class GoogleMapsProvider extends BaseMapProvider {
   }
 
   /**
-   * Add a layer
+   * Project coordinates to the map container
    */
-  addLayer(layer: LayerConfig): void {
+  project(coordinates: Coordinates): ScreenPoint | undefined {
     if (!this.layerManager) {
       throw new Error('Layer manager not initialized');
     }
-
-    this.layerManager.addLayer(layer);
-    this.layers.set(layer.id, layer);
+    return this.layerManager.project([coordinates[1], coordinates[0]]);
   }
 
   /**
-   * Remove a layer
+   * Unproject a screen point to coordinates
    */
-  removeLayer(layerId: string): void {
+  unproject(point: ScreenPoint): Coordinates | undefined {
     if (!this.layerManager) {
       throw new Error('Layer manager not initialized');
     }
 
-    this.layerManager.removeLayer(layerId);
-    this.layers.delete(layerId);
+    const position = this.layerManager.unproject(point);
+    return position ? [position[1], position[0]] : undefined;
+  }
+
+  /**
+   * Get the layer manager drawing the layers
+   */
+  protected getLayerManager(): GoogleMapsLayerManager | undefined {
+    return this.layerManager;
   }
 
   /**
-   * Update a layer
+   * Get the points of a cluster in a clustered layer
    */
-  updateLayer(layerId: string, updates: Partial<LayerConfig>): void {
+  async getClusterLeaves(layerId: string, clusterId: number, limit?: number, offset?: number): Promise<Feature[]> {
     if (!this.layerManager) {
       throw new Error('Layer manager not initialized');
     }
-
-    const layer = this.layers.get(layerId);
-    if (!layer) {
-      throw new Error(`Layer ${layerId} not found`);
-    }
-
-    const updatedLayer = { ...layer, ...updates };
-    this.layerManager.updateLayer(layerId, updatedLayer);
-    this.layers.set(layerId, updatedLayer);
+    return this.layerManager.getClusterLeaves(layerId, clusterId, limit, offset);
   }
 
   /**
@@ -250,7 +266,7 @@ export class GoogleMapsProvider extends BaseMapProvider {
   /**
    * Convert config coordinates to Google LatLng
    */
-  private configToGoogleLatLng(coords: [number, number]): google.maps.LatLng {
+  private configToGoogleLatLng(coords: Coordinates | Coordinates3D): google.maps.LatLng {
     return new google.maps.LatLng(coords[0], coords[1]);
   }
 }
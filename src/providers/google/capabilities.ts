@@ -0,0 +1,29 @@
+/**
+ * Google Maps provider capabilities
+ */
+
+import type { ProviderCapabilities } from '../../core/types';
+
+/**
+ * Capabilities of the Google Maps provider
+ */
+export const GOOGLE_MAPS_CAPABILITIES: ProviderCapabilities = {
+  supports3D: true,
+  supportsVectorTiles: true,
+  supports3DTiles: true,
+  supportsCustomProjections: false,
+  supportsTerrain: true,
+  requiresApiKey: true,
+  layerTypes: [
+    'geojson',
+    'markers',
+    'points',
+    'heatmap',
+    'polygons',
+    'lines',
+    'raster-tiles',
+    'vector-tiles',
+    '3d-tiles',
+    'custom',
+  ],
+};
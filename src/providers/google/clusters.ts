@@ -0,0 +1,218 @@
+/**
+ * Google Maps cluster layer
+ * Clusters the points of a markers or points layer and draws them as Advanced Markers
+ */
+
+import type { Feature, Point } from 'geojson';
+import type { LayerConfig, RenderedFeature, FeatureId, FeatureState } from '../../core/types';
+import type { ClusterOptions } from '../../core/clustering';
+import { PointClusterer, isClusterFeature, createClusterElement, createCircleElement } from '../../core/clustering';
+import { resolveLayerStyle } from '../../core/expressions';
+import { applyFeatureState, getFeatureId } from '../../core/feature-state';
+
+/**
+ * Clustered markers or points layer on a Google map
+ *
+ * The cluster hierarchy is built once; the markers for the visible area are
+ * updated whenever the map becomes idle after zooming or panning. Markers
+ * that stay visible are kept.
+ */
+export class GoogleClusterLayer {
+  private map: google.maps.Map;
+  private config: LayerConfig;
+  private options: ClusterOptions;
+  private clusterer: PointClusterer;
+  private markers: Map<unknown, google.maps.marker.AdvancedMarkerElement> = new Map();
+  private renderedFeatures: Array<Feature<Point>> = [];
+  private visible: boolean;
+  private zIndex?: number;
+  private idleListener: google.maps.MapsEventListener;
+  private getFeatureState: (feature: Feature) => FeatureState | undefined;
+  private onClick?: (feature: RenderedFeature) => void;
+
+  /**
+   * @param getFeatureState Get the state of a point
+   * @param onClick Called with the clicked cluster or point
+   */
+  constructor(
+    map: google.maps.Map,
+    config: LayerConfig,
+    options: ClusterOptions,
+    features: Feature[],
+    getFeatureState: (feature: Feature) => FeatureState | undefined,
+    onClick?: (feature: RenderedFeature) => void
+  ) {
+    this.map = map;
+    this.config = config;
+    this.options = options;
+    this.getFeatureState = getFeatureState;
+    this.onClick = onClick;
+    this.visible = config.visible !== false;
+
+    this.clusterer = new PointClusterer(options);
+    this.clusterer.load(features);
+
+    this.idleListener = map.addListener('idle', () => this.update());
+    this.update();
+  }
+
+  /**
+   * Show or hide the layer
+   */
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.update();
+  }
+
+  /**
+   * Set the stacking order of the layer's markers among other overlays
+   */
+  setZIndex(zIndex: number): void {
+    this.zIndex = zIndex;
+    this.markers.forEach((marker) => (marker.zIndex = zIndex));
+  }
+
+  /**
+   * Restyle the drawn clusters and points after the layer's style or opacity changed
+   * The clusters are kept.
+   */
+  setConfig(config: LayerConfig): void {
+    this.config = config;
+    this.renderedFeatures.forEach((feature) => {
+      const marker = this.markers.get(this.getMarkerKey(feature));
+      if (marker) {
+        marker.content = this.createContent(feature);
+      }
+    });
+  }
+
+  /**
+   * Restyle the drawn points with an ID after their state changed
+   * Points of markers layers keep their pins.
+   */
+  applyFeatureState(featureId: FeatureId): void {
+    if (this.config.type !== 'points') return;
+
+    // Points are keyed by their feature, clusters by their id
+    this.markers.forEach((marker, key) => {
+      if (typeof key === 'object' && getFeatureId(key as Feature) === featureId) {
+        marker.content = this.createContent(key as Feature<Point>);
+      }
+    });
+  }
+
+  /**
+   * Get the clusters and points drawn in the visible area
+   */
+  getRenderedFeatures(): Array<Feature<Point>> {
+    return this.renderedFeatures;
+  }
+
+  /**
+   * Get the points of a cluster
+   */
+  getLeaves(clusterId: number, limit?: number, offset?: number): Feature[] {
+    return this.clusterer.getLeaves(clusterId, limit, offset);
+  }
+
+  /**
+   * Remove the layer
+   */
+  destroy(): void {
+    this.idleListener.remove();
+    this.markers.forEach((marker) => (marker.map = null));
+    this.markers.clear();
+    this.renderedFeatures = [];
+  }
+
+  /**
+   * Draw the clusters and points in the visible area
+   */
+  private update(): void {
+    const zoom = this.map.getZoom();
+    const bounds = this.map.getBounds();
+    if (!this.visible || zoom === undefined || !bounds) {
+      this.markers.forEach((marker) => (marker.map = null));
+      this.markers.clear();
+      this.renderedFeatures = [];
+      return;
+    }
+
+    const sw = bounds.getSouthWest();
+    const ne = bounds.getNorthEast();
+    const features = this.clusterer.getClusters([sw.lng(), sw.lat(), ne.lng(), ne.lat()], zoom);
+    this.renderedFeatures = features;
+
+    const keys = new Set<unknown>();
+    features.forEach((feature) => {
+      const key = this.getMarkerKey(feature);
+      keys.add(key);
+      if (!this.markers.has(key)) {
+        this.markers.set(key, this.createMarker(feature));
+      }
+    });
+
+    this.markers.forEach((marker, key) => {
+      if (!keys.has(key)) {
+        marker.map = null;
+        this.markers.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Get the key of a cluster's or point's marker
+   * Clusters are identified by id, points by their feature.
+   */
+  private getMarkerKey(feature: Feature<Point>): unknown {
+    return isClusterFeature(feature) ? feature.properties.cluster_id : feature;
+  }
+
+  /**
+   * Create the marker of a cluster or point
+   */
+  private createMarker(feature: Feature<Point>): google.maps.marker.AdvancedMarkerElement {
+    const [lng, lat] = feature.geometry.coordinates;
+    const cluster = isClusterFeature(feature);
+
+    const marker = new google.maps.marker.AdvancedMarkerElement({
+      position: { lat, lng },
+      map: this.map,
+      content: this.createContent(feature),
+      zIndex: this.zIndex,
+      title: cluster ? undefined : feature.properties?.name || feature.properties?.title,
+    });
+
+    marker.addListener('click', () => {
+      this.onClick?.({ ...feature, layerId: this.config.id });
+      if (isClusterFeature(feature) && this.options.zoomOnClick !== false) {
+        this.map.setCenter({ lat, lng });
+        this.map.setZoom(this.clusterer.getClusterExpansionZoom(feature.properties.cluster_id));
+      }
+    });
+
+    return marker;
+  }
+
+  /**
+   * Create the content of a cluster or point marker
+   * Clusters are labelled circles, points of points layers circles styled
+   * with their state; points of markers layers have no content and get pins.
+   */
+  private createContent(feature: Feature<Point>): HTMLElement | undefined {
+    let content: HTMLElement | undefined;
+    if (isClusterFeature(feature)) {
+      content = createClusterElement(feature, this.options.style);
+    } else if (this.config.type === 'points') {
+      content = createCircleElement(
+        resolveLayerStyle(applyFeatureState(this.config.style, this.getFeatureState(feature)), feature.properties)
+      );
+    }
+    if (content) {
+      // Advanced Markers are anchored at the bottom center of their content
+      content.style.transform = 'translateY(50%)';
+      content.style.opacity = String(this.config.opacity ?? 1);
+    }
+    return content;
+  }
+}
@@ -3,7 +3,7 @@
  * Maps Google Maps events to Universal Map Component events
  */
 
-import type { MapEvent, MapEventType, Coordinates } from '../../core/types';
+import type { MapEvent, MapEventType, Coordinates, RenderedFeature } from '../../core/types';
 import { createMapEvent } from '../../core/events';
 
 /**
@@ -13,10 +13,19 @@ export class GoogleMapsEventMapper {
   private map: google.maps.Map;
   private listeners: google.maps.MapsEventListener[] = [];
   private eventCallback: (event: MapEvent) => void;
+  private pickFeatures?: (point: [number, number]) => RenderedFeature[];
 
-  constructor(map: google.maps.Map, eventCallback: (event: MapEvent) => void) {
+  /**
+   * @param pickFeatures Get the features drawn at a screen position, added to mouse events
+   */
+  constructor(
+    map: google.maps.Map,
+    eventCallback: (event: MapEvent) => void,
+    pickFeatures?: (point: [number, number]) => RenderedFeature[]
+  ) {
     this.map = map;
     this.eventCallback = eventCallback;
+    this.pickFeatures = pickFeatures;
     this.setupEventListeners();
   }
 
@@ -26,40 +35,20 @@ export class GoogleMapsEventMapper {
   private setupEventListeners(): void {
     // Click events
     this.addListener('click', (e: google.maps.MapMouseEvent) => {
-      this.eventCallback(
-        createMapEvent('click', this.map, {
-          lngLat: this.googleLatLngToCoords(e.latLng),
-          originalEvent: e.domEvent,
-        })
-      );
+      this.eventCallback(createMapEvent('click', this.map, this.toMouseEventData(e)));
     });
 
     this.addListener('dblclick', (e: google.maps.MapMouseEvent) => {
-      this.eventCallback(
-        createMapEvent('dblclick', this.map, {
-          lngLat: this.googleLatLngToCoords(e.latLng),
-          originalEvent: e.domEvent,
-        })
-      );
+      this.eventCallback(createMapEvent('dblclick', this.map, this.toMouseEventData(e)));
     });
 
     this.addListener('rightclick', (e: google.maps.MapMouseEvent) => {
-      this.eventCallback(
-        createMapEvent('contextmenu', this.map, {
-          lngLat: this.googleLatLngToCoords(e.latLng),
-          originalEvent: e.domEvent,
-        })
-      );
+      this.eventCallback(createMapEvent('contextmenu', this.map, this.toMouseEventData(e)));
     });
 
     // Mouse events
     this.addListener('mousemove', (e: google.maps.MapMouseEvent) => {
-      this.eventCallback(
-        createMapEvent('mousemove', this.map, {
-          lngLat: this.googleLatLngToCoords(e.latLng),
-          originalEvent: e.domEvent,
-        })
-      );
+      this.eventCallback(createMapEvent('mousemove', this.map, this.toMouseEventData(e)));
     });
 
     // Zoom events
@@ -118,6 +107,26 @@ export class GoogleMapsEventMapper {
     this.listeners.push(listener);
   }
 
+  /**
+   * Build the data of a mouse event, with the features under the pointer
+   */
+  private toMouseEventData(e: google.maps.MapMouseEvent): Partial<MapEvent> {
+    const domEvent = e.domEvent as MouseEvent | undefined;
+    let point: [number, number] | undefined;
+
+    if (domEvent && 'clientX' in domEvent) {
+      const rect = this.map.getDiv().getBoundingClientRect();
+      point = [domEvent.clientX - rect.left, domEvent.clientY - rect.top];
+    }
+
+    return {
+      lngLat: this.googleLatLngToCoords(e.latLng),
+      originalEvent: e.domEvent,
+      ...(point && { point }),
+      ...(point && this.pickFeatures && { features: this.pickFeatures(point) }),
+    };
+  }
+
   /**
    * Convert Google LatLng to our Coordinates format
    */
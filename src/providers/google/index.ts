@@ -4,6 +4,7 @@
  */
 
 export { GoogleMapsProvider } from './GoogleMapsProvider';
+export { GOOGLE_MAPS_CAPABILITIES } from './capabilities';
 export { loadGoogleMapsAPI, isGoogleMapsLoaded } from './loader';
 export type { GoogleMapsLoaderOptions } from './loader';
 export { GoogleMapsEventMapper } from './events';
@@ -3,20 +3,128 @@
  * Handles layer rendering on Google Maps using deck.gl and native overlays
  */
 
-import type { LayerConfig, DataSource } from '../../core/types';
-import { DataSourceFactory } from '../../core/data-source';
+import { GoogleMapsOverlay } from '@deck.gl/google-maps/typed';
+import type { Feature, Position } from 'geojson';
+import type {
+  LayerConfig,
+  RenderedFeature,
+  FeatureProperties,
+  ScreenPoint,
+  ScreenBox,
+  FeatureId,
+  FeatureState,
+} from '../../core/types';
+import type { IProviderLayerManager } from '../../core/provider';
+import { DataSourceFactory, PendingLayerLoads } from '../../core/data-source';
+import { DEFAULT_LAYER_STYLE } from '../../core/config';
+import { isDataDrivenStyle, resolveLayerStyle } from '../../core/expressions';
+import { TILE_SIZE } from '../../core/projection';
+import { createTileTemplate, getTileUrl, isZoomInRange } from '../../core/tiles';
+import { getClusterOptions } from '../../core/clustering';
+import { pickFeatures, toFeatures, matchesFilter } from '../../core/picking';
+import { diffLayerConfig } from '../../core/layer';
+import { applyFeatureState, getFeatureId } from '../../core/feature-state';
+import type { FeatureStateStore } from '../../core/feature-state';
+import { DeckRenderer } from '../../renderers/deck';
+import type { CustomLayerRenderer } from '../../renderers/custom';
+import { GoogleVectorTileLayer } from './vector-tiles';
+import { GoogleClusterLayer } from './clusters';
+
+/**
+ * Root tileset of Google Photorealistic 3D Tiles
+ */
+export const GOOGLE_3D_TILES_URL = 'https://tile.googleapis.com/v1/3dtiles/root.json';
+
+/**
+ * Build polyline icons that draw a dash pattern
+ * Google Maps has no native dashes; each dash is a repeated line symbol.
+ */
+function toDashIcons(dashArray: number[], opacity: number): google.maps.IconSequence[] {
+  // Like SVG, an odd number of lengths is repeated to get an even pattern
+  const pattern = dashArray.length % 2 ? [...dashArray, ...dashArray] : dashArray;
+  const period = pattern.reduce((sum, length) => sum + length, 0);
+  const icons: google.maps.IconSequence[] = [];
+
+  let offset = 0;
+  pattern.forEach((length, i) => {
+    if (i % 2 === 0 && length > 0) {
+      icons.push({
+        icon: { path: `M 0,${-length / 2} 0,${length / 2}`, strokeOpacity: opacity, scale: 1 },
+        offset: `${offset + length / 2}px`,
+        repeat: `${period}px`,
+      });
+    }
+    offset += length;
+  });
+
+  return icons;
+}
 
 /**
  * Layer manager for Google Maps
+ *
+ * Vector data, heatmaps and 3D Tiles are drawn by the deck.gl renderer in an
+ * interleaved overlay. Markers, clusters, styled lines and tiles use native overlays.
+ * Custom layers are drawn by the custom layer renderer above the map.
+ * Native overlays are picked by hit-testing the features they draw.
+ * Feature state restyles single polylines, circles and vector tile features;
+ * deck.gl layers re-evaluate their style accessors.
  */
-export class GoogleMapsLayerManager {
+export class GoogleMapsLayerManager implements IProviderLayerManager {
   private map: google.maps.Map;
   private layers: Map<string, any> = new Map();
-  private dataLayers: Map<string, google.maps.Data> = new Map();
   private markers: Map<string, google.maps.marker.AdvancedMarkerElement[]> = new Map();
+  private polylines: Map<string, google.maps.Polyline[]> = new Map();
+  private polylineFeatures: WeakMap<google.maps.Polyline, Feature> = new WeakMap();
+  private tileOverlays: Map<string, google.maps.ImageMapType> = new Map();
+  private vectorTileLayers: Map<string, GoogleVectorTileLayer> = new Map();
+  private clusterLayers: Map<string, GoogleClusterLayer> = new Map();
+  private sourceFeatures: Map<string, Feature[]> = new Map();
+  private loads: PendingLayerLoads = new PendingLayerLoads();
+  private order: string[] = [];
+  private renderer: DeckRenderer;
+  private customLayers: CustomLayerRenderer;
+  private projectionOverlay: google.maps.OverlayView;
+  private featureStates: FeatureStateStore;
+  private onMarkerClick?: (feature: RenderedFeature) => void;
 
-  constructor(map: google.maps.Map) {
+  /**
+   * @param featureStates State of the features, read when styling them
+   * @param customLayers Renderer of `custom` layers
+   * @param onMarkerClick Called with the feature of a clicked marker or cluster
+   */
+  constructor(
+    map: google.maps.Map,
+    featureStates: FeatureStateStore,
+    customLayers: CustomLayerRenderer,
+    apiKey?: string,
+    onMarkerClick?: (feature: RenderedFeature) => void
+  ) {
     this.map = map;
+    this.featureStates = featureStates;
+    this.customLayers = customLayers;
+    this.onMarkerClick = onMarkerClick;
+    this.renderer = new DeckRenderer({
+      createOverlay: () => {
+        const overlay = new GoogleMapsOverlay({ interleaved: true });
+        overlay.setMap(this.map);
+        return overlay;
+      },
+      // `google://` sources load Google Photorealistic 3D Tiles
+      resolveUrl: (url) => (url.startsWith('google://') ? GOOGLE_3D_TILES_URL : url),
+      getLoadOptions: (url) =>
+        url.startsWith(GOOGLE_3D_TILES_URL) && apiKey
+          ? { fetch: { headers: { 'X-GOOG-API-KEY': apiKey } } }
+          : undefined,
+      getFeatureState: (layerId, feature) => featureStates.getForFeature(layerId, feature),
+    });
+
+    // An empty overlay gives access to the projection to container pixels
+    this.projectionOverlay = new google.maps.OverlayView();
+    this.projectionOverlay.onAdd = () => {};
+    this.projectionOverlay.draw = () => {};
+    this.projectionOverlay.onRemove = () => {};
+    this.projectionOverlay.setMap(map);
   }
 
   /**
@@ -29,36 +137,41 @@ export class GoogleMapsLayerManager {
       return;
     }
 
-    switch (config.type) {
-      case 'geojson':
-        await this.addGeoJSONLayer(config);
-        break;
-      case 'markers':
-      case 'points':
-        await this.addMarkersLayer(config);
-        break;
-      case 'heatmap':
-        await this.addHeatmapLayer(config);
-        break;
-      case 'polygons':
-        await this.addPolygonLayer(config);
-        break;
-      default:
-        console.warn(`Layer type ${config.type} not yet implemented for Google Maps`);
+    this.layers.set(config.id, config);
+    if (this.customLayers.canRender(config)) {
+      await this.customLayers.addLayer(config);
+    } else if (this.renderer.canRender(config)) {
+      await this.renderer.addLayer(config);
+    } else if (getClusterOptions(config)) {
+      await this.addClusterLayer(config);
+    } else {
+      switch (config.type) {
+        case 'markers':
+          await this.addMarkersLayer(config);
+          break;
+        case 'lines':
+          await this.addLinesLayer(config);
+          break;
+        case 'raster-tiles':
+          this.addRasterTileLayer(config);
+          break;
+        case 'vector-tiles':
+          this.addVectorTileLayer(config);
+          break;
+        default:
+          console.warn(`Layer type ${config.type} not yet implemented for Google Maps`);
+      }
     }
 
-    this.layers.set(config.id, config);
+    this.applyLayerOrder();
   }
 
   /**
    * Remove a layer from the map
    */
   removeLayer(layerId: string): void {
-    const dataLayer = this.dataLayers.get(layerId);
-    if (dataLayer) {
-      dataLayer.setMap(null);
-      this.dataLayers.delete(layerId);
-    }
+    this.renderer.removeLayer(layerId);
+    this.customLayers.removeLayer(layerId);
 
     const markers = this.markers.get(layerId);
     if (markers) {
@@ -66,84 +179,256 @@ export class GoogleMapsLayerManager {
       this.markers.delete(layerId);
     }
 
+    const polylines = this.polylines.get(layerId);
+    if (polylines) {
+      polylines.forEach(polyline => polyline.setMap(null));
+      this.polylines.delete(layerId);
+    }
+
+    const tileOverlay = this.tileOverlays.get(layerId);
+    if (tileOverlay) {
+      this.hideTileOverlay(tileOverlay);
+      this.tileOverlays.delete(layerId);
+    }
+
+    const vectorTileLayer = this.vectorTileLayers.get(layerId);
+    if (vectorTileLayer) {
+      vectorTileLayer.destroy();
+      this.vectorTileLayers.delete(layerId);
+    }
+
+    const clusterLayer = this.clusterLayers.get(layerId);
+    if (clusterLayer) {
+      clusterLayer.destroy();
+      this.clusterLayers.delete(layerId);
+    }
+
+    this.loads.cancel(layerId);
+    this.sourceFeatures.delete(layerId);
     this.layers.delete(layerId);
   }
 
   /**
    * Update a layer
+   * Layers drawn by the deck.gl renderer keep their data when it is unchanged;
+   * custom layers keeping their hooks are drawn again. Native overlays are
+   * only created again when their type, source, options or zoom range changed;
+   * otherwise they are restyled, filtered or shown in place, keeping their
+   * loaded data and position in the layer order.
    */
   async updateLayer(layerId: string, config: LayerConfig): Promise<void> {
-    this.removeLayer(layerId);
-    await this.addLayer(config);
+    const renderer = [this.renderer, this.customLayers].find(
+      (candidate) => candidate.hasLayer(layerId) && candidate.canRender(config)
+    );
+    if (renderer) {
+      this.layers.set(layerId, config);
+      await renderer.updateLayer(config);
+      return;
+    }
+
+    // Layers the deck.gl renderer can no longer draw become native overlays
+    const previous = this.layers.get(layerId);
+    const changes = previous && diffLayerConfig(previous, config);
+    if (!changes || changes.source || this.renderer.hasLayer(layerId)) {
+      this.removeLayer(layerId);
+      await this.addLayer(config);
+      return;
+    }
+
+    this.layers.set(layerId, config);
+    if (this.loads.has(layerId)) {
+      return;
+    }
+    if (changes.filter) {
+      this.redrawFeatures(config);
+    } else if (changes.style) {
+      this.restyleLayer(config);
+    }
+    if (changes.visibility) {
+      this.setLayerVisibility(layerId, config.visible !== false);
+    }
   }
 
   /**
    * Set layer visibility
    */
   setLayerVisibility(layerId: string, visible: boolean): void {
-    const dataLayer = this.dataLayers.get(layerId);
-    if (dataLayer) {
-      dataLayer.setMap(visible ? this.map : null);
+    const layer = this.layers.get(layerId);
+    if (layer && this.loads.has(layerId)) {
+      this.layers.set(layerId, { ...layer, visible });
+      return;
+    }
+    if (layer && this.renderer.hasLayer(layerId)) {
+      this.renderer.updateLayer({ ...layer, visible });
+    }
+    if (layer && this.customLayers.hasLayer(layerId)) {
+      this.customLayers.updateLayer({ ...layer, visible });
     }
 
     const markers = this.markers.get(layerId);
     if (markers) {
       markers.forEach(marker => marker.map = visible ? this.map : null);
     }
+
+    const polylines = this.polylines.get(layerId);
+    if (polylines) {
+      polylines.forEach(polyline => polyline.setMap(visible ? this.map : null));
+    }
+
+    const tileOverlay = this.tileOverlays.get(layerId);
+    if (tileOverlay) {
+      this.hideTileOverlay(tileOverlay);
+      if (visible) {
+        this.map.overlayMapTypes.push(tileOverlay);
+        this.applyLayerOrder();
+      }
+    }
+
+    this.vectorTileLayers.get(layerId)?.setVisible(visible);
+    this.clusterLayers.get(layerId)?.setVisible(visible);
+  }
+
+  /**
+   * Stack the layers in the given order
+   * @param order Layer IDs from bottom to top
+   */
+  setLayerOrder(order: string[]): void {
+    this.order = order;
+    this.applyLayerOrder();
+  }
+
+  /**
+   * Restyle a feature after its state changed
+   * Markers keep their pins.
+   */
+  applyFeatureState(layerId: string, featureId: FeatureId): void {
+    const config = this.layers.get(layerId);
+    if (!config) return;
+
+    if (this.renderer.hasLayer(layerId)) {
+      this.renderer.applyFeatureState(layerId);
+    }
+    if (this.customLayers.hasLayer(layerId)) {
+      this.customLayers.applyFeatureState(layerId);
+    }
+    this.polylines.get(layerId)?.forEach((polyline) => {
+      const feature = this.polylineFeatures.get(polyline);
+      if (feature && getFeatureId(feature) === featureId) {
+        polyline.setOptions(
+          this.toPolylineOptions(config, feature.properties, this.featureStates.get(layerId, featureId))
+        );
+      }
+    });
+    this.vectorTileLayers.get(layerId)?.applyFeatureState(featureId);
+    this.clusterLayers.get(layerId)?.applyFeatureState(featureId);
+  }
+
+  /**
+   * Get the points of a cluster in a clustered layer
+   */
+  getClusterLeaves(layerId: string, clusterId: number, limit?: number, offset?: number): Feature[] {
+    return this.clusterLayers.get(layerId)?.getLeaves(clusterId, limit, offset) ?? [];
+  }
+
+  /**
+   * Get the features drawn by some layers at a screen point or in a screen box
+   * deck.gl layers are picked by deck.gl; native overlays are hit-tested.
+   * @param layerIds IDs of the layers to pick from
+   */
+  pickFeatures(geometry: ScreenPoint | ScreenBox, layerIds: string[]): RenderedFeature[] {
+    const features = [...this.customLayers.pickFeatures(geometry), ...this.renderer.pickFeatures(geometry)];
+
+    if (!this.projectionOverlay.getProjection()) {
+      return features;
+    }
+    const project = (position: Position) => this.project(position);
+
+    layerIds.forEach((layerId) => {
+      const config = this.layers.get(layerId);
+      if (config && !this.renderer.hasLayer(layerId)) {
+        // Features drawn later are on top
+        features.push(...pickFeatures(config, this.getDrawnFeatures(layerId), geometry, project).reverse());
+      }
+    });
+    return features;
+  }
+
+  /**
+   * Project a GeoJSON position to the map container
+   * Returns undefined until the map has drawn its first frame.
+   */
+  project([lng, lat]: Position): ScreenPoint | undefined {
+    const point = this.projectionOverlay
+      .getProjection()
+      ?.fromLatLngToContainerPixel(new google.maps.LatLng(lat, lng));
+    return point ? [point.x, point.y] : undefined;
+  }
+
+  /**
+   * Unproject a point of the map container to a GeoJSON position
+   * Returns undefined until the map has drawn its first frame.
+   */
+  unproject([x, y]: ScreenPoint): Position | undefined {
+    const latLng = this.projectionOverlay
+      .getProjection()
+      ?.fromContainerPixelToLatLng(new google.maps.Point(x, y));
+    return latLng ? [latLng.lng(), latLng.lat()] : undefined;
+  }
+
+  /**
+   * Get the features of a layer's loaded data
+   */
+  getSourceFeatures(layerId: string): Feature[] {
+    if (this.renderer.hasLayer(layerId)) {
+      return this.renderer.getFeatures(layerId);
+    }
+    return this.vectorTileLayers.get(layerId)?.getFeatures() ?? this.sourceFeatures.get(layerId) ?? [];
   }
 
   /**
    * Destroy all layers
    */
   destroy(): void {
-    this.dataLayers.forEach(layer => layer.setMap(null));
+    this.renderer.destroy();
+    this.customLayers.destroy();
     this.markers.forEach(markerArray =>
       markerArray.forEach(marker => marker.map = null)
     );
-    this.dataLayers.clear();
+    this.polylines.forEach(polylineArray =>
+      polylineArray.forEach(polyline => polyline.setMap(null))
+    );
     this.markers.clear();
+    this.polylines.clear();
+    this.tileOverlays.forEach(tileOverlay => this.hideTileOverlay(tileOverlay));
+    this.tileOverlays.clear();
+    this.vectorTileLayers.forEach(vectorTileLayer => vectorTileLayer.destroy());
+    this.vectorTileLayers.clear();
+    this.clusterLayers.forEach(clusterLayer => clusterLayer.destroy());
+    this.clusterLayers.clear();
+    this.loads.clear();
+    this.sourceFeatures.clear();
     this.layers.clear();
+    this.projectionOverlay.setMap(null);
   }
 
   /**
-   * Add GeoJSON layer
+   * Add markers layer
    */
-  private async addGeoJSONLayer(config: LayerConfig): Promise<void> {
-    const dataLayer = new google.maps.Data({ map: this.map });
-
-    // Load data
-    const source = DataSourceFactory.normalizeSource(config.source);
-    const dataSource = DataSourceFactory.createDataSource(source);
-    const geoJSON = await dataSource.load();
-
-    // Add features
-    dataLayer.addGeoJson(geoJSON as any);
-
-    // Apply styling
-    if (config.style) {
-      dataLayer.setStyle({
-        fillColor: config.style.fillColor || '#3388ff',
-        strokeColor: config.style.strokeColor || '#ffffff',
-        strokeWeight: config.style.strokeWidth || 1,
-        fillOpacity: config.style.opacity || 0.6,
-      });
-    }
-
-    this.dataLayers.set(config.id, dataLayer);
+  private async addMarkersLayer(config: LayerConfig): Promise<void> {
+    await this.loads.load(config.id, this.loadSource(config), (geoJSON) => {
+      this.sourceFeatures.set(config.id, toFeatures(geoJSON));
+      this.drawMarkers(this.layers.get(config.id) ?? config);
+    });
   }
 
   /**
-   * Add markers layer
+   * Draw a marker for each point of a markers layer matching its filter
    */
-  private async addMarkersLayer(config: LayerConfig): Promise<void> {
-    const source = DataSourceFactory.normalizeSource(config.source);
-    const dataSource = DataSourceFactory.createDataSource(source);
-    const geoJSON = await dataSource.load() as any;
-
+  private drawMarkers(config: LayerConfig): void {
     const markers: google.maps.marker.AdvancedMarkerElement[] = [];
 
     // Check if map has a Map ID (required for AdvancedMarkerElement)
-    const mapId = (this.map as any).mapId;
+    const mapId = this.map.get('mapId') as string | undefined;
 
     if (!mapId) {
       console.warn(
@@ -153,46 +438,314 @@ export class GoogleMapsLayerManager {
       );
     }
 
-    if (geoJSON.type === 'FeatureCollection') {
-      geoJSON.features.forEach((feature: any) => {
-        if (feature.geometry.type === 'Point') {
-          const [lng, lat] = feature.geometry.coordinates;
-
-          try {
-            // Try to use AdvancedMarkerElement (requires Map ID)
-            const marker = new google.maps.marker.AdvancedMarkerElement({
-              position: { lat, lng },
-              map: this.map,
-              title: feature.properties?.name || feature.properties?.title,
-            });
-            markers.push(marker);
-          } catch (error) {
-            // This will only happen if Advanced Markers fail completely
-            console.error('Failed to create marker:', error);
-          }
+    this.getFilteredFeatures(config).forEach((feature: Feature) => {
+      if (feature.geometry?.type === 'Point') {
+        const [lng, lat] = feature.geometry.coordinates;
+
+        try {
+          // Try to use AdvancedMarkerElement (requires Map ID)
+          const marker = new google.maps.marker.AdvancedMarkerElement({
+            position: { lat, lng },
+            map: config.visible === false ? null : this.map,
+            title: feature.properties?.name || feature.properties?.title,
+          });
+          markers.push(marker);
+        } catch (error) {
+          // This will only happen if Advanced Markers fail completely
+          console.error('Failed to create marker:', error);
         }
+      }
+    });
+
+    this.markers.set(config.id, markers);
+  }
+
+  /**
+   * Add a markers or points layer clustered with `options.cluster`
+   */
+  private async addClusterLayer(config: LayerConfig): Promise<void> {
+    await this.loads.load(config.id, this.loadSource(config), (geoJSON) => {
+      this.sourceFeatures.set(config.id, toFeatures(geoJSON));
+      this.drawClusterLayer(this.layers.get(config.id) ?? config);
+    });
+  }
+
+  /**
+   * Cluster the points of a layer matching its filter
+   */
+  private drawClusterLayer(config: LayerConfig): void {
+    this.clusterLayers.set(
+      config.id,
+      new GoogleClusterLayer(
+        this.map,
+        config,
+        getClusterOptions(config)!,
+        this.getFilteredFeatures(config),
+        (feature) => this.featureStates.getForFeature(config.id, feature),
+        this.onMarkerClick
+      )
+    );
+  }
+
+  /**
+   * Add lines layer
+   * Each LineString, and each part of a MultiLineString, becomes a polyline.
+   */
+  private async addLinesLayer(config: LayerConfig): Promise<void> {
+    await this.loads.load(config.id, this.loadSource(config), (geoJSON) => {
+      this.sourceFeatures.set(config.id, toFeatures(geoJSON));
+      this.drawLines(this.layers.get(config.id) ?? config);
+    });
+  }
+
+  /**
+   * Load the data of a layer's source
+   */
+  private loadSource(config: LayerConfig): Promise<unknown> {
+    const source = DataSourceFactory.normalizeSource(config.source);
+    return DataSourceFactory.createDataSource(source).load();
+  }
+
+  /**
+   * Draw the lines of a lines layer matching its filter
+   */
+  private drawLines(config: LayerConfig): void {
+    const layerOptions = isDataDrivenStyle(config.style) ? undefined : this.toPolylineOptions(config);
+    const polylines: google.maps.Polyline[] = [];
+
+    this.getFilteredFeatures(config).forEach((feature: Feature) => {
+      const state = this.featureStates.getForFeature(config.id, feature);
+      const options = layerOptions && !state ? layerOptions : this.toPolylineOptions(config, feature.properties, state);
+      const geometry = feature.geometry;
+      const lines: number[][][] =
+        geometry?.type === 'LineString' ? [geometry.coordinates] :
+        geometry?.type === 'MultiLineString' ? geometry.coordinates :
+        [];
+
+      lines.forEach((coordinates) => {
+        const polyline = new google.maps.Polyline({
+          ...options,
+          path: coordinates.map(([lng, lat]) => ({ lat, lng })),
+          map: config.visible === false ? null : this.map,
+        });
+        this.polylineFeatures.set(polyline, feature);
+        polylines.push(polyline);
       });
+    });
+
+    this.polylines.set(config.id, polylines);
+  }
+
+  /**
+   * Draw the overlays of a markers, lines or clustered layer again from its
+   * loaded features, after its filter changed
+   */
+  private redrawFeatures(config: LayerConfig): void {
+    const layerId = config.id;
+    const clusterLayer = this.clusterLayers.get(layerId);
+    if (clusterLayer) {
+      clusterLayer.destroy();
+      this.drawClusterLayer(config);
+    }
+    const markers = this.markers.get(layerId);
+    if (markers) {
+      markers.forEach(marker => marker.map = null);
+      this.drawMarkers(config);
+    }
+    const polylines = this.polylines.get(layerId);
+    if (polylines) {
+      polylines.forEach(polyline => polyline.setMap(null));
+      this.drawLines(config);
     }
+    this.applyLayerOrder();
+  }
 
-    this.markers.set(config.id, markers);
+  /**
+   * Restyle the overlays of a layer after its style or opacity changed
+   * Markers keep their pins.
+   */
+  private restyleLayer(config: LayerConfig): void {
+    const layerId = config.id;
+    const layerOptions = isDataDrivenStyle(config.style) ? undefined : this.toPolylineOptions(config);
+    this.polylines.get(layerId)?.forEach((polyline) => {
+      const feature = this.polylineFeatures.get(polyline);
+      const state = feature && this.featureStates.getForFeature(layerId, feature);
+      polyline.setOptions(
+        layerOptions && !state ? layerOptions : this.toPolylineOptions(config, feature?.properties, state)
+      );
+    });
+    this.tileOverlays.get(layerId)?.setOpacity(config.opacity ?? 1);
+    this.vectorTileLayers.get(layerId)?.setConfig(config);
+    this.clusterLayers.get(layerId)?.setConfig(config);
+  }
+
+  /**
+   * Convert a layer style to polyline options
+   * @param properties Properties of the feature data-driven styles are evaluated for
+   * @param state State of the feature, switching on style overrides
+   */
+  private toPolylineOptions(
+    config: LayerConfig,
+    properties?: FeatureProperties | null,
+    state?: FeatureState
+  ): google.maps.PolylineOptions {
+    const style = resolveLayerStyle(applyFeatureState(config.style, state), properties);
+    const strokeColor = style.strokeColor || (DEFAULT_LAYER_STYLE.strokeColor as string);
+    const strokeWeight = style.strokeWidth ?? (DEFAULT_LAYER_STYLE.strokeWidth as number);
+    const strokeOpacity = (style.opacity ?? 1) * (config.opacity ?? 1);
+    const dashed = !!style.dashArray?.some((length) => length > 0);
+
+    const icons = dashed ? toDashIcons(style.dashArray!, strokeOpacity) : [];
+
+    const arrow = (path: google.maps.SymbolPath, offset: string): google.maps.IconSequence => ({
+      icon: {
+        path,
+        scale: Math.max(2, strokeWeight),
+        strokeOpacity,
+        fillColor: strokeColor,
+        fillOpacity: strokeOpacity,
+      },
+      offset,
+    });
+    if (style.arrowheads === 'start' || style.arrowheads === 'both') {
+      icons.push(arrow(google.maps.SymbolPath.BACKWARD_CLOSED_ARROW, '0%'));
+    }
+    if (style.arrowheads === 'end' || style.arrowheads === 'both') {
+      icons.push(arrow(google.maps.SymbolPath.FORWARD_CLOSED_ARROW, '100%'));
+    }
+
+    return {
+      strokeColor,
+      strokeWeight,
+      // Dashed lines are drawn entirely by their icons
+      strokeOpacity: dashed ? 0 : strokeOpacity,
+      icons,
+      // Let mouse events reach the map, which picks the line's feature
+      clickable: false,
+    };
   }
 
   /**
-   * Add heatmap layer
+   * Add a raster tile layer from an XYZ, TMS or quadkey URL template
    */
-  private async addHeatmapLayer(config: LayerConfig): Promise<void> {
-    console.warn('Heatmap layer requires visualization library - not yet fully implemented');
+  private addRasterTileLayer(config: LayerConfig): void {
+    const template = createTileTemplate(DataSourceFactory.normalizeSource(config.source));
+    // Tiles larger than 256px cover the area of a 256px tile one zoom level up
+    const zoomOffset = Math.log2(template.tileSize / TILE_SIZE);
 
-    // For now, render as markers
-    // In production, you would use google.maps.visualization.HeatmapLayer
-    await this.addMarkersLayer(config);
+    const tileOverlay = new google.maps.ImageMapType({
+      name: config.id,
+      tileSize: new google.maps.Size(template.tileSize, template.tileSize),
+      opacity: config.opacity ?? 1,
+      getTileUrl: (coord, zoom) => {
+        const z = zoom - zoomOffset;
+        const count = Math.pow(2, z);
+        if (
+          coord.y < 0 ||
+          coord.y >= count ||
+          !isZoomInRange(zoom, config.minZoom, config.maxZoom) ||
+          !isZoomInRange(z, template.minZoom, template.maxZoom)
+        ) {
+          return null;
+        }
+        // Wrap tiles around the antimeridian
+        const x = ((coord.x % count) + count) % count;
+        return getTileUrl(template, x, coord.y, z);
+      },
+    });
+
+    if (config.visible !== false) {
+      this.map.overlayMapTypes.push(tileOverlay);
+    }
+
+    this.tileOverlays.set(config.id, tileOverlay);
   }
 
   /**
-   * Add polygon layer
+   * Add a Mapbox Vector Tile layer from a `{z}/{x}/{y}` URL template
    */
-  private async addPolygonLayer(config: LayerConfig): Promise<void> {
-    // Use Data layer for polygons
-    await this.addGeoJSONLayer(config);
+  private addVectorTileLayer(config: LayerConfig): void {
+    const template = createTileTemplate(DataSourceFactory.normalizeSource(config.source));
+    this.vectorTileLayers.set(
+      config.id,
+      new GoogleVectorTileLayer(this.map, config, template, (featureId) => this.featureStates.get(config.id, featureId))
+    );
+  }
+
+  /**
+   * Get the features a layer drawn with native overlays currently shows
+   */
+  private getDrawnFeatures(layerId: string): Feature[] {
+    const clusterLayer = this.clusterLayers.get(layerId);
+    if (clusterLayer) {
+      return clusterLayer.getRenderedFeatures();
+    }
+    const vectorTileLayer = this.vectorTileLayers.get(layerId);
+    if (vectorTileLayer) {
+      return vectorTileLayer.getFeatures();
+    }
+
+    const config = this.layers.get(layerId);
+    const features = config ? this.getFilteredFeatures(config) : [];
+    if (this.markers.has(layerId)) {
+      return features.filter((feature) => feature.geometry?.type === 'Point');
+    }
+    if (this.polylines.has(layerId)) {
+      return features.filter(
+        (feature) => feature.geometry?.type === 'LineString' || feature.geometry?.type === 'MultiLineString'
+      );
+    }
+    return [];
+  }
+
+  /**
+   * Get the loaded features of a layer matching its filter
+   */
+  private getFilteredFeatures(config: LayerConfig): Feature[] {
+    return (this.sourceFeatures.get(config.id) ?? []).filter((feature) => matchesFilter(feature, config.filter));
+  }
+
+  /**
+   * Stack the layers in the layer order
+   * deck.gl layers are ordered within their overlay and native overlays by
+   * z-index. Raster tile overlays are ordered among themselves; Google Maps
+   * draws them below all other overlays.
+   */
+  private applyLayerOrder(): void {
+    this.renderer.setLayerOrder(this.order);
+    this.customLayers.setLayerOrder(this.order);
+
+    this.order.forEach((layerId, index) => {
+      const zIndex = index + 1;
+      this.markers.get(layerId)?.forEach(marker => marker.zIndex = zIndex);
+      this.polylines.get(layerId)?.forEach(polyline => polyline.setOptions({ zIndex }));
+      this.vectorTileLayers.get(layerId)?.setZIndex(zIndex);
+      this.clusterLayers.get(layerId)?.setZIndex(zIndex);
+    });
+
+    // Re-adding a tile overlay reloads its tiles, so only reorder when needed
+    const overlays = this.map.overlayMapTypes;
+    const ordered = this.order
+      .map(layerId => this.tileOverlays.get(layerId))
+      .filter((tileOverlay): tileOverlay is google.maps.ImageMapType =>
+        !!tileOverlay && overlays.getArray().includes(tileOverlay)
+      );
+    const current = overlays.getArray().filter(overlay => ordered.includes(overlay as google.maps.ImageMapType));
+    if (current.some((overlay, i) => overlay !== ordered[i])) {
+      ordered.forEach(tileOverlay => this.hideTileOverlay(tileOverlay));
+      ordered.forEach(tileOverlay => overlays.push(tileOverlay));
+    }
+  }
+
+  /**
+   * Remove a tile overlay from the map's overlay map types
+   */
+  private hideTileOverlay(tileOverlay: google.maps.ImageMapType): void {
+    const overlays = this.map.overlayMapTypes;
+    for (let i = overlays.getLength() - 1; i >= 0; i--) {
+      if (overlays.getAt(i) === tileOverlay) {
+        overlays.removeAt(i);
+      }
+    }
   }
 }
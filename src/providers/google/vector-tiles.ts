@@ -0,0 +1,289 @@
+/**
+ * Google Maps vector tile layer
+ * Loads Mapbox Vector Tiles for the visible area and renders them in a Data layer
+ */
+
+import type { Feature } from 'geojson';
+import type { LayerConfig, FeatureProperties, FeatureId, FeatureState } from '../../core/types';
+import type { TileTemplate, TileCoordinates } from '../../core/tiles';
+import { getTileUrl, getTilesInBounds, isZoomInRange } from '../../core/tiles';
+import { decodeVectorTile, vectorTileLayerToGeoJSON, getSourceLayerStyle } from '../../core/mvt';
+import { resolveLayerStyle } from '../../core/expressions';
+import { DEFAULT_LAYER_STYLE } from '../../core/config';
+import { applyFeatureState } from '../../core/feature-state';
+
+/**
+ * Vector tile layer on a Google map
+ *
+ * Tiles are loaded for the visible area whenever the map becomes idle and
+ * dropped once they leave it. Only the source layers named in
+ * `style.sourceLayers` (or `options.sourceLayer`) are rendered when set.
+ * Features are not clickable themselves, so mouse events reach the map and
+ * pick them from there. Feature state restyles the features through style overrides.
+ */
+export class GoogleVectorTileLayer {
+  private map: google.maps.Map;
+  private config: LayerConfig;
+  private template: TileTemplate;
+  private dataLayer: google.maps.Data;
+  private tiles: Map<string, google.maps.Data.Feature[]> = new Map();
+  private visibleTiles: Set<string> = new Set();
+  private pendingTiles: Set<string> = new Set();
+  private sourceLayers: WeakMap<google.maps.Data.Feature, string> = new WeakMap();
+  private featureIds: WeakMap<google.maps.Data.Feature, FeatureId> = new WeakMap();
+  private getFeatureState: (featureId: FeatureId) => FeatureState | undefined;
+  private idleListener: google.maps.MapsEventListener;
+  private zIndex?: number;
+
+  /**
+   * @param getFeatureState Get the state of a feature
+   */
+  constructor(
+    map: google.maps.Map,
+    config: LayerConfig,
+    template: TileTemplate,
+    getFeatureState: (featureId: FeatureId) => FeatureState | undefined
+  ) {
+    this.map = map;
+    this.config = config;
+    this.template = template;
+    this.getFeatureState = getFeatureState;
+
+    this.dataLayer = new google.maps.Data();
+    this.dataLayer.setStyle((feature) => this.getFeatureStyle(feature));
+    this.setVisible(config.visible !== false);
+
+    this.idleListener = map.addListener('idle', () => this.update());
+    this.update();
+  }
+
+  /**
+   * Show or hide the layer
+   */
+  setVisible(visible: boolean): void {
+    this.dataLayer.setMap(visible ? this.map : null);
+  }
+
+  /**
+   * Set the stacking order of the layer's features among other overlays
+   */
+  setZIndex(zIndex: number): void {
+    this.zIndex = zIndex;
+    this.restyle();
+  }
+
+  /**
+   * Restyle the layer after its style or opacity changed
+   * Loaded tiles are kept unless other source layers are rendered.
+   */
+  setConfig(config: LayerConfig): void {
+    const renderedLayers = JSON.stringify(this.getRenderedSourceLayers());
+    this.config = config;
+
+    if (JSON.stringify(this.getRenderedSourceLayers()) !== renderedLayers) {
+      this.tiles.forEach((features) => features.forEach((feature) => this.dataLayer.remove(feature)));
+      this.tiles.clear();
+      this.pendingTiles.clear();
+      this.update();
+    }
+    this.restyle();
+  }
+
+  /**
+   * Restyle the features with an ID after their state changed
+   * Features split across tiles are all restyled.
+   */
+  applyFeatureState(featureId: FeatureId): void {
+    this.tiles.forEach((tileFeatures) =>
+      tileFeatures.forEach((feature) => {
+        if (this.featureIds.get(feature) === featureId) {
+          this.dataLayer.overrideStyle(feature, this.getFeatureStyle(feature));
+        }
+      })
+    );
+  }
+
+  /**
+   * Get the features of the loaded tiles as GeoJSON
+   */
+  getFeatures(): Feature[] {
+    const features: Feature[] = [];
+    this.tiles.forEach((tileFeatures) =>
+      tileFeatures.forEach((feature) => {
+        const featureId = this.featureIds.get(feature);
+        feature.toGeoJson((geoJSON) =>
+          features.push(featureId === undefined ? (geoJSON as Feature) : { ...(geoJSON as Feature), id: featureId })
+        );
+      })
+    );
+    return features;
+  }
+
+  /**
+   * Remove the layer and stop loading tiles
+   */
+  destroy(): void {
+    this.idleListener.remove();
+    this.dataLayer.setMap(null);
+    this.tiles.clear();
+    this.visibleTiles.clear();
+    this.pendingTiles.clear();
+  }
+
+  /**
+   * Load the tiles covering the visible area and drop the others
+   */
+  private update(): void {
+    const zoom = this.map.getZoom();
+    const bounds = this.map.getBounds();
+    if (zoom === undefined || !bounds) {
+      return;
+    }
+
+    const { minZoom = 0, maxZoom = 22 } = this.template;
+    const z = Math.max(minZoom, Math.min(maxZoom, Math.round(zoom)));
+    const sw = bounds.getSouthWest();
+    const ne = bounds.getNorthEast();
+
+    const tiles = isZoomInRange(zoom, this.config.minZoom, this.config.maxZoom)
+      ? getTilesInBounds([sw.lng(), sw.lat(), ne.lng(), ne.lat()], z)
+      : [];
+    this.visibleTiles = new Set(tiles.map((tile) => this.getTileKey(tile)));
+
+    this.tiles.forEach((features, key) => {
+      if (!this.visibleTiles.has(key)) {
+        features.forEach((feature) => this.dataLayer.remove(feature));
+        this.tiles.delete(key);
+      }
+    });
+
+    tiles.forEach((tile) => {
+      const key = this.getTileKey(tile);
+      if (!this.tiles.has(key) && !this.pendingTiles.has(key)) {
+        this.loadTile(tile, key);
+      }
+    });
+  }
+
+  /**
+   * Fetch, decode and add one tile
+   */
+  private async loadTile(tile: TileCoordinates, key: string): Promise<void> {
+    this.pendingTiles.add(key);
+
+    try {
+      const response = await fetch(getTileUrl(this.template, tile.x, tile.y, tile.z));
+      if (!response.ok) {
+        // Servers commonly answer 404 for empty tiles
+        if (response.status !== 404) {
+          console.warn(`Failed to load vector tile ${key}: ${response.statusText}`);
+        }
+        return;
+      }
+
+      const vectorTile = decodeVectorTile(await response.arrayBuffer());
+      if (!this.pendingTiles.has(key) || !this.visibleTiles.has(key)) {
+        return;
+      }
+
+      const renderedLayers = this.getRenderedSourceLayers();
+      const features: google.maps.Data.Feature[] = [];
+
+      Object.values(vectorTile).forEach((layer) => {
+        if (renderedLayers && !renderedLayers.includes(layer.name)) return;
+
+        const geoJSON = vectorTileLayerToGeoJSON(layer, tile);
+        // Drop feature ids; features crossing tile edges share them and would replace each other
+        const added = this.dataLayer.addGeoJson({
+          ...geoJSON,
+          features: geoJSON.features.map(({ id: _id, ...feature }) => feature),
+        });
+
+        added.forEach((feature, index) => {
+          this.sourceLayers.set(feature, layer.name);
+          const featureId = geoJSON.features[index].id;
+          if (featureId !== undefined) {
+            this.featureIds.set(feature, featureId);
+          }
+        });
+        features.push(...added);
+      });
+
+      this.tiles.set(key, features);
+    } catch (error) {
+      console.error(`Failed to load vector tile ${key}:`, error);
+    } finally {
+      this.pendingTiles.delete(key);
+    }
+  }
+
+  /**
+   * Style all features again
+   * Overrides would keep the previous style; the style function covers feature state.
+   */
+  private restyle(): void {
+    this.dataLayer.revertStyle();
+    this.dataLayer.setStyle((feature) => this.getFeatureStyle(feature));
+  }
+
+  /**
+   * Source layers to render, or undefined for all of them
+   */
+  private getRenderedSourceLayers(): string[] | undefined {
+    if (this.config.style?.sourceLayers) {
+      return Object.keys(this.config.style.sourceLayers);
+    }
+    const sourceLayer = this.config.options?.sourceLayer as string | undefined;
+    return sourceLayer ? [sourceLayer] : undefined;
+  }
+
+  /**
+   * Style a feature with the style of its source layer and its state's overrides
+   * Style expressions are evaluated against the feature's properties.
+   */
+  private getFeatureStyle(feature: google.maps.Data.Feature): google.maps.Data.StyleOptions {
+    const properties: FeatureProperties = {};
+    feature.forEachProperty((value, name) => {
+      properties[name] = value;
+    });
+
+    const featureId = this.featureIds.get(feature);
+    const style = resolveLayerStyle(
+      applyFeatureState(
+        getSourceLayerStyle(this.config.style, this.sourceLayers.get(feature) ?? ''),
+        featureId === undefined ? undefined : this.getFeatureState(featureId)
+      ),
+      properties
+    );
+    const layerOpacity = this.config.opacity ?? 1;
+    const fillColor = style.fillColor || (DEFAULT_LAYER_STYLE.fillColor as string);
+    const strokeColor = style.strokeColor || (DEFAULT_LAYER_STYLE.strokeColor as string);
+    const strokeWeight = style.strokeWidth ?? (DEFAULT_LAYER_STYLE.strokeWidth as number);
+    const fillOpacity = (style.opacity ?? 0.6) * layerOpacity;
+
+    return {
+      fillColor,
+      fillOpacity,
+      strokeColor,
+      strokeWeight,
+      strokeOpacity: layerOpacity,
+      zIndex: this.zIndex,
+      clickable: false,
+      icon: {
+        path: google.maps.SymbolPath.CIRCLE,
+        scale: style.radius ?? (DEFAULT_LAYER_STYLE.radius as number),
+        fillColor,
+        fillOpacity,
+        strokeColor,
+        strokeWeight,
+      },
+    };
+  }
+
+  /**
+   * Key identifying a tile
+   */
+  private getTileKey(tile: TileCoordinates): string {
+    return `${tile.z}/${tile.x}/${tile.y}`;
+  }
+}
@@ -4,3 +4,7 @@
  */
 
 export * from './google';
+export * from './mock';
+export * from './osm';
+export * from './mapbox';
+export * from './cesium';
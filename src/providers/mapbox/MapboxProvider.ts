@@ -0,0 +1,289 @@
+/**
+ * Mapbox Provider
+ * Implementation of IMapProvider for Mapbox GL / MapLibre GL
+ */
+
+import type * as MapLibre from 'maplibre-gl';
+import type { Feature } from 'geojson';
+import { BaseMapProvider } from '../../core/provider';
+import type {
+  MapConfig,
+  ViewState,
+  CameraOptions,
+  BoundingBox,
+  ProviderCapabilities,
+  Coordinates,
+  Coordinates3D,
+  ScreenPoint,
+} from '../../core/types';
+import { CustomLayerRenderer } from '../../renderers/custom';
+import { loadGLLibrary } from './loader';
+import { MapboxEventMapper } from './events';
+import { MapboxLayerManager } from './layers';
+import { MAPBOX_CAPABILITIES } from './capabilities';
+
+/**
+ * Default GL style (MapLibre demo tiles, no API key required)
+ */
+export const DEFAULT_GL_STYLE = 'https://demotiles.maplibre.org/style.json';
+
+/**
+ * Mapbox Provider implementation
+ *
+ * Uses `maplibre-gl` by default. Supported `providerOptions`:
+ * - `library`: an already loaded Mapbox GL compatible module (e.g. `mapboxgl`)
+ * - `style`: style URL or style object
+ * - `terrain`: TileJSON URL of a `raster-dem` source, enabled when `enable3D` is set
+ * - `terrainExaggeration`: terrain exaggeration factor
+ *
+ * `apiKey` is passed to the library as its access token when provided.
+ */
+export class MapboxProvider extends BaseMapProvider {
+  readonly name = 'mapbox';
+  readonly capabilities: ProviderCapabilities = MAPBOX_CAPABILITIES;
+
+  private map?: MapLibre.Map;
+  private eventMapper?: MapboxEventMapper;
+  private layerManager?: MapboxLayerManager;
+
+  /**
+   * Initialize the Mapbox provider
+   */
+  async initialize(config: MapConfig): Promise<void> {
+    this.validateConfig(config);
+    this.config = config;
+
+    const options = config.providerOptions || {};
+
+    // Load the GL library
+    const gl = await loadGLLibrary(options.library);
+    if (config.apiKey) {
+      (gl as unknown as { accessToken?: string }).accessToken = config.apiKey;
+    }
+
+    // Resolve container
+    this.container = this.resolveContainer(config.container);
+
+    const center = config.center || config.viewState?.center || [0, 0];
+
+    // Create map instance
+    this.map = new gl.Map({
+      container: this.container,
+      style: (options.style as string | MapLibre.StyleSpecification | undefined) || DEFAULT_GL_STYLE,
+      center: this.coordsToLngLat(center),
+      zoom: config.zoom ?? config.viewState?.zoom ?? 2,
+      bearing: config.viewState?.bearing ?? 0,
+      pitch: config.viewState?.pitch ?? (config.enable3D ? 45 : 0),
+    });
+
+    // Style layers can only be added once the style is loaded
+    await new Promise<void>((resolve, reject) => {
+      this.map!.once('load', () => resolve());
+      this.map!.once('error', (e: { error?: Error }) => {
+        if (!this.ready) {
+          reject(e.error ?? new Error('Failed to load map style'));
+        }
+      });
+    });
+
+    if (config.enable3D && options.terrain) {
+      this.map.addSource('terrain-dem', {
+        type: 'raster-dem',
+        url: options.terrain as string,
+      });
+      this.map.setTerrain({
+        source: 'terrain-dem',
+        exaggeration: (options.terrainExaggeration as number | undefined) ?? 1,
+      });
+    }
+
+    // Initialize layer manager
+    const customLayers = new CustomLayerRenderer({
+      container: this.container,
+      getViewState: () => this.getViewState(),
+      projection: this,
+      getFeatureState: (layerId, featureId) => this.featureStates.get(layerId, featureId),
+    });
+    this.layerManager = new MapboxLayerManager(gl, this.map, this.featureStates, customLayers);
+
+    // Set up event mapping
+    this.eventMapper = new MapboxEventMapper(
+      this.map,
+      (event) => {
+        this.emit(event.type, event);
+      },
+      (point) => this.queryRenderedFeatures(point)
+    );
+
+    this.ready = true;
+  }
+
+  /**
+   * Destroy the map instance
+   */
+  destroy(): void {
+    if (this.eventMapper) {
+      this.eventMapper.destroy();
+    }
+    if (this.layerManager) {
+      this.layerManager.destroy();
+    }
+    if (this.map) {
+      this.map.remove();
+    }
+    this.map = undefined;
+    this.ready = false;
+  }
+
+  /**
+   * Get current view state
+   */
+  getViewState(): ViewState {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const center = this.map.getCenter();
+
+    return {
+      center: [center.lat, center.lng],
+      zoom: this.map.getZoom(),
+      bearing: this.map.getBearing(),
+      pitch: this.map.getPitch(),
+    };
+  }
+
+  /**
+   * Set view state
+   */
+  setViewState(viewState: Partial<ViewState>, options?: CameraOptions): void {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const cameraOptions: MapLibre.CameraOptions = {};
+
+    if (viewState.center) {
+      cameraOptions.center = this.coordsToLngLat(viewState.center);
+    }
+    if (viewState.zoom !== undefined) {
+      cameraOptions.zoom = viewState.zoom;
+    }
+    if (viewState.bearing !== undefined) {
+      cameraOptions.bearing = viewState.bearing;
+    }
+    if (viewState.pitch !== undefined) {
+      cameraOptions.pitch = viewState.pitch;
+    }
+
+    if (options?.duration) {
+      // Animated transition
+      this.map.easeTo({
+        ...cameraOptions,
+        duration: options.duration,
+        ...(options.easing && { easing: options.easing }),
+      });
+    } else {
+      // Immediate transition
+      this.map.jumpTo(cameraOptions);
+    }
+  }
+
+  /**
+   * Get current bounds
+   */
+  getBounds(): BoundingBox {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const bounds = this.map.getBounds();
+    return [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()];
+  }
+
+  /**
+   * Fit map to bounds
+   */
+  fitBounds(bounds: BoundingBox, options?: CameraOptions): void {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const [west, south, east, north] = bounds;
+    this.map.fitBounds(
+      [
+        [west, south],
+        [east, north],
+      ],
+      {
+        duration: options?.duration ?? 0,
+        ...(options?.bearing !== undefined && { bearing: options.bearing }),
+        ...(options?.pitch !== undefined && { pitch: options.pitch }),
+      }
+    );
+  }
+
+  /**
+   * Project coordinates to the map container
+   */
+  project(coordinates: Coordinates): ScreenPoint | undefined {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const point = this.map.project([coordinates[1], coordinates[0]]);
+    return [point.x, point.y];
+  }
+
+  /**
+   * Unproject a point of the map container to coordinates
+   */
+  unproject(point: ScreenPoint): Coordinates | undefined {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const { lat, lng } = this.map.unproject(point);
+    return [lat, lng];
+  }
+
+  /**
+   * Get the layer manager drawing the layers
+   */
+  protected getLayerManager(): MapboxLayerManager | undefined {
+    return this.layerManager;
+  }
+
+  /**
+   * Get the points of a cluster in a clustered layer
+   */
+  async getClusterLeaves(layerId: string, clusterId: number, limit?: number, offset?: number): Promise<Feature[]> {
+    if (!this.layerManager) {
+      throw new Error('Layer manager not initialized');
+    }
+    return this.layerManager.getClusterLeaves(layerId, clusterId, limit, offset);
+  }
+
+  /**
+   * Resize the map
+   */
+  resize(): void {
+    if (this.map) {
+      this.map.resize();
+    }
+  }
+
+  /**
+   * Get the underlying GL map instance
+   */
+  getMapInstance(): MapLibre.Map | undefined {
+    return this.map;
+  }
+
+  /**
+   * Convert config coordinates [lat, lng] to GL [lng, lat]
+   */
+  private coordsToLngLat(coords: Coordinates | Coordinates3D): [number, number] {
+    return [coords[1], coords[0]];
+  }
+}
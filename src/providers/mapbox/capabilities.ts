@@ -0,0 +1,28 @@
+/**
+ * Mapbox / MapLibre GL provider capabilities
+ */
+
+import type { ProviderCapabilities } from '../../core/types';
+
+/**
+ * Capabilities of the Mapbox / MapLibre GL provider
+ */
+export const MAPBOX_CAPABILITIES: ProviderCapabilities = {
+  supports3D: true,
+  supportsVectorTiles: true,
+  supports3DTiles: false,
+  supportsCustomProjections: false,
+  supportsTerrain: true,
+  requiresApiKey: false,
+  layerTypes: [
+    'geojson',
+    'polygons',
+    'lines',
+    'points',
+    'markers',
+    'heatmap',
+    'raster-tiles',
+    'vector-tiles',
+    'custom',
+  ],
+};
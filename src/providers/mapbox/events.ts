@@ -0,0 +1,133 @@
+/**
+ * Mapbox Event Mapper
+ * Maps Mapbox GL / MapLibre GL events to Universal Map Component events
+ */
+
+import type * as MapLibre from 'maplibre-gl';
+import type { MapEvent, MapEventType, Coordinates, RenderedFeature } from '../../core/types';
+import { createMapEvent } from '../../core/events';
+
+/**
+ * Events passed to GL listeners
+ */
+type GLEvent = MapLibre.MapMouseEvent | MapLibre.MapLibreEvent;
+
+/**
+ * GL events forwarded as pointer events
+ */
+const POINTER_EVENTS: Array<[string, MapEventType]> = [
+  ['click', 'click'],
+  ['dblclick', 'dblclick'],
+  ['contextmenu', 'contextmenu'],
+  ['mousemove', 'mousemove'],
+  ['mouseover', 'mouseenter'],
+  ['mouseout', 'mouseleave'],
+];
+
+/**
+ * GL events forwarded as camera events
+ */
+const CAMERA_EVENTS: Array<[string, MapEventType]> = [
+  ['zoomstart', 'zoomstart'],
+  ['zoom', 'zoom'],
+  ['zoomend', 'zoomend'],
+  ['movestart', 'movestart'],
+  ['move', 'move'],
+  ['moveend', 'moveend'],
+  ['rotate', 'rotate'],
+  ['pitch', 'pitch'],
+];
+
+/**
+ * Event mapper for Mapbox GL / MapLibre GL
+ */
+export class MapboxEventMapper {
+  private map: MapLibre.Map;
+  private listeners: Array<[string, (e: GLEvent) => void]> = [];
+  private eventCallback: (event: MapEvent) => void;
+  private pickFeatures?: (point: [number, number]) => RenderedFeature[];
+
+  /**
+   * @param pickFeatures Get the features drawn at a screen position, added to pointer events
+   */
+  constructor(
+    map: MapLibre.Map,
+    eventCallback: (event: MapEvent) => void,
+    pickFeatures?: (point: [number, number]) => RenderedFeature[]
+  ) {
+    this.map = map;
+    this.eventCallback = eventCallback;
+    this.pickFeatures = pickFeatures;
+    this.setupEventListeners();
+  }
+
+  /**
+   * Set up all event listeners
+   */
+  private setupEventListeners(): void {
+    // Pointer events
+    POINTER_EVENTS.forEach(([glEvent, type]) => {
+      this.addListener(glEvent, (e) => {
+        if (!('lngLat' in e)) return;
+        const point: [number, number] | undefined = e.point ? [e.point.x, e.point.y] : undefined;
+        this.eventCallback(
+          createMapEvent(type, this.map, {
+            lngLat: this.glLngLatToCoords(e.lngLat),
+            point,
+            originalEvent: e.originalEvent,
+            ...(point && this.pickFeatures && { features: this.pickFeatures(point) }),
+          })
+        );
+      });
+    });
+
+    // Zoom, movement, rotation and tilt events
+    CAMERA_EVENTS.forEach(([glEvent, type]) => {
+      this.addListener(glEvent, () => {
+        this.eventCallback(
+          createMapEvent(type, this.map, {
+            lngLat: this.glLngLatToCoords(this.map.getCenter()),
+          })
+        );
+      });
+    });
+
+    // Map loaded event
+    this.addListener('load', () => {
+      this.eventCallback(createMapEvent('load', this.map));
+    });
+
+    // Error event
+    this.addListener('error', () => {
+      this.eventCallback(createMapEvent('error', this.map));
+    });
+  }
+
+  /**
+   * Add a listener and track it for cleanup
+   */
+  private addListener(eventName: string, handler: (e: GLEvent) => void): void {
+    this.map.on(eventName, handler);
+    this.listeners.push([eventName, handler]);
+  }
+
+  /**
+   * Convert GL LngLat to our Coordinates format
+   */
+  private glLngLatToCoords(
+    lngLat: MapLibre.LngLat | null | undefined
+  ): Coordinates | undefined {
+    if (!lngLat) return undefined;
+    return [lngLat.lat, lngLat.lng];
+  }
+
+  /**
+   * Clean up all event listeners
+   */
+  destroy(): void {
+    this.listeners.forEach(([eventName, handler]) => {
+      this.map.off(eventName, handler);
+    });
+    this.listeners = [];
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Mapbox Provider
+ * Exports for Mapbox GL / MapLibre GL integration
+ */
+
+export { MapboxProvider, DEFAULT_GL_STYLE } from './MapboxProvider';
+export { MAPBOX_CAPABILITIES } from './capabilities';
+export { loadGLLibrary } from './loader';
+export type { GLLibrary } from './loader';
+export { MapboxEventMapper } from './events';
+export { MapboxLayerManager } from './layers';
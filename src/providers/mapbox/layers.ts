@@ -0,0 +1,885 @@
+/**
+ * Mapbox Layer Manager
+ * Translates LayerConfig into GL sources and style layers
+ */
+
+import type * as MapLibre from 'maplibre-gl';
+import type { Feature, FeatureCollection } from 'geojson';
+import type {
+  LayerConfig,
+  LayerStyle,
+  DataSource,
+  StyleValue,
+  RenderedFeature,
+  ScreenPoint,
+  ScreenBox,
+  FeatureId,
+} from '../../core/types';
+import type { IProviderLayerManager } from '../../core/provider';
+import { DataSourceFactory, PendingLayerLoads } from '../../core/data-source';
+import { DEFAULT_LAYER_STYLE } from '../../core/config';
+import { isStyleExpression, resolveLayerStyle } from '../../core/expressions';
+import { createTileTemplate, expandTileTemplate } from '../../core/tiles';
+import { getSourceLayerStyle } from '../../core/mvt';
+import { DEFAULT_CLUSTER_STYLE, getClusterOptions } from '../../core/clustering';
+import type { ClusterOptions } from '../../core/clustering';
+import { PICK_RADIUS, isScreenBox, pickFeatures, toFeatures, matchesFilter } from '../../core/picking';
+import { diffLayerConfig } from '../../core/layer';
+import { FEATURE_STATE_STYLES, applyFeatureState, getFeatureId } from '../../core/feature-state';
+import type { FeatureStateStore } from '../../core/feature-state';
+import type { CustomLayerRenderer } from '../../renderers/custom';
+import type { GLLibrary } from './loader';
+
+/**
+ * Kinds of GL style layers a LayerConfig can expand to
+ */
+type StyleLayerKind = 'fill' | 'fill-extrusion' | 'line' | 'circle' | 'heatmap' | 'raster';
+
+/**
+ * Geometry filters for each vector style layer kind
+ */
+const GEOMETRY_FILTERS: Partial<Record<StyleLayerKind, MapLibre.FilterSpecification>> = {
+  fill: ['match', ['geometry-type'], ['Polygon', 'MultiPolygon'], true, false],
+  'fill-extrusion': ['match', ['geometry-type'], ['Polygon', 'MultiPolygon'], true, false],
+  line: ['match', ['geometry-type'], ['LineString', 'MultiLineString', 'Polygon', 'MultiPolygon'], true, false],
+  circle: ['match', ['geometry-type'], ['Point', 'MultiPoint'], true, false],
+};
+
+/**
+ * Opacity paint property for each style layer kind
+ */
+const OPACITY_PROPERTIES: Record<StyleLayerKind, string> = {
+  fill: 'fill-opacity',
+  'fill-extrusion': 'fill-extrusion-opacity',
+  line: 'line-opacity',
+  circle: 'circle-opacity',
+  heatmap: 'heatmap-opacity',
+  raster: 'raster-opacity',
+};
+
+/**
+ * Paint properties GL cannot vary with feature state
+ */
+const CONSTANT_PAINT_PROPERTIES = ['fill-extrusion-opacity', 'line-dasharray'];
+
+/**
+ * Multiply a numeric style value by a factor
+ */
+function scaleStyleValue(value: StyleValue<number>, factor: number): unknown {
+  return isStyleExpression(value) ? ['*', value, factor] : value * factor;
+}
+
+/**
+ * Layer manager for Mapbox GL / MapLibre GL
+ *
+ * Feature state is set as GL feature state, which paint expressions of
+ * styles with state overrides read. GL needs numeric feature ids, so the
+ * features of GeoJSON sources get their index as GL id. Custom layers are
+ * drawn by the custom layer renderer above the map canvas.
+ */
+export class MapboxLayerManager implements IProviderLayerManager {
+  private gl: GLLibrary;
+  private map: MapLibre.Map;
+  private layers: Map<string, LayerConfig> = new Map();
+  private styleLayers: Map<string, string[]> = new Map();
+  private markers: Map<string, MapLibre.Marker[]> = new Map();
+  private sourceFeatures: Map<string, Feature[]> = new Map();
+  /** GL ids of the features of GeoJSON sources, by feature ID */
+  private glFeatureIds: Map<string, Map<FeatureId, number[]>> = new Map();
+  private loads: PendingLayerLoads = new PendingLayerLoads();
+  private featureStates: FeatureStateStore;
+  private customLayers: CustomLayerRenderer;
+  private clusterClickHandlers: Map<string, [string, (e: MapLibre.MapLayerMouseEvent) => void]> = new Map();
+  private order: string[] = [];
+
+  /**
+   * @param featureStates State of the features, set as GL feature state
+   * @param customLayers Renderer of `custom` layers
+   */
+  constructor(gl: GLLibrary, map: MapLibre.Map, featureStates: FeatureStateStore, customLayers: CustomLayerRenderer) {
+    this.gl = gl;
+    this.map = map;
+    this.featureStates = featureStates;
+    this.customLayers = customLayers;
+  }
+
+  /**
+   * Add a layer to the map
+   */
+  async addLayer(config: LayerConfig): Promise<void> {
+    if (this.layers.has(config.id)) {
+      console.warn(`Layer ${config.id} already exists, updating instead`);
+      await this.updateLayer(config.id, config);
+      return;
+    }
+
+    this.layers.set(config.id, config);
+    const clusterOptions = getClusterOptions(config);
+    if (clusterOptions) {
+      await this.addClusterLayer(config, clusterOptions);
+    } else {
+      switch (config.type) {
+        case 'geojson':
+          await this.addGeoJSONLayer(config, ['fill', 'line', 'circle']);
+          break;
+        case 'polygons':
+          await this.addGeoJSONLayer(
+            config,
+            config.style?.extrusionHeight !== undefined ? ['fill-extrusion'] : ['fill', 'line']
+          );
+          break;
+        case 'lines':
+          await this.addGeoJSONLayer(config, ['line']);
+          break;
+        case 'points':
+          await this.addGeoJSONLayer(config, ['circle']);
+          break;
+        case 'markers':
+          await this.addMarkersLayer(config);
+          break;
+        case 'heatmap':
+          await this.addGeoJSONLayer(config, ['heatmap']);
+          break;
+        case 'raster-tiles':
+          this.addRasterTileLayer(config);
+          break;
+        case 'vector-tiles':
+          this.addVectorTileLayer(config);
+          break;
+        case 'custom':
+          await this.customLayers.addLayer(config);
+          break;
+        default:
+          console.warn(`Layer type ${config.type} not yet implemented for Mapbox`);
+      }
+    }
+
+    this.applyLayerOrder();
+
+    // A new source starts without feature state
+    this.featureStates.getLayer(config.id).forEach((_, featureId) => this.applyFeatureState(config.id, featureId));
+  }
+
+  /**
+   * Remove a layer from the map
+   */
+  removeLayer(layerId: string): void {
+    const clusterClickHandler = this.clusterClickHandlers.get(layerId);
+    if (clusterClickHandler) {
+      this.map.off('click', ...clusterClickHandler);
+      this.clusterClickHandlers.delete(layerId);
+    }
+
+    const styleLayerIds = this.styleLayers.get(layerId);
+    if (styleLayerIds) {
+      styleLayerIds.forEach((id) => {
+        if (this.map.getLayer(id)) {
+          this.map.removeLayer(id);
+        }
+      });
+      this.styleLayers.delete(layerId);
+    }
+
+    if (this.map.getSource(layerId)) {
+      this.map.removeSource(layerId);
+    }
+
+    const markers = this.markers.get(layerId);
+    if (markers) {
+      markers.forEach((marker) => marker.remove());
+      this.markers.delete(layerId);
+    }
+
+    this.customLayers.removeLayer(layerId);
+    this.loads.cancel(layerId);
+    this.sourceFeatures.delete(layerId);
+    this.glFeatureIds.delete(layerId);
+    this.layers.delete(layerId);
+  }
+
+  /**
+   * Update a layer
+   * Custom layers keeping their hooks are drawn again. Other layers are only
+   * created again when their type, source, options or zoom range changed, or
+   * when the style needs other style layers; otherwise paint properties,
+   * source data filtered from the loaded features and visibility are updated in place.
+   */
+  async updateLayer(layerId: string, config: LayerConfig): Promise<void> {
+    if (this.customLayers.hasLayer(layerId) && this.customLayers.canRender(config)) {
+      await this.customLayers.updateLayer(config);
+      this.layers.set(layerId, config);
+      return;
+    }
+
+    const previous = this.layers.get(layerId);
+    const changes = previous && diffLayerConfig(previous, config);
+    if (
+      !changes ||
+      changes.source ||
+      (changes.style && this.getStyleLayerKey(previous) !== this.getStyleLayerKey(config))
+    ) {
+      this.removeLayer(layerId);
+      await this.addLayer(config);
+      return;
+    }
+
+    this.layers.set(layerId, config);
+    if (this.loads.has(layerId)) {
+      return;
+    }
+    if (this.markers.has(layerId)) {
+      if (changes.filter || changes.style) {
+        this.redrawMarkers(config);
+      }
+    } else {
+      if (changes.filter) {
+        this.applyFilter(config);
+      }
+      if (changes.style) {
+        this.restyleLayer(previous, config);
+      }
+    }
+    if (changes.visibility) {
+      this.setLayerVisibility(layerId, config.visible !== false);
+    }
+  }
+
+  /**
+   * Set layer visibility
+   */
+  setLayerVisibility(layerId: string, visible: boolean): void {
+    const config = this.layers.get(layerId);
+    if (config && this.loads.has(layerId)) {
+      this.layers.set(layerId, { ...config, visible });
+      return;
+    }
+
+    this.styleLayers.get(layerId)?.forEach((id) => {
+      this.map.setLayoutProperty(id, 'visibility', visible ? 'visible' : 'none');
+    });
+
+    this.markers.get(layerId)?.forEach((marker) => {
+      marker.getElement().style.display = visible ? '' : 'none';
+    });
+
+    if (config && this.customLayers.hasLayer(layerId)) {
+      this.customLayers.updateLayer({ ...config, visible });
+    }
+  }
+
+  /**
+   * Stack the layers in the given order
+   * @param order Layer IDs from bottom to top
+   */
+  setLayerOrder(order: string[]): void {
+    this.order = order;
+    this.customLayers.setLayerOrder(order);
+    this.applyLayerOrder();
+  }
+
+  /**
+   * Set a feature's state as GL feature state
+   * Only the states with style overrides are set. Vector tile features are
+   * addressed by their tile feature id in every styled source layer; markers keep their color.
+   */
+  applyFeatureState(layerId: string, featureId: FeatureId): void {
+    if (this.customLayers.hasLayer(layerId)) {
+      this.customLayers.applyFeatureState(layerId);
+      return;
+    }
+
+    const config = this.layers.get(layerId);
+    if (!config || !this.map.getSource(layerId)) return;
+
+    const state = this.featureStates.get(layerId, featureId) ?? {};
+    const glState = Object.fromEntries(FEATURE_STATE_STYLES.map((key) => [key, !!state[key]]));
+
+    if (config.type === 'vector-tiles') {
+      this.getSourceLayers(config).forEach((sourceLayer) =>
+        this.map.setFeatureState({ source: layerId, sourceLayer, id: featureId }, glState)
+      );
+      return;
+    }
+    this.glFeatureIds.get(layerId)?.get(featureId)?.forEach((id) =>
+      this.map.setFeatureState({ source: layerId, id }, glState)
+    );
+  }
+
+  /**
+   * Get the points of a cluster in a clustered layer
+   */
+  async getClusterLeaves(layerId: string, clusterId: number, limit = 10, offset = 0): Promise<Feature[]> {
+    const config = this.layers.get(layerId);
+    const source = this.map.getSource(layerId) as MapLibre.GeoJSONSource | undefined;
+    if (!config || !getClusterOptions(config) || !source) {
+      return [];
+    }
+    return source.getClusterLeaves(clusterId, limit, offset);
+  }
+
+  /**
+   * Get the features drawn by some layers at a screen point or in a screen box
+   * Style layers are queried by GL; markers are hit-tested; custom layers pick their own features.
+   * @param layerIds IDs of the layers to pick from
+   */
+  pickFeatures(geometry: ScreenPoint | ScreenBox, layerIds: string[]): RenderedFeature[] {
+    const owners = new Map<string, string>();
+    layerIds.forEach((layerId) => {
+      this.styleLayers.get(layerId)?.forEach((id) => {
+        if (this.map.getLayer(id)) owners.set(id, layerId);
+      });
+    });
+
+    const box: ScreenBox = isScreenBox(geometry)
+      ? geometry
+      : [
+          [geometry[0] - PICK_RADIUS, geometry[1] - PICK_RADIUS],
+          [geometry[0] + PICK_RADIUS, geometry[1] + PICK_RADIUS],
+        ];
+    const glFeatures = owners.size > 0
+      ? this.map.queryRenderedFeatures(box, { layers: Array.from(owners.keys()) })
+      : [];
+
+    // A feature drawn by several style layers, e.g. a polygon's fill and
+    // outline, is listed once. Features without an id are told apart by their properties.
+    const keys = new Set<string>();
+    const features: RenderedFeature[] = this.customLayers.pickFeatures(geometry);
+    glFeatures.forEach((glFeature) => {
+      const layerId = owners.get(glFeature.layer.id)!;
+      const key = JSON.stringify([layerId, glFeature.sourceLayer, glFeature.id ?? glFeature.properties]);
+      if (!keys.has(key)) {
+        keys.add(key);
+        features.push({ ...this.toGeoJSONFeature(glFeature, layerId), layerId });
+      }
+    });
+
+    const project = ([lng, lat]: number[]): ScreenPoint => {
+      const point = this.map.project([lng, lat]);
+      return [point.x, point.y];
+    };
+    layerIds.forEach((layerId) => {
+      const config = this.layers.get(layerId);
+      if (config && this.markers.has(layerId)) {
+        const points = (this.sourceFeatures.get(layerId) ?? []).filter(
+          (feature) => feature.geometry?.type === 'Point' && matchesFilter(feature, config.filter)
+        );
+        // Markers added later are on top
+        features.push(...pickFeatures(config, points, geometry, project).reverse());
+      }
+    });
+
+    return features;
+  }
+
+  /**
+   * Get the features of a layer's loaded data
+   * Vector tile layers are queried by GL for the tiles loaded so far, in
+   * every source layer the layer styles.
+   */
+  getSourceFeatures(layerId: string): Feature[] {
+    const config = this.layers.get(layerId);
+    if (config?.type !== 'vector-tiles' || !this.map.getSource(layerId)) {
+      return this.sourceFeatures.get(layerId) ?? [];
+    }
+
+    return this.getSourceLayers(config).flatMap((name) =>
+      this.map.querySourceFeatures(layerId, { sourceLayer: name }).map((glFeature) => this.toGeoJSONFeature(glFeature))
+    );
+  }
+
+  /**
+   * Destroy all layers
+   */
+  destroy(): void {
+    Array.from(this.layers.keys()).forEach((layerId) => this.removeLayer(layerId));
+    this.customLayers.destroy();
+    this.sourceFeatures.clear();
+    this.glFeatureIds.clear();
+    this.layers.clear();
+  }
+
+  /**
+   * Convert a feature returned by a GL query to plain GeoJSON
+   * Features of GeoJSON sources are looked up by their GL id, giving back
+   * their own ID and unclipped geometry; clusters are returned as they are.
+   * @param layerId Layer of the feature's source
+   */
+  private toGeoJSONFeature(glFeature: MapLibre.MapGeoJSONFeature, layerId?: string): Feature {
+    const features = layerId !== undefined && this.glFeatureIds.has(layerId) ? this.sourceFeatures.get(layerId) : undefined;
+    const feature = features && !glFeature.properties?.cluster ? features[glFeature.id as number] : undefined;
+    if (feature) {
+      return feature;
+    }
+
+    return {
+      type: 'Feature',
+      ...(glFeature.id !== undefined && { id: glFeature.id }),
+      geometry: glFeature.geometry,
+      properties: glFeature.properties,
+    };
+  }
+
+  /**
+   * Get the source layers a vector tile layer styles
+   */
+  private getSourceLayers(config: LayerConfig): string[] {
+    const sourceLayer = config.options?.sourceLayer as string | undefined;
+    return config.style?.sourceLayers
+      ? Object.keys(config.style.sourceLayers)
+      : sourceLayer ? [sourceLayer] : [];
+  }
+
+  /**
+   * Give the features of GeoJSON data their index as GL id
+   * The features are kept as source features, with their GL ids by feature ID.
+   * @returns Data for the GL source
+   */
+  private indexFeatures(config: LayerConfig, geoJSON: unknown): FeatureCollection {
+    const layerId = config.id;
+    const features = toFeatures(geoJSON);
+    this.sourceFeatures.set(layerId, features);
+
+    const ids = new Map<FeatureId, number[]>();
+    features.forEach((feature, index) => {
+      const featureId = getFeatureId(feature);
+      if (featureId !== undefined) {
+        ids.set(featureId, [...(ids.get(featureId) ?? []), index]);
+      }
+    });
+    this.glFeatureIds.set(layerId, ids);
+    return this.getSourceData(config);
+  }
+
+  /**
+   * Get the data of a layer's GL source: its indexed features matching its filter
+   * Features keep their index among all source features as GL id.
+   */
+  private getSourceData(config: LayerConfig): FeatureCollection {
+    const features = (this.sourceFeatures.get(config.id) ?? [])
+      .map((feature, index) => ({ ...feature, id: index }))
+      .filter((feature) => matchesFilter(feature, config.filter));
+    return { type: 'FeatureCollection', features };
+  }
+
+  /**
+   * Replace the data of a layer's GeoJSON source after its filter changed
+   */
+  private applyFilter(config: LayerConfig): void {
+    const source = this.map.getSource(config.id) as MapLibre.GeoJSONSource | undefined;
+    if (source && this.glFeatureIds.has(config.id)) {
+      source.setData(this.getSourceData(config));
+    }
+  }
+
+  /**
+   * Update the paint properties of a layer's style layers after its style or opacity changed
+   * Properties the new style no longer sets are reset to their default.
+   */
+  private restyleLayer(previous: LayerConfig, config: LayerConfig): void {
+    this.styleLayers.get(config.id)?.forEach((id) => {
+      const glLayer = this.map.getLayer(id);
+      if (!glLayer) return;
+
+      if (glLayer.type === 'symbol') {
+        this.map.setPaintProperty(id, 'text-opacity', config.opacity ?? 1);
+        return;
+      }
+
+      const kind = glLayer.type as StyleLayerKind;
+      const previousPaint = this.toPaint(kind, this.getStyleLayerConfig(id, previous, glLayer.sourceLayer));
+      const paint = this.toPaint(kind, this.getStyleLayerConfig(id, config, glLayer.sourceLayer));
+      new Set([...Object.keys(previousPaint), ...Object.keys(paint)]).forEach((property) => {
+        if (JSON.stringify(previousPaint[property]) !== JSON.stringify(paint[property])) {
+          this.map.setPaintProperty(id, property, paint[property]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get the configuration a style layer of a layer is painted with
+   * Cluster circles use the cluster style and the style layers of a vector
+   * tile source layer the style of that source layer.
+   */
+  private getStyleLayerConfig(id: string, config: LayerConfig, sourceLayer?: string): LayerConfig {
+    const clusterOptions = getClusterOptions(config);
+    if (clusterOptions && id === `${config.id}-cluster-circle`) {
+      return { ...config, style: { ...DEFAULT_CLUSTER_STYLE, ...clusterOptions.style } };
+    }
+    if (sourceLayer && config.style?.sourceLayers) {
+      return { ...config, style: getSourceLayerStyle(config.style, sourceLayer) };
+    }
+    return config;
+  }
+
+  /**
+   * Key of the style layers a layer's style expands to
+   * Styles with another key need other style layers and cannot be updated in place.
+   */
+  private getStyleLayerKey(config: LayerConfig): string {
+    return JSON.stringify([config.style?.extrusionHeight !== undefined, Object.keys(config.style?.sourceLayers ?? {})]);
+  }
+
+  /**
+   * Stack the style layers in the layer order
+   * Going from the top layer down, each layer's style layers are moved below
+   * those of the layer above. Markers are stacked by z-index above all style layers.
+   */
+  private applyLayerOrder(): void {
+    let beforeId: string | undefined;
+
+    for (let index = this.order.length - 1; index >= 0; index--) {
+      const layerId = this.order[index];
+      const styleLayerIds = (this.styleLayers.get(layerId) ?? []).filter((id) => this.map.getLayer(id));
+      styleLayerIds.forEach((id) => this.map.moveLayer(id, beforeId));
+      beforeId = styleLayerIds[0] ?? beforeId;
+
+      this.markers.get(layerId)?.forEach((marker) => {
+        marker.getElement().style.zIndex = String(index);
+      });
+    }
+  }
+
+  /**
+   * Add a GeoJSON source rendered by one style layer per kind
+   */
+  private async addGeoJSONLayer(config: LayerConfig, kinds: StyleLayerKind[]): Promise<void> {
+    await this.loads.load(config.id, this.loadSource(config), (geoJSON) => {
+      const latest = this.layers.get(config.id) ?? config;
+      this.map.addSource(config.id, {
+        type: 'geojson',
+        data: this.indexFeatures(latest, geoJSON),
+      });
+
+      this.addStyleLayers(latest, kinds);
+    });
+  }
+
+  /**
+   * Add a markers or points layer clustered by GL
+   */
+  private async addClusterLayer(config: LayerConfig, options: ClusterOptions): Promise<void> {
+    await this.loads.load(config.id, this.loadSource(config), (geoJSON) =>
+      this.drawClusterLayer(this.layers.get(config.id) ?? config, options, geoJSON)
+    );
+  }
+
+  /**
+   * Draw a clustered layer from its loaded data
+   * Clusters are circles labelled with their point count when the map style
+   * has glyphs; unclustered points, including markers, are drawn as circles.
+   */
+  private drawClusterLayer(config: LayerConfig, options: ClusterOptions, geoJSON: unknown): void {
+    this.map.addSource(config.id, {
+      type: 'geojson',
+      data: this.indexFeatures(config, geoJSON),
+      cluster: true,
+      clusterRadius: options.radius ?? 60,
+      clusterMaxZoom: options.maxZoom ?? 16,
+      clusterMinPoints: options.minPoints ?? 2,
+    });
+
+    const clusterIds = this.createStyleLayers(
+      { ...config, style: { ...DEFAULT_CLUSTER_STYLE, ...options.style } },
+      ['circle'],
+      `${config.id}-cluster`,
+      ['has', 'point_count']
+    );
+    const pointIds = this.createStyleLayers(config, ['circle'], config.id, ['!', ['has', 'point_count']]);
+    const ids = [...clusterIds, ...pointIds];
+
+    // Labels need the glyphs of the map style
+    if (this.map.getStyle()?.glyphs) {
+      const labelId = `${config.id}-cluster-count`;
+      this.map.addLayer({
+        id: labelId,
+        type: 'symbol',
+        source: config.id,
+        filter: ['has', 'point_count'],
+        ...(config.minZoom !== undefined && { minzoom: config.minZoom }),
+        ...(config.maxZoom !== undefined && { maxzoom: config.maxZoom }),
+        layout: {
+          visibility: config.visible === false ? 'none' : 'visible',
+          'text-field': ['get', 'point_count_abbreviated'],
+          'text-size': 12,
+          'text-allow-overlap': true,
+        },
+        paint: {
+          'text-color': '#ffffff',
+          'text-opacity': config.opacity ?? 1,
+        },
+      });
+      ids.push(labelId);
+    }
+    this.styleLayers.set(config.id, ids);
+
+    if (options.zoomOnClick !== false) {
+      const onClusterClick = async (e: MapLibre.MapLayerMouseEvent) => {
+        const feature = e.features?.[0];
+        const clusterSource = this.map.getSource(config.id) as MapLibre.GeoJSONSource | undefined;
+        if (!feature || !clusterSource || feature.geometry.type !== 'Point') return;
+
+        const zoom = await clusterSource.getClusterExpansionZoom(feature.properties.cluster_id);
+        this.map.easeTo({ center: feature.geometry.coordinates as [number, number], zoom });
+      };
+      this.map.on('click', clusterIds[0], onClusterClick);
+      this.clusterClickHandlers.set(config.id, [clusterIds[0], onClusterClick]);
+    }
+  }
+
+  /**
+   * Add a raster tile layer
+   */
+  private addRasterTileLayer(config: LayerConfig): void {
+    const template = createTileTemplate(DataSourceFactory.normalizeSource(config.source));
+
+    this.map.addSource(config.id, {
+      type: 'raster',
+      tiles: expandTileTemplate(template).map((url) => url.replace('{q}', '{quadkey}')),
+      tileSize: template.tileSize,
+      scheme: template.scheme === 'tms' ? 'tms' : 'xyz',
+      ...(template.minZoom !== undefined && { minzoom: template.minZoom }),
+      ...(template.maxZoom !== undefined && { maxzoom: template.maxZoom }),
+    });
+
+    this.addStyleLayers(config, ['raster']);
+  }
+
+  /**
+   * Add a vector tile layer
+   * The URL may be a `{z}/{x}/{y}` template or a TileJSON URL.
+   */
+  private addVectorTileLayer(config: LayerConfig): void {
+    const source = DataSourceFactory.normalizeSource(config.source);
+    const url = this.getTileUrl(source);
+
+    this.map.addSource(
+      config.id,
+      url.includes('{z}') ? { type: 'vector', tiles: [url] } : { type: 'vector', url }
+    );
+
+    const sourceLayerStyles = config.style?.sourceLayers;
+    if (!sourceLayerStyles) {
+      this.addStyleLayers(config, ['fill', 'line', 'circle']);
+      return;
+    }
+
+    // One set of style layers per styled source layer
+    const ids = Object.keys(sourceLayerStyles).flatMap((sourceLayer) =>
+      this.createStyleLayers(
+        {
+          ...config,
+          style: getSourceLayerStyle(config.style, sourceLayer),
+          options: { ...config.options, sourceLayer },
+        },
+        ['fill', 'line', 'circle'],
+        `${config.id}-${sourceLayer}`
+      )
+    );
+    this.styleLayers.set(config.id, ids);
+  }
+
+  /**
+   * Add markers layer
+   */
+  private async addMarkersLayer(config: LayerConfig): Promise<void> {
+    await this.loads.load(config.id, this.loadSource(config), (geoJSON) => {
+      this.sourceFeatures.set(config.id, toFeatures(geoJSON));
+      this.drawMarkers(this.layers.get(config.id) ?? config);
+    });
+  }
+
+  /**
+   * Load the data of a layer's source
+   */
+  private loadSource(config: LayerConfig): Promise<unknown> {
+    const source = DataSourceFactory.normalizeSource(config.source);
+    return DataSourceFactory.createDataSource(source).load();
+  }
+
+  /**
+   * Draw a marker for each point of a markers layer matching its filter
+   */
+  private drawMarkers(config: LayerConfig): void {
+    const markers: MapLibre.Marker[] = [];
+
+    (this.sourceFeatures.get(config.id) ?? []).forEach((feature: Feature) => {
+      if (feature.geometry?.type === 'Point' && matchesFilter(feature, config.filter)) {
+        const [lng, lat] = feature.geometry.coordinates;
+        const marker = new this.gl.Marker({
+          color: resolveLayerStyle(config.style, feature.properties).fillColor,
+          opacity: String(config.opacity ?? 1),
+        })
+          .setLngLat([lng, lat])
+          .addTo(this.map);
+
+        const title = feature.properties?.name || feature.properties?.title;
+        if (title) {
+          marker.getElement().title = title;
+        }
+        if (config.visible === false) {
+          marker.getElement().style.display = 'none';
+        }
+        markers.push(marker);
+      }
+    });
+
+    this.markers.set(config.id, markers);
+  }
+
+  /**
+   * Draw the markers of a layer again from its loaded features
+   * Markers cannot change their color, so restyled layers get new markers.
+   */
+  private redrawMarkers(config: LayerConfig): void {
+    this.markers.get(config.id)?.forEach((marker) => marker.remove());
+    this.drawMarkers(config);
+    this.applyLayerOrder();
+  }
+
+  /**
+   * Add one GL style layer per kind for a source
+   */
+  private addStyleLayers(config: LayerConfig, kinds: StyleLayerKind[]): void {
+    this.styleLayers.set(config.id, this.createStyleLayers(config, kinds, config.id));
+  }
+
+  /**
+   * Create one GL style layer per kind, with ids `${prefix}-${kind}`
+   * @param featureFilter Filter applied in addition to the kind's geometry filter
+   */
+  private createStyleLayers(
+    config: LayerConfig,
+    kinds: StyleLayerKind[],
+    prefix: string,
+    featureFilter?: MapLibre.FilterSpecification
+  ): string[] {
+    const sourceLayer = config.options?.sourceLayer as string | undefined;
+
+    return kinds.map((kind) => {
+      const id = `${prefix}-${kind}`;
+      const geometryFilter = GEOMETRY_FILTERS[kind];
+      const filter = geometryFilter && featureFilter
+        ? ['all', geometryFilter, featureFilter] as MapLibre.FilterSpecification
+        : geometryFilter ?? featureFilter;
+
+      this.map.addLayer({
+        id,
+        type: kind,
+        source: config.id,
+        ...(sourceLayer && kind !== 'raster' && { 'source-layer': sourceLayer }),
+        ...(filter && { filter }),
+        ...(config.minZoom !== undefined && { minzoom: config.minZoom }),
+        ...(config.maxZoom !== undefined && { maxzoom: config.maxZoom }),
+        layout: {
+          visibility: config.visible === false ? 'none' : 'visible',
+        },
+        paint: this.toPaint(kind, config),
+      } as MapLibre.LayerSpecification);
+
+      return id;
+    });
+  }
+
+  /**
+   * Convert a layer style and its state overrides to GL paint properties
+   * Properties the overrides change become `case` expressions on GL feature
+   * state, checking the states in order of precedence.
+   */
+  private toPaint(kind: StyleLayerKind, config: LayerConfig): Record<string, unknown> {
+    const style: LayerStyle = config.style || {};
+    const paint = this.toStylePaint(kind, config, style);
+    const states = FEATURE_STATE_STYLES.filter((state) => style[state]).reverse();
+    if (states.length === 0 || kind === 'heatmap' || kind === 'raster') {
+      return paint;
+    }
+
+    const statePaints = states.map((state) => ({
+      state,
+      paint: this.toStylePaint(kind, config, applyFeatureState(style, { [state]: true })!),
+    }));
+    Object.entries(paint).forEach(([property, value]) => {
+      if (CONSTANT_PAINT_PROPERTIES.includes(property)) return;
+
+      const cases = statePaints
+        .filter((statePaint) => JSON.stringify(statePaint.paint[property]) !== JSON.stringify(value))
+        .flatMap((statePaint) => [['to-boolean', ['feature-state', statePaint.state]], statePaint.paint[property]]);
+      if (cases.length > 0) {
+        paint[property] = ['case', ...cases, value];
+      }
+    });
+    return paint;
+  }
+
+  /**
+   * Convert a layer style to GL paint properties
+   * Style expressions share GL's syntax and are passed through for GL to evaluate.
+   */
+  private toStylePaint(kind: StyleLayerKind, config: LayerConfig, style: LayerStyle): Record<string, unknown> {
+    const layerStyle = resolveLayerStyle(style);
+    const layerOpacity = config.opacity ?? 1;
+    const fillColor = style.fillColor || DEFAULT_LAYER_STYLE.fillColor;
+    const strokeColor = style.strokeColor || DEFAULT_LAYER_STYLE.strokeColor;
+    const strokeWidth = style.strokeWidth ?? DEFAULT_LAYER_STYLE.strokeWidth;
+    const dashUnit = (isStyleExpression(strokeWidth) ? DEFAULT_LAYER_STYLE.strokeWidth : strokeWidth) as number;
+    const opacity = OPACITY_PROPERTIES[kind];
+
+    switch (kind) {
+      case 'fill':
+        return {
+          'fill-color': fillColor,
+          [opacity]: scaleStyleValue(style.opacity ?? 0.6, layerOpacity),
+        };
+      case 'fill-extrusion':
+        return {
+          'fill-extrusion-color': fillColor,
+          'fill-extrusion-height': style.extrusionHeight ?? 0,
+          // Not data-driven in GL
+          [opacity]: (layerStyle.opacity ?? 0.8) * layerOpacity,
+        };
+      case 'line':
+        return {
+          'line-color': strokeColor,
+          'line-width': strokeWidth,
+          // GL dash lengths are in multiples of the line width; data-driven widths use the default
+          ...(style.dashArray?.length && {
+            'line-dasharray': style.dashArray.map((length) => length / dashUnit),
+          }),
+          [opacity]: layerOpacity,
+        };
+      case 'circle':
+        return {
+          'circle-color': fillColor,
+          'circle-radius': style.radius ?? DEFAULT_LAYER_STYLE.radius,
+          'circle-stroke-color': strokeColor,
+          'circle-stroke-width': strokeWidth,
+          [opacity]: scaleStyleValue(style.opacity ?? 1, layerOpacity),
+        };
+      case 'heatmap':
+        return {
+          'heatmap-radius': style.radius ?? 20,
+          'heatmap-intensity': style.intensity ?? 1,
+          'heatmap-weight': ['to-number', ['get', (config.options?.weightProperty as string | undefined) || 'weight'], 1],
+          ...(style.gradient?.length && {
+            'heatmap-color': ['interpolate', ['linear'], ['heatmap-density'], ...style.gradient.flat()],
+          }),
+          [opacity]: (layerStyle.opacity ?? 1) * layerOpacity,
+        };
+      case 'raster':
+        return {
+          [opacity]: layerOpacity,
+        };
+    }
+  }
+
+  /**
+   * Resolve the tile URL template of a tile source
+   */
+  private getTileUrl(source: DataSource): string {
+    const url = source.url ?? (typeof source.data === 'string' ? source.data : undefined);
+    if (!url) {
+      throw new Error('Tile URL template is required');
+    }
+    return url;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * GL Library Loader
+ * Lazily imports MapLibre GL, or accepts an already loaded Mapbox GL compatible module
+ */
+
+import type * as MapLibre from 'maplibre-gl';
+
+/**
+ * A Mapbox GL / MapLibre GL compatible module
+ */
+export type GLLibrary = typeof MapLibre;
+
+let loadPromise: Promise<GLLibrary> | undefined;
+
+/**
+ * Load the GL map library
+ * When `library` is given (e.g. the global `mapboxgl`), it is used as-is.
+ * Otherwise `maplibre-gl` is imported once and shared.
+ */
+export async function loadGLLibrary(library?: unknown): Promise<GLLibrary> {
+  if (library) {
+    return library as GLLibrary;
+  }
+
+  if (!loadPromise) {
+    loadPromise = import('maplibre-gl')
+      .then((module) => {
+        const gl = ((module as unknown as { default?: GLLibrary }).default ?? module) as GLLibrary;
+        if (!gl.Map) {
+          throw new Error('maplibre-gl loaded but Map not available');
+        }
+        return gl;
+      })
+      .catch((error) => {
+        loadPromise = undefined;
+        throw error instanceof Error
+          ? error
+          : new Error('Failed to load maplibre-gl. Install it with "npm install maplibre-gl"');
+      });
+  }
+  return loadPromise;
+}
@@ -0,0 +1,10 @@
+// @vitest-environment jsdom
+import { describe, it, beforeEach, afterEach } from 'vitest';
+import { runProviderConformanceSuite } from '../../testing';
+import { MockMapProvider } from './MockMapProvider';
+
+runProviderConformanceSuite({
+  name: 'mock',
+  createProvider: () => new MockMapProvider(),
+  testApi: { describe, it, beforeEach, afterEach },
+});
@@ -0,0 +1,394 @@
+/**
+ * Mock Map Provider
+ * Headless, in-memory implementation of IMapProvider for tests and offline demos
+ */
+
+import type { Feature } from 'geojson';
+import { BaseMapProvider } from '../../core/provider';
+import type {
+  MapConfig,
+  ViewState,
+  LayerConfig,
+  AddLayerOptions,
+  CameraOptions,
+  BoundingBox,
+  ProviderCapabilities,
+  MapEvent,
+  MapEventType,
+  Coordinates,
+  RenderedFeature,
+  ScreenPoint,
+  ScreenBox,
+} from '../../core/types';
+import { createMapEvent } from '../../core/events';
+import { LayerFactory } from '../../core/layer';
+import { DataSourceFactory } from '../../core/data-source';
+import { matchesFilter, pickFeatures, toFeatures } from '../../core/picking';
+import {
+  DEFAULT_VIEW_STATE,
+  validateZoom,
+  validateBearing,
+  validatePitch,
+} from '../../core/config';
+import { viewportBounds, fitBoundsToViewport, projectToWorld, unprojectFromWorld } from '../../core/projection';
+import { CustomLayerRenderer } from '../../renderers/custom';
+import { MOCK_CAPABILITIES } from './capabilities';
+
+/**
+ * Pointer events that carry the features under the pointer
+ */
+const PICKED_EVENTS: MapEventType[] = ['click', 'dblclick', 'mousemove', 'contextmenu'];
+
+/**
+ * Default virtual viewport size in pixels
+ */
+const DEFAULT_VIEWPORT = { width: 800, height: 600 };
+
+/**
+ * In-memory state exposed as the mock "map instance"
+ */
+export interface MockMapInstance {
+  /** Current view state */
+  viewState: ViewState;
+  /** Virtual viewport size in pixels */
+  viewport: { width: number; height: number };
+  /** Mock data preset from the map configuration */
+  mockData?: string;
+}
+
+/**
+ * Mock Map Provider implementation
+ *
+ * Works without a DOM or API key. The viewport size is read from
+ * `providerOptions.width`/`providerOptions.height`, falling back to the
+ * container's size when one is available, and finally to 800x600.
+ * Custom layers are drawn through their render hooks, on canvases when a
+ * container is available.
+ */
+export class MockMapProvider extends BaseMapProvider {
+  readonly name = 'mock';
+  readonly capabilities: ProviderCapabilities = MOCK_CAPABILITIES;
+
+  private instance?: MockMapInstance;
+  private customLayers?: CustomLayerRenderer;
+
+  /**
+   * Initialize the mock provider
+   */
+  async initialize(config: MapConfig): Promise<void> {
+    this.validateConfig(config);
+    this.config = config;
+
+    // The container is optional here: headless environments have no DOM
+    if (typeof config.container !== 'string') {
+      this.container = config.container;
+    } else if (typeof document !== 'undefined') {
+      this.container = document.getElementById(config.container) ?? undefined;
+    }
+
+    this.instance = {
+      viewState: {
+        ...DEFAULT_VIEW_STATE,
+        ...config.viewState,
+        ...(config.center && { center: [config.center[0], config.center[1]] }),
+        ...(config.zoom !== undefined && { zoom: validateZoom(config.zoom) }),
+      },
+      viewport: this.resolveViewport(config),
+      mockData: config.mockData,
+    };
+    this.customLayers = new CustomLayerRenderer({
+      container: this.container,
+      getViewState: () => this.getViewState(),
+      projection: this,
+      getFeatureState: (layerId, featureId) => this.featureStates.get(layerId, featureId),
+    });
+
+    this.ready = true;
+  }
+
+  /**
+   * Destroy the mock map
+   */
+  destroy(): void {
+    this.customLayers?.destroy();
+    this.customLayers = undefined;
+    this.layers.clear();
+    this.featureStates.clear();
+    this.instance = undefined;
+    this.ready = false;
+  }
+
+  /**
+   * Get current view state
+   */
+  getViewState(): ViewState {
+    return { ...this.getInstance().viewState };
+  }
+
+  /**
+   * Set view state
+   * Changes are applied immediately; animation options are ignored.
+   */
+  setViewState(viewState: Partial<ViewState>, _options?: CameraOptions): void {
+    const instance = this.getInstance();
+    const previous = instance.viewState;
+
+    const next: ViewState = {
+      ...previous,
+      ...(viewState.center && { center: [viewState.center[0], viewState.center[1]] }),
+      ...(viewState.zoom !== undefined && { zoom: validateZoom(viewState.zoom) }),
+      ...(viewState.bearing !== undefined && { bearing: validateBearing(viewState.bearing) }),
+      ...(viewState.pitch !== undefined && { pitch: validatePitch(viewState.pitch) }),
+    };
+    instance.viewState = next;
+
+    this.emitCameraEvents(previous, next);
+    // Without animation frames, custom layers are only drawn on request
+    this.customLayers?.requestRender();
+  }
+
+  /**
+   * Get current bounds, computed from the virtual viewport size
+   */
+  getBounds(): BoundingBox {
+    const { viewState, viewport } = this.getInstance();
+    return viewportBounds(viewState.center, viewState.zoom, viewport.width, viewport.height);
+  }
+
+  /**
+   * Fit map to bounds
+   */
+  fitBounds(bounds: BoundingBox, options?: CameraOptions): void {
+    const { viewport } = this.getInstance();
+    const { center, zoom } = fitBoundsToViewport(bounds, viewport.width, viewport.height);
+    this.setViewState({ center, zoom }, options);
+  }
+
+  /**
+   * Project coordinates to the virtual viewport, which is always north-up
+   */
+  project(coordinates: Coordinates): ScreenPoint | undefined {
+    const { viewState, viewport } = this.getInstance();
+    const [centerX, centerY] = projectToWorld(viewState.center, viewState.zoom);
+    const [x, y] = projectToWorld(coordinates, viewState.zoom);
+    return [x - centerX + viewport.width / 2, y - centerY + viewport.height / 2];
+  }
+
+  /**
+   * Unproject a point of the virtual viewport to coordinates
+   */
+  unproject([x, y]: ScreenPoint): Coordinates | undefined {
+    const { viewState, viewport } = this.getInstance();
+    const [centerX, centerY] = projectToWorld(viewState.center, viewState.zoom);
+    return unprojectFromWorld(
+      [x + centerX - viewport.width / 2, y + centerY - viewport.height / 2],
+      viewState.zoom
+    );
+  }
+
+  /**
+   * Add a layer
+   */
+  async addLayer(layer: LayerConfig, options?: AddLayerOptions): Promise<void> {
+    this.getInstance();
+    LayerFactory.validateLayerConfig(layer);
+    this.insertLayer({ ...layer }, options?.beforeId);
+
+    if (layer.type !== 'custom') {
+      this.customLayers!.removeLayer(layer.id);
+      return this.trackLayerLoad(layer.id, Promise.resolve());
+    }
+
+    // Adds the layer, or replaces a custom layer of the same ID
+    const add = this.customLayers!.updateLayer(this.getRenderedLayer(layer));
+    this.applyLayerOrder();
+    return this.trackLayerLoad(layer.id, add);
+  }
+
+  /**
+   * Remove a layer
+   */
+  removeLayer(layerId: string): void {
+    this.getInstance();
+    this.customLayers!.removeLayer(layerId);
+    this.layers.delete(layerId);
+    this.featureStates.clearLayer(layerId);
+  }
+
+  /**
+   * Update a layer
+   */
+  async updateLayer(layerId: string, updates: Partial<LayerConfig>): Promise<void> {
+    this.getInstance();
+
+    const updatedLayer = this.mergeLayerUpdates(layerId, updates);
+    let update = Promise.resolve();
+    if (updatedLayer.type === 'custom') {
+      LayerFactory.validateLayerConfig(updatedLayer);
+      update = this.customLayers!.updateLayer(this.getRenderedLayer(updatedLayer));
+    } else {
+      this.customLayers!.removeLayer(layerId);
+    }
+
+    this.layers.set(layerId, updatedLayer);
+    this.updateActiveLayers();
+    return this.trackLayerLoad(layerId, update);
+  }
+
+  /**
+   * Resize the virtual viewport
+   * Re-reads the container size when no explicit size was configured.
+   */
+  resize(): void {
+    if (this.instance && this.config) {
+      this.instance.viewport = this.resolveViewport(this.config);
+    }
+  }
+
+  /**
+   * Set the virtual viewport size in pixels
+   */
+  setViewportSize(width: number, height: number): void {
+    this.getInstance().viewport = { width, height };
+  }
+
+  /**
+   * Get the in-memory map state
+   */
+  getMapInstance(): MockMapInstance | undefined {
+    return this.instance;
+  }
+
+  /**
+   * Dispatch a synthetic event to registered handlers
+   * Useful for simulating user interaction in tests. Pointer events with a
+   * `point` and no `features` get the features drawn at that point.
+   */
+  simulateEvent(
+    eventType: MapEventType,
+    data: Partial<Omit<MapEvent, 'type' | 'target'>> = {}
+  ): void {
+    const picked = PICKED_EVENTS.includes(eventType) && data.point && !data.features;
+    this.emit(
+      eventType,
+      createMapEvent(eventType, this.getInstance(), {
+        ...data,
+        ...(picked && { features: this.queryRenderedFeatures(data.point!) }),
+      })
+    );
+  }
+
+  /**
+   * Get the features of inline GeoJSON layers drawn at a screen point or in a screen box
+   * Layers are hit-tested in the virtual viewport, which is always north-up;
+   * custom layers pick their own features.
+   */
+  protected pickRenderedFeatures(geometry: ScreenPoint | ScreenBox, layerIds: string[]): RenderedFeature[] {
+    const project = ([lng, lat]: number[]) => this.project([lat, lng]);
+
+    // Features drawn later are on top
+    const features = layerIds
+      .map((layerId) => this.layers.get(layerId)!)
+      .filter((layer) => layer.type !== 'custom')
+      .flatMap((layer) => {
+        const drawn = this.getSourceFeatures(layer.id).filter((feature) => matchesFilter(feature, layer.filter));
+        return pickFeatures(layer, drawn, geometry, project).reverse();
+      });
+    return [...(this.customLayers?.pickFeatures(geometry) ?? []), ...features];
+  }
+
+  /**
+   * Stack the canvases of custom layers in the layer order
+   */
+  protected applyLayerOrder(): void {
+    this.customLayers?.setLayerOrder(this.getLayerOrder());
+  }
+
+  /**
+   * Show or hide a custom layer whose zoom range the zoom entered or left
+   */
+  protected setRenderedLayerVisibility(layerId: string, visible: boolean): void {
+    const layer = this.layers.get(layerId);
+    if (layer && this.customLayers?.hasLayer(layerId)) {
+      this.customLayers.updateLayer({ ...layer, visible });
+    }
+  }
+
+  /**
+   * Draw a custom layer again after the state of one of its features changed
+   */
+  protected applyFeatureState(layerId: string): void {
+    if (this.customLayers?.hasLayer(layerId)) {
+      this.customLayers.applyFeatureState(layerId);
+    }
+  }
+
+  /**
+   * Get the features of a layer's inline GeoJSON data
+   * Layers loading their data from URLs have no features in the mock.
+   */
+  protected getSourceFeatures(layerId: string): Feature[] {
+    const layer = this.layers.get(layerId);
+    if (!layer) {
+      return [];
+    }
+    const source = DataSourceFactory.normalizeSource(layer.source);
+    return toFeatures(source.type === 'geojson' ? source.data : source);
+  }
+
+  /**
+   * Emit the events a real provider would fire for a camera change
+   */
+  private emitCameraEvents(previous: ViewState, next: ViewState): void {
+    const instance = this.getInstance();
+    const centerChanged =
+      previous.center[0] !== next.center[0] || previous.center[1] !== next.center[1];
+    const zoomChanged = previous.zoom !== next.zoom;
+    const lngLat: Coordinates = [next.center[0], next.center[1]];
+
+    if (!centerChanged && !zoomChanged &&
+        previous.bearing === next.bearing && previous.pitch === next.pitch) {
+      return;
+    }
+
+    this.emit('movestart', createMapEvent('movestart', instance));
+    if (zoomChanged) {
+      this.emit('zoomstart', createMapEvent('zoomstart', instance));
+      this.emit('zoom', createMapEvent('zoom', instance, { lngLat }));
+    }
+    this.emit('move', createMapEvent('move', instance, { lngLat }));
+    if (previous.bearing !== next.bearing) {
+      this.emit('rotate', createMapEvent('rotate', instance));
+    }
+    if (previous.pitch !== next.pitch) {
+      this.emit('pitch', createMapEvent('pitch', instance));
+    }
+    if (zoomChanged) {
+      this.emit('zoomend', createMapEvent('zoomend', instance));
+    }
+    this.emit('moveend', createMapEvent('moveend', instance, { lngLat }));
+  }
+
+  /**
+   * Resolve the virtual viewport size from options or the container
+   */
+  private resolveViewport(config: MapConfig): { width: number; height: number } {
+    const width = config.providerOptions?.width as number | undefined;
+    const height = config.providerOptions?.height as number | undefined;
+
+    return {
+      width: width || this.container?.clientWidth || DEFAULT_VIEWPORT.width,
+      height: height || this.container?.clientHeight || DEFAULT_VIEWPORT.height,
+    };
+  }
+
+  /**
+   * Get the map state, throwing if the provider is not initialized
+   */
+  private getInstance(): MockMapInstance {
+    if (!this.instance) {
+      throw new Error('Map not initialized');
+    }
+    return this.instance;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * mock provider capabilities
+ */
+
+import type { ProviderCapabilities } from '../../core/types';
+
+/**
+ * Capabilities of the mock provider
+ */
+export const MOCK_CAPABILITIES: ProviderCapabilities = {
+  supports3D: true,
+  supportsVectorTiles: true,
+  supports3DTiles: true,
+  supportsCustomProjections: false,
+  supportsTerrain: false,
+  requiresApiKey: false,
+};
@@ -0,0 +1,8 @@
+/**
+ * Mock Map Provider
+ * Exports for the headless mock provider
+ */
+
+export { MockMapProvider } from './MockMapProvider';
+export type { MockMapInstance } from './MockMapProvider';
+export { MOCK_CAPABILITIES } from './capabilities';
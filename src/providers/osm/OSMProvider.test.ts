@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { runProviderConformanceSuite } from '../../testing';
+import { stubFetch } from '../../testing/fetch';
+import type { FetchStub } from '../../testing/fetch';
+import { OSMProvider } from './OSMProvider';
+
+// Leaflet only draws vectors in SVG when the browser can measure SVG elements, which jsdom cannot
+SVGSVGElement.prototype.createSVGRect = () => ({ x: 0, y: 0, width: 0, height: 0 }) as DOMRect;
+
+/**
+ * Give elements the size of the conformance map container
+ * jsdom does no layout, so Leaflet would see a map of 0x0 pixels.
+ */
+function stubElementSize(width: number, height: number): () => void {
+  const prototype = Element.prototype;
+  const descriptors = {
+    clientWidth: Object.getOwnPropertyDescriptor(prototype, 'clientWidth'),
+    clientHeight: Object.getOwnPropertyDescriptor(prototype, 'clientHeight'),
+  };
+  Object.defineProperty(prototype, 'clientWidth', { configurable: true, get: () => width });
+  Object.defineProperty(prototype, 'clientHeight', { configurable: true, get: () => height });
+
+  return () => {
+    Object.defineProperty(prototype, 'clientWidth', descriptors.clientWidth!);
+    Object.defineProperty(prototype, 'clientHeight', descriptors.clientHeight!);
+  };
+}
+
+let restoreElementSize: (() => void) | undefined;
+
+runProviderConformanceSuite({
+  name: 'osm',
+  createProvider: () => new OSMProvider(),
+  setup: () => {
+    restoreElementSize = stubElementSize(800, 600);
+  },
+  teardown: () => restoreElementSize?.(),
+  testApi: { describe, it, beforeEach, afterEach },
+});
+
+describe('osm layer loading', () => {
+  let provider: OSMProvider;
+  let container: HTMLElement;
+  let fetchStub: FetchStub;
+
+  beforeEach(async () => {
+    restoreElementSize = stubElementSize(800, 600);
+    fetchStub = stubFetch();
+    container = document.createElement('div');
+    provider = new OSMProvider();
+    await provider.initialize({ provider: 'osm', container, center: [5, 5], zoom: 3 });
+  });
+
+  afterEach(() => {
+    provider.destroy();
+    fetchStub.restore();
+    restoreElementSize?.();
+  });
+
+  it('draws layers updated while their data loads once, with the update', async () => {
+    const source = { type: 'geojson' as const, data: '/parks.geojson' };
+    const added = provider.addLayer({ id: 'parks', type: 'polygons', source });
+    const updated = provider.updateLayer('parks', { style: { fillColor: '#00ff00' } });
+    fetchStub.respond('/parks.geojson', {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: { type: 'Polygon', coordinates: [[[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]] },
+          properties: {},
+        },
+      ],
+    });
+    await Promise.all([added, updated]);
+
+    const paths = container.querySelectorAll('path.leaflet-interactive');
+    expect(paths).toHaveLength(1);
+    expect(paths[0].getAttribute('fill')).toBe('#00ff00');
+  });
+});
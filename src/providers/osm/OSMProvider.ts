@@ -0,0 +1,270 @@
+/**
+ * OpenStreetMap Provider
+ * Implementation of IMapProvider backed by Leaflet raster tiles
+ */
+
+import type * as Leaflet from 'leaflet';
+import type { Feature, Point } from 'geojson';
+import { BaseMapProvider } from '../../core/provider';
+import type {
+  MapConfig,
+  ViewState,
+  CameraOptions,
+  BoundingBox,
+  ProviderCapabilities,
+  Coordinates,
+  ScreenPoint,
+} from '../../core/types';
+import { createMapEvent } from '../../core/events';
+import { CustomLayerRenderer } from '../../renderers/custom';
+import { loadLeaflet } from './loader';
+import { OSMEventMapper } from './events';
+import { OSMLayerManager } from './layers';
+import { OSM_CAPABILITIES } from './capabilities';
+
+/**
+ * Default OpenStreetMap tile URL template
+ */
+export const DEFAULT_OSM_TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+/**
+ * Default OpenStreetMap attribution
+ */
+export const DEFAULT_OSM_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+/**
+ * OpenStreetMap Provider implementation
+ *
+ * Supported `providerOptions`:
+ * - `tileUrl`: XYZ tile URL template (defaults to the OSM standard tiles)
+ * - `attribution`: attribution HTML for the tile layer
+ * - `subdomains`: subdomains substituted for `{s}`
+ * - `minZoom` / `maxZoom`: zoom limits of the tile layer
+ */
+export class OSMProvider extends BaseMapProvider {
+  readonly name = 'osm';
+  readonly capabilities: ProviderCapabilities = OSM_CAPABILITIES;
+
+  private L?: typeof Leaflet;
+  private map?: Leaflet.Map;
+  private tileLayer?: Leaflet.TileLayer;
+  private eventMapper?: OSMEventMapper;
+  private layerManager?: OSMLayerManager;
+
+  /**
+   * Initialize the OSM provider
+   */
+  async initialize(config: MapConfig): Promise<void> {
+    this.validateConfig(config);
+    this.config = config;
+
+    // Load Leaflet
+    this.L = await loadLeaflet();
+
+    // Resolve container
+    this.container = this.resolveContainer(config.container);
+
+    const options = config.providerOptions || {};
+    const maxZoom = (options.maxZoom as number | undefined) ?? 19;
+
+    // Create map instance
+    this.map = this.L.map(this.container, {
+      center: config.center || config.viewState?.center || [0, 0],
+      zoom: config.zoom ?? config.viewState?.zoom ?? 2,
+      maxZoom,
+      zoomSnap: 0,
+    });
+
+    // Add base tiles
+    this.tileLayer = this.L.tileLayer(
+      (options.tileUrl as string | undefined) || DEFAULT_OSM_TILE_URL,
+      {
+        attribution: (options.attribution as string | undefined) ?? DEFAULT_OSM_ATTRIBUTION,
+        subdomains: (options.subdomains as string | string[] | undefined) ?? 'abc',
+        minZoom: options.minZoom as number | undefined,
+        maxZoom,
+      }
+    ).addTo(this.map);
+
+    // Initialize layer manager
+    const customLayers = new CustomLayerRenderer({
+      container: this.container,
+      getViewState: () => this.getViewState(),
+      projection: this,
+      getFeatureState: (layerId, featureId) => this.featureStates.get(layerId, featureId),
+    });
+    this.layerManager = new OSMLayerManager(this.L, this.map, this.featureStates, customLayers, (feature) => {
+      // Clustered points do not bubble clicks to the map; report them as clicks on their feature
+      const [lng, lat] = (feature.geometry as Point).coordinates;
+      this.emit('click', createMapEvent('click', this.map, { lngLat: [lat, lng], features: [feature] }));
+    });
+
+    // Set up event mapping
+    this.eventMapper = new OSMEventMapper(
+      this.map,
+      (event) => {
+        this.emit(event.type, event);
+      },
+      (point) => this.queryRenderedFeatures(point)
+    );
+
+    this.ready = true;
+  }
+
+  /**
+   * Destroy the map instance
+   */
+  destroy(): void {
+    if (this.eventMapper) {
+      this.eventMapper.destroy();
+    }
+    if (this.layerManager) {
+      this.layerManager.destroy();
+    }
+    if (this.tileLayer) {
+      this.tileLayer.remove();
+    }
+    if (this.map) {
+      this.map.remove();
+    }
+    this.tileLayer = undefined;
+    this.map = undefined;
+    this.ready = false;
+  }
+
+  /**
+   * Get current view state
+   * Leaflet maps are always north-up and flat.
+   */
+  getViewState(): ViewState {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const center = this.map.getCenter();
+
+    return {
+      center: [center.lat, center.lng],
+      zoom: this.map.getZoom(),
+      bearing: 0,
+      pitch: 0,
+    };
+  }
+
+  /**
+   * Set view state
+   * Bearing and pitch are ignored.
+   */
+  setViewState(viewState: Partial<ViewState>, options?: CameraOptions): void {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const center = viewState.center || this.getViewState().center;
+    const zoom = viewState.zoom ?? this.map.getZoom();
+
+    this.map.setView(center, zoom, this.toAnimationOptions(options));
+  }
+
+  /**
+   * Get current bounds
+   */
+  getBounds(): BoundingBox {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const bounds = this.map.getBounds();
+    return [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()];
+  }
+
+  /**
+   * Fit map to bounds
+   */
+  fitBounds(bounds: BoundingBox, options?: CameraOptions): void {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const [west, south, east, north] = bounds;
+    this.map.fitBounds(
+      [
+        [south, west],
+        [north, east],
+      ],
+      this.toAnimationOptions(options)
+    );
+  }
+
+  /**
+   * Project coordinates to the map container
+   */
+  project(coordinates: Coordinates): ScreenPoint | undefined {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const point = this.map.latLngToContainerPoint(coordinates);
+    return [point.x, point.y];
+  }
+
+  /**
+   * Unproject a point of the map container to coordinates
+   */
+  unproject(point: ScreenPoint): Coordinates | undefined {
+    if (!this.map) {
+      throw new Error('Map not initialized');
+    }
+
+    const { lat, lng } = this.map.containerPointToLatLng(point);
+    return [lat, lng];
+  }
+
+  /**
+   * Get the layer manager drawing the layers
+   */
+  protected getLayerManager(): OSMLayerManager | undefined {
+    return this.layerManager;
+  }
+
+  /**
+   * Get the points of a cluster in a clustered layer
+   */
+  async getClusterLeaves(layerId: string, clusterId: number, limit?: number, offset?: number): Promise<Feature[]> {
+    if (!this.layerManager) {
+      throw new Error('Layer manager not initialized');
+    }
+    return this.layerManager.getClusterLeaves(layerId, clusterId, limit, offset);
+  }
+
+  /**
+   * Resize the map
+   */
+  resize(): void {
+    if (this.map) {
+      this.map.invalidateSize();
+    }
+  }
+
+  /**
+   * Get the underlying Leaflet map instance
+   */
+  getMapInstance(): Leaflet.Map | undefined {
+    return this.map;
+  }
+
+  /**
+   * Convert camera options to Leaflet animation options
+   */
+  private toAnimationOptions(options?: CameraOptions): Leaflet.ZoomPanOptions {
+    if (!options?.duration) {
+      return { animate: false };
+    }
+    return {
+      animate: true,
+      duration: options.duration / 1000,
+      easeLinearity: 0.25,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * OpenStreetMap provider capabilities
+ */
+
+import type { ProviderCapabilities } from '../../core/types';
+
+/**
+ * Capabilities of the OpenStreetMap provider
+ */
+export const OSM_CAPABILITIES: ProviderCapabilities = {
+  supports3D: false,
+  supportsVectorTiles: false,
+  supports3DTiles: false,
+  supportsCustomProjections: false,
+  supportsTerrain: false,
+  requiresApiKey: false,
+  layerTypes: ['geojson', 'polygons', 'lines', 'points', 'markers', 'raster-tiles', 'custom'],
+};
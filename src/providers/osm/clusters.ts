@@ -0,0 +1,182 @@
+/**
+ * Leaflet cluster layer
+ * Clusters the points of a markers or points layer
+ */
+
+import type * as Leaflet from 'leaflet';
+import type { Feature, Point } from 'geojson';
+import type { LayerConfig, RenderedFeature, FeatureId } from '../../core/types';
+import type { ClusterOptions } from '../../core/clustering';
+import { PointClusterer, isClusterFeature, createClusterElement } from '../../core/clustering';
+import { getFeatureId } from '../../core/feature-state';
+
+/**
+ * Clustered markers or points layer on a Leaflet map
+ *
+ * The cluster hierarchy is built once; the markers for the visible area are
+ * updated on every `moveend`, which Leaflet also fires after zooming.
+ */
+export class OSMClusterLayer {
+  private L: typeof Leaflet;
+  private map: Leaflet.Map;
+  private config: LayerConfig;
+  private options: ClusterOptions;
+  private clusterer: PointClusterer;
+  private pane: string;
+  private group: Leaflet.LayerGroup;
+  private markers: Map<unknown, Leaflet.Layer> = new Map();
+  private renderedFeatures: Array<Feature<Point>> = [];
+  private createPoint: (feature: Feature<Point>, latlng: Leaflet.LatLng) => Leaflet.Layer;
+  private onClick?: (feature: RenderedFeature) => void;
+  private onMoveEnd = () => this.update();
+
+  /**
+   * @param pane Map pane cluster markers are drawn in
+   * @param createPoint Create the layer of an unclustered point
+   * @param onClick Called with the clicked cluster or point
+   */
+  constructor(
+    leaflet: typeof Leaflet,
+    map: Leaflet.Map,
+    config: LayerConfig,
+    options: ClusterOptions,
+    features: Feature[],
+    pane: string,
+    createPoint: (feature: Feature<Point>, latlng: Leaflet.LatLng) => Leaflet.Layer,
+    onClick?: (feature: RenderedFeature) => void
+  ) {
+    this.L = leaflet;
+    this.map = map;
+    this.config = config;
+    this.options = options;
+    this.pane = pane;
+    this.createPoint = createPoint;
+    this.onClick = onClick;
+
+    this.clusterer = new PointClusterer(options);
+    this.clusterer.load(features);
+
+    this.group = leaflet.layerGroup();
+    this.setVisible(config.visible !== false);
+    map.on('moveend', this.onMoveEnd);
+  }
+
+  /**
+   * Show or hide the layer
+   */
+  setVisible(visible: boolean): void {
+    if (visible) {
+      this.group.addTo(this.map);
+      this.update();
+    } else {
+      this.group.remove();
+      this.renderedFeatures = [];
+    }
+  }
+
+  /**
+   * Redraw the drawn points with an ID after their state changed
+   */
+  applyFeatureState(featureId: FeatureId): void {
+    // Points are keyed by their feature, clusters by their id
+    this.markers.forEach((marker, key) => {
+      if (typeof key === 'object' && getFeatureId(key as Feature) === featureId) {
+        const point = this.createMarker(key as Feature<Point>);
+        this.group.removeLayer(marker);
+        this.group.addLayer(point);
+        this.markers.set(key, point);
+      }
+    });
+  }
+
+  /**
+   * Get the clusters and points drawn in the visible area
+   */
+  getRenderedFeatures(): Array<Feature<Point>> {
+    return this.renderedFeatures;
+  }
+
+  /**
+   * Get the points of a cluster
+   */
+  getLeaves(clusterId: number, limit?: number, offset?: number): Feature[] {
+    return this.clusterer.getLeaves(clusterId, limit, offset);
+  }
+
+  /**
+   * Remove the layer
+   */
+  destroy(): void {
+    this.map.off('moveend', this.onMoveEnd);
+    this.group.remove();
+    this.group.clearLayers();
+    this.markers.clear();
+    this.renderedFeatures = [];
+  }
+
+  /**
+   * Draw the clusters and points in the visible area
+   */
+  private update(): void {
+    if (!this.map.hasLayer(this.group)) {
+      return;
+    }
+
+    const bounds = this.map.getBounds();
+    const features = this.clusterer.getClusters(
+      [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+      this.map.getZoom()
+    );
+    this.renderedFeatures = features;
+
+    // Clusters are identified by id, points by their feature
+    const keys = new Set<unknown>();
+    features.forEach((feature) => {
+      const key = isClusterFeature(feature) ? feature.properties.cluster_id : feature;
+      keys.add(key);
+      if (!this.markers.has(key)) {
+        const marker = this.createMarker(feature);
+        this.markers.set(key, marker);
+        this.group.addLayer(marker);
+      }
+    });
+
+    this.markers.forEach((marker, key) => {
+      if (!keys.has(key)) {
+        this.group.removeLayer(marker);
+        this.markers.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Create the marker of a cluster or point
+   */
+  private createMarker(feature: Feature<Point>): Leaflet.Layer {
+    const [lng, lat] = feature.geometry.coordinates;
+    const latlng = this.L.latLng(lat, lng);
+
+    if (!isClusterFeature(feature)) {
+      const point = this.createPoint(feature, latlng);
+      point.on('click', () => this.onClick?.({ ...feature, layerId: this.config.id }));
+      return point;
+    }
+
+    const element = createClusterElement(feature, this.options.style);
+    const size = parseFloat(element.style.width);
+    const marker = this.L.marker(latlng, {
+      pane: this.pane,
+      icon: this.L.divIcon({ html: element, className: '', iconSize: [size, size] }),
+      opacity: this.config.opacity ?? 1,
+    });
+
+    marker.on('click', () => {
+      this.onClick?.({ ...feature, layerId: this.config.id });
+      if (this.options.zoomOnClick !== false) {
+        this.map.setView(latlng, this.clusterer.getClusterExpansionZoom(feature.properties.cluster_id));
+      }
+    });
+
+    return marker;
+  }
+}
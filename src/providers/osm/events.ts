@@ -0,0 +1,130 @@
+/**
+ * OSM Event Mapper
+ * Maps Leaflet events to Universal Map Component events
+ */
+
+import type * as Leaflet from 'leaflet';
+import type { MapEvent, MapEventType, Coordinates, RenderedFeature } from '../../core/types';
+import { createMapEvent } from '../../core/events';
+
+/**
+ * Leaflet events forwarded as pointer events
+ */
+const POINTER_EVENTS: Array<[string, MapEventType]> = [
+  ['click', 'click'],
+  ['dblclick', 'dblclick'],
+  ['contextmenu', 'contextmenu'],
+  ['mousemove', 'mousemove'],
+  ['mouseover', 'mouseenter'],
+  ['mouseout', 'mouseleave'],
+];
+
+/**
+ * Leaflet events forwarded as camera events
+ */
+const CAMERA_EVENTS: Array<[string, MapEventType]> = [
+  ['zoomstart', 'zoomstart'],
+  ['zoom', 'zoom'],
+  ['zoomend', 'zoomend'],
+  ['movestart', 'movestart'],
+  ['move', 'move'],
+  ['moveend', 'moveend'],
+];
+
+/**
+ * Event mapper for Leaflet
+ */
+export class OSMEventMapper {
+  private map: Leaflet.Map;
+  private listeners: Array<[string, Leaflet.LeafletEventHandlerFn]> = [];
+  private eventCallback: (event: MapEvent) => void;
+  private pickFeatures?: (point: [number, number]) => RenderedFeature[];
+
+  /**
+   * @param pickFeatures Get the features drawn at a screen position, added to pointer events
+   */
+  constructor(
+    map: Leaflet.Map,
+    eventCallback: (event: MapEvent) => void,
+    pickFeatures?: (point: [number, number]) => RenderedFeature[]
+  ) {
+    this.map = map;
+    this.eventCallback = eventCallback;
+    this.pickFeatures = pickFeatures;
+    this.setupEventListeners();
+  }
+
+  /**
+   * Set up all event listeners
+   */
+  private setupEventListeners(): void {
+    // Pointer events
+    POINTER_EVENTS.forEach(([leafletEvent, type]) => {
+      this.addListener(leafletEvent, (e) => {
+        const mouseEvent = e as Leaflet.LeafletMouseEvent;
+        const point: [number, number] | undefined = mouseEvent.containerPoint
+          ? [mouseEvent.containerPoint.x, mouseEvent.containerPoint.y]
+          : undefined;
+        this.eventCallback(
+          createMapEvent(type, this.map, {
+            lngLat: this.leafletLatLngToCoords(mouseEvent.latlng),
+            point,
+            originalEvent: mouseEvent.originalEvent,
+            ...(point && this.pickFeatures && { features: this.pickFeatures(point) }),
+          })
+        );
+      });
+    });
+
+    // Zoom and movement events
+    CAMERA_EVENTS.forEach(([leafletEvent, type]) => {
+      this.addListener(leafletEvent, () => {
+        this.eventCallback(
+          createMapEvent(type, this.map, {
+            lngLat: this.getCenterCoords(),
+          })
+        );
+      });
+    });
+
+    // Map loaded event
+    this.addListener('load', () => {
+      this.eventCallback(createMapEvent('load', this.map));
+    });
+  }
+
+  /**
+   * Add a listener and track it for cleanup
+   */
+  private addListener(eventName: string, handler: Leaflet.LeafletEventHandlerFn): void {
+    this.map.on(eventName, handler);
+    this.listeners.push([eventName, handler]);
+  }
+
+  /**
+   * Convert Leaflet LatLng to our Coordinates format
+   */
+  private leafletLatLngToCoords(
+    latLng: Leaflet.LatLng | null | undefined
+  ): Coordinates | undefined {
+    if (!latLng) return undefined;
+    return [latLng.lat, latLng.lng];
+  }
+
+  /**
+   * Get current map center as coordinates
+   */
+  private getCenterCoords(): Coordinates | undefined {
+    return this.leafletLatLngToCoords(this.map.getCenter());
+  }
+
+  /**
+   * Clean up all event listeners
+   */
+  destroy(): void {
+    this.listeners.forEach(([eventName, handler]) => {
+      this.map.off(eventName, handler);
+    });
+    this.listeners = [];
+  }
+}
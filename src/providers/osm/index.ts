@@ -0,0 +1,10 @@
+/**
+ * OpenStreetMap Provider
+ * Exports for the Leaflet-based OSM integration
+ */
+
+export { OSMProvider, DEFAULT_OSM_TILE_URL, DEFAULT_OSM_ATTRIBUTION } from './OSMProvider';
+export { OSM_CAPABILITIES } from './capabilities';
+export { loadLeaflet } from './loader';
+export { OSMEventMapper } from './events';
+export { OSMLayerManager } from './layers';
@@ -0,0 +1,551 @@
+/**
+ * OSM Layer Manager
+ * Handles vector layer rendering on top of the Leaflet tile map
+ */
+
+import type * as Leaflet from 'leaflet';
+import type { Feature, FeatureCollection, Point } from 'geojson';
+import type {
+  LayerConfig,
+  FeatureProperties,
+  RenderedFeature,
+  ScreenPoint,
+  ScreenBox,
+  FeatureId,
+  FeatureState,
+} from '../../core/types';
+import type { IProviderLayerManager } from '../../core/provider';
+import { DataSourceFactory, PendingLayerLoads } from '../../core/data-source';
+import { DEFAULT_LAYER_STYLE } from '../../core/config';
+import { isDataDrivenStyle, resolveLayerStyle } from '../../core/expressions';
+import { TILE_SIZE } from '../../core/projection';
+import { createTileTemplate, getTileUrl } from '../../core/tiles';
+import { getClusterOptions } from '../../core/clustering';
+import { pickFeatures, toFeatures, matchesFilter } from '../../core/picking';
+import { diffLayerConfig } from '../../core/layer';
+import { applyFeatureState, getFeatureId } from '../../core/feature-state';
+import type { FeatureStateStore } from '../../core/feature-state';
+import type { CustomLayerRenderer } from '../../renderers/custom';
+import { OSMClusterLayer } from './clusters';
+
+/**
+ * z-index of the pane of the bottom layer
+ * Layer panes stack above Leaflet's tile and overlay panes.
+ */
+const LAYER_PANE_Z_INDEX = 400;
+
+/**
+ * Layer manager for Leaflet
+ *
+ * Every layer is drawn in its own map pane; panes are stacked by z-index in
+ * the layer order, whatever the kind of layer. Features are picked by
+ * hit-testing the features each layer draws. Feature state restyles the
+ * paths of single features; markers keep their icons. Custom layers are
+ * drawn by the custom layer renderer above the panes.
+ */
+export class OSMLayerManager implements IProviderLayerManager {
+  private L: typeof Leaflet;
+  private map: Leaflet.Map;
+  private layers: Map<string, LayerConfig> = new Map();
+  private geoJSONLayers: Map<string, Leaflet.GeoJSON> = new Map();
+  private tileLayers: Map<string, Leaflet.TileLayer> = new Map();
+  private clusterLayers: Map<string, OSMClusterLayer> = new Map();
+  private sourceFeatures: Map<string, Feature[]> = new Map();
+  private loads: PendingLayerLoads = new PendingLayerLoads();
+  private order: string[] = [];
+  private featureStates: FeatureStateStore;
+  private customLayers: CustomLayerRenderer;
+  private onMarkerClick?: (feature: RenderedFeature) => void;
+
+  /**
+   * @param featureStates State of the features, read when styling them
+   * @param customLayers Renderer of `custom` layers
+   * @param onMarkerClick Called with the feature of a clicked point or cluster of a clustered layer
+   */
+  constructor(
+    leaflet: typeof Leaflet,
+    map: Leaflet.Map,
+    featureStates: FeatureStateStore,
+    customLayers: CustomLayerRenderer,
+    onMarkerClick?: (feature: RenderedFeature) => void
+  ) {
+    this.L = leaflet;
+    this.map = map;
+    this.featureStates = featureStates;
+    this.customLayers = customLayers;
+    this.onMarkerClick = onMarkerClick;
+  }
+
+  /**
+   * Add a layer to the map
+   */
+  async addLayer(config: LayerConfig): Promise<void> {
+    if (this.layers.has(config.id)) {
+      console.warn(`Layer ${config.id} already exists, updating instead`);
+      await this.updateLayer(config.id, config);
+      return;
+    }
+
+    this.layers.set(config.id, config);
+    if (getClusterOptions(config)) {
+      await this.addClusterLayer(config);
+      return;
+    }
+
+    switch (config.type) {
+      case 'geojson':
+      case 'polygons':
+      case 'lines':
+      case 'markers':
+      case 'points':
+        await this.addGeoJSONLayer(config);
+        break;
+      case 'raster-tiles':
+        this.addRasterTileLayer(config);
+        break;
+      case 'custom':
+        await this.customLayers.addLayer(config);
+        break;
+      default:
+        console.warn(`Layer type ${config.type} not yet implemented for OSM`);
+    }
+  }
+
+  /**
+   * Remove a layer from the map
+   */
+  removeLayer(layerId: string): void {
+    const geoJSONLayer = this.geoJSONLayers.get(layerId);
+    if (geoJSONLayer) {
+      geoJSONLayer.remove();
+      this.geoJSONLayers.delete(layerId);
+    }
+
+    const tileLayer = this.tileLayers.get(layerId);
+    if (tileLayer) {
+      tileLayer.remove();
+      this.tileLayers.delete(layerId);
+    }
+
+    const clusterLayer = this.clusterLayers.get(layerId);
+    if (clusterLayer) {
+      clusterLayer.destroy();
+      this.clusterLayers.delete(layerId);
+    }
+
+    this.customLayers.removeLayer(layerId);
+    this.hidePane(layerId);
+    this.loads.cancel(layerId);
+    this.sourceFeatures.delete(layerId);
+    this.layers.delete(layerId);
+  }
+
+  /**
+   * Update a layer
+   * Custom layers keeping their hooks are drawn again. Other layers are only
+   * created again when their type, source, options or zoom range changed;
+   * otherwise they are restyled, drawn again from their loaded features or
+   * shown in place, keeping their pane in the layer order.
+   */
+  async updateLayer(layerId: string, config: LayerConfig): Promise<void> {
+    if (this.customLayers.hasLayer(layerId) && this.customLayers.canRender(config)) {
+      await this.customLayers.updateLayer(config);
+      this.layers.set(layerId, config);
+      return;
+    }
+
+    const previous = this.layers.get(layerId);
+    const changes = previous && diffLayerConfig(previous, config);
+    if (!changes || changes.source) {
+      this.removeLayer(layerId);
+      await this.addLayer(config);
+      return;
+    }
+
+    this.layers.set(layerId, config);
+    if (this.loads.has(layerId)) {
+      return;
+    }
+    if (changes.filter) {
+      this.redrawFeatures(config);
+    } else if (changes.style) {
+      this.restyleLayer(config);
+    }
+    if (changes.visibility) {
+      this.setLayerVisibility(layerId, config.visible !== false);
+    }
+  }
+
+  /**
+   * Set layer visibility
+   */
+  setLayerVisibility(layerId: string, visible: boolean): void {
+    const config = this.layers.get(layerId);
+    if (config && this.loads.has(layerId)) {
+      this.layers.set(layerId, { ...config, visible });
+      return;
+    }
+
+    this.clusterLayers.get(layerId)?.setVisible(visible);
+    if (config && this.customLayers.hasLayer(layerId)) {
+      this.customLayers.updateLayer({ ...config, visible });
+    }
+
+    const layer = this.geoJSONLayers.get(layerId) ?? this.tileLayers.get(layerId);
+    if (!layer) return;
+
+    if (visible) {
+      layer.addTo(this.map);
+    } else {
+      layer.remove();
+    }
+  }
+
+  /**
+   * Destroy all layers
+   */
+  destroy(): void {
+    this.geoJSONLayers.forEach((layer) => layer.remove());
+    this.geoJSONLayers.clear();
+    this.tileLayers.forEach((layer) => layer.remove());
+    this.tileLayers.clear();
+    this.clusterLayers.forEach((layer) => layer.destroy());
+    this.clusterLayers.clear();
+    this.customLayers.destroy();
+    this.loads.clear();
+    this.sourceFeatures.clear();
+    this.layers.clear();
+  }
+
+  /**
+   * Stack the layers in the given order
+   * @param order Layer IDs from bottom to top
+   */
+  setLayerOrder(order: string[]): void {
+    this.order = order;
+    this.customLayers.setLayerOrder(order);
+    this.order.forEach((layerId, index) => {
+      const pane = this.map.getPane(this.getPaneName(layerId));
+      if (pane) {
+        pane.style.zIndex = String(LAYER_PANE_Z_INDEX + index);
+      }
+    });
+  }
+
+  /**
+   * Restyle a feature after its state changed
+   */
+  applyFeatureState(layerId: string, featureId: FeatureId): void {
+    const config = this.layers.get(layerId);
+    if (!config) return;
+
+    const state = this.featureStates.get(layerId, featureId);
+    this.geoJSONLayers.get(layerId)?.eachLayer((layer) => {
+      const feature = (layer as Leaflet.Layer & { feature?: Feature }).feature;
+      if (feature && getFeatureId(feature) === featureId && layer instanceof this.L.Path) {
+        layer.setStyle(this.toPathOptions(config, feature.properties, state));
+      }
+    });
+    this.clusterLayers.get(layerId)?.applyFeatureState(featureId);
+    if (this.customLayers.hasLayer(layerId)) {
+      this.customLayers.applyFeatureState(layerId);
+    }
+  }
+
+  /**
+   * Get the points of a cluster in a clustered layer
+   */
+  getClusterLeaves(layerId: string, clusterId: number, limit?: number, offset?: number): Feature[] {
+    return this.clusterLayers.get(layerId)?.getLeaves(clusterId, limit, offset) ?? [];
+  }
+
+  /**
+   * Get the features drawn by some layers at a screen point or in a screen box
+   * @param layerIds IDs of the layers to pick from
+   */
+  pickFeatures(geometry: ScreenPoint | ScreenBox, layerIds: string[]): RenderedFeature[] {
+    const project = ([lng, lat]: number[]): ScreenPoint => {
+      const point = this.map.latLngToContainerPoint([lat, lng]);
+      return [point.x, point.y];
+    };
+
+    const features = layerIds.flatMap((layerId) => {
+      const config = this.layers.get(layerId);
+      // Features drawn later are on top
+      return config ? pickFeatures(config, this.getDrawnFeatures(config), geometry, project).reverse() : [];
+    });
+    return [...this.customLayers.pickFeatures(geometry), ...features];
+  }
+
+  /**
+   * Get the features of a layer's loaded data
+   */
+  getSourceFeatures(layerId: string): Feature[] {
+    return this.sourceFeatures.get(layerId) ?? [];
+  }
+
+  /**
+   * Get the features a layer currently draws
+   */
+  private getDrawnFeatures(config: LayerConfig): Feature[] {
+    const clusterLayer = this.clusterLayers.get(config.id);
+    if (clusterLayer) {
+      return clusterLayer.getRenderedFeatures();
+    }
+    if (!this.geoJSONLayers.has(config.id)) {
+      return [];
+    }
+
+    const features = this.getFilteredFeatures(config);
+    return config.type === 'markers' || config.type === 'points'
+      ? features.filter((feature) => feature.geometry?.type === 'Point' || feature.geometry?.type === 'MultiPoint')
+      : features;
+  }
+
+  /**
+   * Add a GeoJSON-backed layer
+   * Markers and points layers only render point geometries.
+   */
+  private async addGeoJSONLayer(config: LayerConfig): Promise<void> {
+    await this.loads.load(config.id, this.loadSource(config), (geoJSON) => {
+      this.sourceFeatures.set(config.id, toFeatures(geoJSON));
+      this.drawGeoJSONLayer(this.layers.get(config.id) ?? config);
+    });
+  }
+
+  /**
+   * Draw the loaded features of a GeoJSON-backed layer matching its filter
+   */
+  private drawGeoJSONLayer(config: LayerConfig): void {
+    const pathOptions = this.createPathOptions(config);
+    const pointsOnly = config.type === 'markers' || config.type === 'points';
+    const collection: FeatureCollection = { type: 'FeatureCollection', features: this.getFilteredFeatures(config) };
+
+    const geoJSONLayer = this.L.geoJSON(collection, {
+      pane: this.createPane(config.id),
+      style: pathOptions,
+      filter: pointsOnly
+        ? (feature: Feature) =>
+            feature.geometry?.type === 'Point' || feature.geometry?.type === 'MultiPoint'
+        : undefined,
+      pointToLayer: (feature: Feature, latlng: Leaflet.LatLng) =>
+        this.createPointLayer(config, feature, latlng, pathOptions(feature)),
+    });
+
+    if (config.visible !== false) {
+      geoJSONLayer.addTo(this.map);
+    }
+
+    this.geoJSONLayers.set(config.id, geoJSONLayer);
+  }
+
+  /**
+   * Add a markers or points layer clustered with `options.cluster`
+   */
+  private async addClusterLayer(config: LayerConfig): Promise<void> {
+    await this.loads.load(config.id, this.loadSource(config), (geoJSON) => {
+      this.sourceFeatures.set(config.id, toFeatures(geoJSON));
+      this.drawClusterLayer(this.layers.get(config.id) ?? config);
+    });
+  }
+
+  /**
+   * Load the data of a layer's source
+   */
+  private loadSource(config: LayerConfig): Promise<unknown> {
+    const source = DataSourceFactory.normalizeSource(config.source);
+    return DataSourceFactory.createDataSource(source).load();
+  }
+
+  /**
+   * Cluster the loaded points of a layer matching its filter
+   */
+  private drawClusterLayer(config: LayerConfig): void {
+    const clusterLayer = new OSMClusterLayer(
+      this.L,
+      this.map,
+      config,
+      getClusterOptions(config)!,
+      this.getFilteredFeatures(config),
+      this.createPane(config.id),
+      // Points report their own clicks instead of bubbling to the map
+      (feature: Feature<Point>, latlng: Leaflet.LatLng) =>
+        this.createPointLayer(config, feature, latlng, {
+          ...this.toPathOptions(config, feature.properties, this.featureStates.getForFeature(config.id, feature)),
+          bubblingMouseEvents: false,
+        }),
+      this.onMarkerClick
+    );
+    this.clusterLayers.set(config.id, clusterLayer);
+  }
+
+  /**
+   * Draw a GeoJSON-backed or clustered layer again from its loaded features
+   */
+  private redrawFeatures(config: LayerConfig): void {
+    const geoJSONLayer = this.geoJSONLayers.get(config.id);
+    if (geoJSONLayer) {
+      geoJSONLayer.remove();
+      this.drawGeoJSONLayer(config);
+    }
+    const clusterLayer = this.clusterLayers.get(config.id);
+    if (clusterLayer) {
+      clusterLayer.destroy();
+      this.drawClusterLayer(config);
+    }
+  }
+
+  /**
+   * Restyle the paths, markers and tiles of a layer after its style or opacity changed
+   * Clustered layers are drawn again from their loaded points.
+   */
+  private restyleLayer(config: LayerConfig): void {
+    const pathOptions = this.createPathOptions(config);
+    this.geoJSONLayers.get(config.id)?.eachLayer((layer) => {
+      if (layer instanceof this.L.Path) {
+        layer.setStyle(pathOptions((layer as Leaflet.Layer & { feature?: Feature }).feature));
+      } else if (layer instanceof this.L.Marker) {
+        layer.setOpacity(config.opacity ?? 1);
+      }
+    });
+    this.tileLayers.get(config.id)?.setOpacity(config.opacity ?? 1);
+
+    const clusterLayer = this.clusterLayers.get(config.id);
+    if (clusterLayer) {
+      clusterLayer.destroy();
+      this.drawClusterLayer(config);
+    }
+  }
+
+  /**
+   * Get the loaded features of a layer matching its filter
+   */
+  private getFilteredFeatures(config: LayerConfig): Feature[] {
+    return (this.sourceFeatures.get(config.id) ?? []).filter((feature) => matchesFilter(feature, config.filter));
+  }
+
+  /**
+   * Get the path options of a layer's features
+   * Data-driven styles and the styles of features with state are resolved per feature.
+   */
+  private createPathOptions(config: LayerConfig): (feature?: Feature) => Leaflet.CircleMarkerOptions {
+    const layerOptions = isDataDrivenStyle(config.style) ? undefined : this.toPathOptions(config);
+    return (feature?: Feature) => {
+      const state = feature && this.featureStates.getForFeature(config.id, feature);
+      return layerOptions && !state ? layerOptions : this.toPathOptions(config, feature?.properties, state);
+    };
+  }
+
+  /**
+   * Create the Leaflet layer of a point: a marker for markers layers, a circle otherwise
+   */
+  private createPointLayer(
+    config: LayerConfig,
+    feature: Feature,
+    latlng: Leaflet.LatLng,
+    pathOptions: Leaflet.CircleMarkerOptions
+  ): Leaflet.Layer {
+    if (config.type === 'markers') {
+      return this.L.marker(latlng, {
+        pane: this.getPaneName(config.id),
+        // Unlike paths, markers keep mouse events from the map by default
+        bubblingMouseEvents: pathOptions.bubblingMouseEvents ?? true,
+        title: (feature.properties?.name || feature.properties?.title) as string | undefined,
+        opacity: config.opacity ?? 1,
+      });
+    }
+    return this.L.circleMarker(latlng, {
+      ...pathOptions,
+      pane: this.getPaneName(config.id),
+    });
+  }
+
+  /**
+   * Add a raster tile layer from an XYZ, TMS or quadkey URL template
+   */
+  private addRasterTileLayer(config: LayerConfig): void {
+    const template = createTileTemplate(DataSourceFactory.normalizeSource(config.source));
+
+    const tileLayer = this.L.tileLayer(template.url, {
+      pane: this.createPane(config.id),
+      tileSize: template.tileSize,
+      opacity: config.opacity ?? 1,
+      minZoom: config.minZoom,
+      maxZoom: config.maxZoom,
+      minNativeZoom: template.minZoom,
+      maxNativeZoom: template.maxZoom,
+    });
+
+    // Resolve every template token ourselves; Leaflet has no quadkeys.
+    // Tiles larger than 256px cover the area of a 256px tile one zoom level up.
+    const zoomOffset = Math.log2(template.tileSize / TILE_SIZE);
+    tileLayer.getTileUrl = (coords: Leaflet.Coords) =>
+      getTileUrl(template, coords.x, coords.y, coords.z - zoomOffset);
+
+    if (config.visible !== false) {
+      tileLayer.addTo(this.map);
+    }
+
+    this.tileLayers.set(config.id, tileLayer);
+  }
+
+  /**
+   * Create the pane of a layer if it does not exist yet
+   * The pane of a layer that was removed is shown again.
+   * @returns Pane name
+   */
+  private createPane(layerId: string): string {
+    const name = this.getPaneName(layerId);
+    const pane = this.map.getPane(name);
+    if (!pane) {
+      this.map.createPane(name);
+      this.setLayerOrder(this.order);
+    } else {
+      pane.style.display = '';
+    }
+    return name;
+  }
+
+  /**
+   * Hide the pane of a removed layer
+   * Leaflet cannot remove panes, so the pane is kept for when the layer is added again.
+   */
+  private hidePane(layerId: string): void {
+    const pane = this.map.getPane(this.getPaneName(layerId));
+    if (pane) {
+      pane.style.display = 'none';
+    }
+  }
+
+  /**
+   * Name of the pane a layer is drawn in
+   */
+  private getPaneName(layerId: string): string {
+    return `layer-${layerId}`;
+  }
+
+  /**
+   * Convert a layer style to Leaflet path options
+   * The radius is only used by circle markers.
+   * @param properties Properties of the feature data-driven styles are evaluated for
+   * @param state State of the feature, switching on style overrides
+   */
+  private toPathOptions(
+    config: LayerConfig,
+    properties?: FeatureProperties | null,
+    state?: FeatureState
+  ): Leaflet.CircleMarkerOptions {
+    const style = resolveLayerStyle(applyFeatureState(config.style, state), properties);
+    const layerOpacity = config.opacity ?? 1;
+
+    return {
+      color: style.strokeColor || (DEFAULT_LAYER_STYLE.strokeColor as string),
+      weight: style.strokeWidth ?? (DEFAULT_LAYER_STYLE.strokeWidth as number),
+      dashArray: style.dashArray?.join(' '),
+      opacity: layerOpacity,
+      fillColor: style.fillColor || (DEFAULT_LAYER_STYLE.fillColor as string),
+      fillOpacity: (style.opacity ?? 0.6) * layerOpacity,
+      radius: style.radius ?? (DEFAULT_LAYER_STYLE.radius as number),
+    };
+  }
+}
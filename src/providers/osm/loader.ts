@@ -0,0 +1,33 @@
+/**
+ * Leaflet Loader
+ * Lazily imports Leaflet, the raster tile renderer behind the OSM provider
+ */
+
+import type * as Leaflet from 'leaflet';
+
+let loadPromise: Promise<typeof Leaflet> | undefined;
+
+/**
+ * Load Leaflet
+ * The module is imported only once; subsequent calls share the same promise.
+ */
+export async function loadLeaflet(): Promise<typeof Leaflet> {
+  if (!loadPromise) {
+    loadPromise = import('leaflet')
+      .then((module) => {
+        // Leaflet is published as UMD, so bundlers may expose it as a default export
+        const leaflet = ((module as { default?: typeof Leaflet }).default ?? module) as typeof Leaflet;
+        if (!leaflet.map) {
+          throw new Error('Leaflet loaded but L.map not available');
+        }
+        return leaflet;
+      })
+      .catch((error) => {
+        loadPromise = undefined;
+        throw error instanceof Error
+          ? error
+          : new Error('Failed to load Leaflet. Install it with "npm install leaflet"');
+      });
+  }
+  return loadPromise;
+}
@@ -0,0 +1,61 @@
+/**
+ * Built-in provider registry
+ * Registers the bundled providers; their code is only loaded when a map uses them
+ */
+
+import { ProviderRegistry } from '../core/registry';
+import { GOOGLE_MAPS_CAPABILITIES } from './google/capabilities';
+import { OSM_CAPABILITIES } from './osm/capabilities';
+import { MAPBOX_CAPABILITIES } from './mapbox/capabilities';
+import { CESIUM_CAPABILITIES } from './cesium/capabilities';
+import { MOCK_CAPABILITIES } from './mock/capabilities';
+
+/**
+ * Create a registry with the built-in providers
+ */
+export function createDefaultProviderRegistry(): ProviderRegistry {
+  const registry = new ProviderRegistry();
+
+  registry.register(
+    'google',
+    async () => {
+      const { GoogleMapsProvider } = await import('./google');
+      return new GoogleMapsProvider();
+    },
+    GOOGLE_MAPS_CAPABILITIES
+  );
+  registry.register(
+    'osm',
+    async () => {
+      const { OSMProvider } = await import('./osm');
+      return new OSMProvider();
+    },
+    OSM_CAPABILITIES
+  );
+  registry.register(
+    'mapbox',
+    async () => {
+      const { MapboxProvider } = await import('./mapbox');
+      return new MapboxProvider();
+    },
+    MAPBOX_CAPABILITIES
+  );
+  registry.register(
+    'cesium',
+    async () => {
+      const { CesiumProvider } = await import('./cesium');
+      return new CesiumProvider();
+    },
+    CESIUM_CAPABILITIES
+  );
+  registry.register(
+    'mock',
+    async () => {
+      const { MockMapProvider } = await import('./mock');
+      return new MockMapProvider();
+    },
+    MOCK_CAPABILITIES
+  );
+
+  return registry;
+}
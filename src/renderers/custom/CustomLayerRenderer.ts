@@ -0,0 +1,349 @@
+/**
+ * Custom Layer Renderer
+ * Implementation of ILayerRenderer drawing `custom` layers through their render hooks
+ */
+
+import type { Feature } from 'geojson';
+import type { ILayerRenderer } from '../../core/renderer';
+import type {
+  LayerConfig,
+  CustomLayer,
+  MapProjection,
+  RenderedFeature,
+  ScreenPoint,
+  ScreenBox,
+  ViewState,
+  FeatureId,
+  FeatureState,
+} from '../../core/types';
+import { isScreenBox } from '../../core/picking';
+import { hasCustomLayerHooks } from '../../core/layer';
+
+/**
+ * Custom layer renderer options
+ */
+export interface CustomLayerRendererOptions {
+  /** Map container the layer canvases are drawn in (none in headless environments) */
+  container?: HTMLElement;
+  /** Get the current camera */
+  getViewState: () => ViewState;
+  /** Conversion between coordinates and container pixels */
+  projection: MapProjection;
+  /** Get the state of a feature of a layer */
+  getFeatureState?: (layerId: string, featureId: FeatureId) => FeatureState | undefined;
+}
+
+/**
+ * Custom layer drawn by the renderer
+ */
+interface CustomLayerEntry {
+  config: LayerConfig;
+  hooks: CustomLayer;
+  canvas?: HTMLCanvasElement;
+  /** Whether the layer must be drawn on the next frame */
+  dirty: boolean;
+}
+
+/**
+ * Renderer drawing custom layers on canvases above the base map
+ *
+ * Every layer gets its own canvas covering the map container; the canvases are
+ * stacked in the layer order. While layers are drawn, the camera and container
+ * size are checked on every animation frame and layers are only drawn again
+ * when either changed or a layer requested it. Without animation frames,
+ * layers are drawn when added, updated or when they request it.
+ */
+export class CustomLayerRenderer implements ILayerRenderer {
+  private options: CustomLayerRendererOptions;
+  private projection: MapProjection;
+  private overlay?: HTMLElement;
+  private entries: Map<string, CustomLayerEntry> = new Map();
+  private order: string[] = [];
+  private frame?: number;
+  private viewKey?: string;
+  private rendering = false;
+
+  constructor(options: CustomLayerRendererOptions) {
+    this.options = options;
+    // Bound, so layers can pass the functions around
+    this.projection = {
+      project: (coordinates) => options.projection.project(coordinates),
+      unproject: (point) => options.projection.unproject(point),
+    };
+  }
+
+  /**
+   * Check if the renderer can draw a layer configuration
+   */
+  canRender(config: LayerConfig): boolean {
+    return config.type === 'custom' && hasCustomLayerHooks(config);
+  }
+
+  /**
+   * Check if the renderer draws a layer
+   */
+  hasLayer(layerId: string): boolean {
+    return this.entries.has(layerId);
+  }
+
+  /**
+   * Create the layer's canvas and call its `onAdd` hook
+   */
+  async addLayer(config: LayerConfig): Promise<void> {
+    if (!this.canRender(config)) {
+      throw new Error(`Layer ${config.id} has no custom layer hooks`);
+    }
+
+    const canvas = this.createCanvas();
+    const entry: CustomLayerEntry = { config, hooks: config.customLayer!, canvas, dirty: true };
+    this.entries.set(config.id, entry);
+    this.applyCanvasStyle(entry);
+
+    entry.hooks.onAdd({
+      canvas,
+      pixelRatio: this.getPixelRatio(),
+      projection: this.projection,
+      layer: config,
+      getFeatureState: (featureId) => this.options.getFeatureState?.(config.id, featureId),
+      requestRender: () => this.requestRender(config.id),
+    });
+    this.scheduleFrame();
+  }
+
+  /**
+   * Update a layer
+   * Layers keeping their hooks are drawn again; new hooks replace the layer.
+   */
+  async updateLayer(config: LayerConfig): Promise<void> {
+    const entry = this.entries.get(config.id);
+    if (!entry || entry.hooks !== config.customLayer) {
+      this.removeLayer(config.id);
+      await this.addLayer(config);
+      return;
+    }
+
+    entry.config = config;
+    this.applyCanvasStyle(entry);
+    this.requestRender(config.id);
+  }
+
+  /**
+   * Call the layer's `onRemove` hook and remove its canvas
+   */
+  removeLayer(layerId: string): void {
+    const entry = this.entries.get(layerId);
+    if (!entry) {
+      return;
+    }
+
+    this.entries.delete(layerId);
+    entry.hooks.onRemove();
+    entry.canvas?.remove();
+    if (this.entries.size === 0) {
+      this.stopFrames();
+    }
+  }
+
+  /**
+   * Draw a layer again after the state of one of its features changed
+   */
+  applyFeatureState(layerId: string): void {
+    this.requestRender(layerId);
+  }
+
+  /**
+   * Stack the layer canvases in the given order
+   * Layers missing from the order are drawn on top, in the order they were added.
+   */
+  setLayerOrder(order: string[]): void {
+    this.order = order;
+    this.entries.forEach((entry) => this.applyCanvasStyle(entry));
+  }
+
+  /**
+   * Get the features drawn at a screen point, from top to bottom
+   * Layers are picked through their `pick` hook; boxes pick no features.
+   */
+  pickFeatures(geometry: ScreenPoint | ScreenBox): RenderedFeature[] {
+    if (isScreenBox(geometry)) {
+      return [];
+    }
+
+    return this.getOrderedEntries()
+      .reverse()
+      .filter((entry) => entry.config.visible !== false && entry.hooks.pick)
+      .flatMap((entry) =>
+        entry.hooks.pick!(geometry).map((feature) => ({ ...feature, layerId: entry.config.id }))
+      );
+  }
+
+  /**
+   * Get the features of a layer's loaded data
+   * Custom layers manage their own data and have none.
+   */
+  getFeatures(): Feature[] {
+    return [];
+  }
+
+  /**
+   * Draw a layer, or all layers, again
+   * Drawn on the next animation frame, or right away without animation frames.
+   */
+  requestRender(layerId?: string): void {
+    this.entries.forEach((entry, id) => {
+      if (layerId === undefined || id === layerId) {
+        entry.dirty = true;
+      }
+    });
+    this.scheduleFrame();
+  }
+
+  /**
+   * Remove all layers and their canvases
+   */
+  destroy(): void {
+    Array.from(this.entries.keys()).forEach((layerId) => this.removeLayer(layerId));
+    this.stopFrames();
+    this.overlay?.remove();
+    this.overlay = undefined;
+  }
+
+  /**
+   * Create a layer canvas in the overlay above the map
+   * Returns undefined without a DOM or container.
+   */
+  private createCanvas(): HTMLCanvasElement | undefined {
+    const { container } = this.options;
+    if (!container || typeof document === 'undefined') {
+      return undefined;
+    }
+
+    if (!this.overlay) {
+      this.overlay = document.createElement('div');
+      Object.assign(this.overlay.style, {
+        position: 'absolute',
+        inset: '0',
+        overflow: 'hidden',
+        pointerEvents: 'none',
+        zIndex: '500',
+      });
+      container.appendChild(this.overlay);
+    }
+
+    const canvas = document.createElement('canvas');
+    Object.assign(canvas.style, { position: 'absolute', left: '0', top: '0', width: '100%', height: '100%' });
+    this.overlay.appendChild(canvas);
+    this.resizeCanvas(canvas);
+    return canvas;
+  }
+
+  /**
+   * Apply a layer's visibility, opacity and position in the layer order to its canvas
+   */
+  private applyCanvasStyle(entry: CustomLayerEntry): void {
+    if (!entry.canvas) {
+      return;
+    }
+    Object.assign(entry.canvas.style, {
+      display: entry.config.visible === false ? 'none' : '',
+      opacity: String(entry.config.opacity ?? 1),
+      zIndex: String(this.getOrderedEntries().indexOf(entry)),
+    });
+  }
+
+  /**
+   * Match a canvas to the size of the container in device pixels
+   * @returns Whether the canvas was resized, which clears it
+   */
+  private resizeCanvas(canvas: HTMLCanvasElement | undefined): boolean {
+    const { container } = this.options;
+    if (!canvas || !container) {
+      return false;
+    }
+
+    const pixelRatio = this.getPixelRatio();
+    const width = Math.round(container.clientWidth * pixelRatio);
+    const height = Math.round(container.clientHeight * pixelRatio);
+    if (canvas.width === width && canvas.height === height) {
+      return false;
+    }
+    canvas.width = width;
+    canvas.height = height;
+    return true;
+  }
+
+  /**
+   * Get the layers in the layer order, followed by layers missing from it
+   */
+  private getOrderedEntries(): CustomLayerEntry[] {
+    const ordered = this.order
+      .map((layerId) => this.entries.get(layerId))
+      .filter((entry): entry is CustomLayerEntry => !!entry);
+    const rest = Array.from(this.entries.values()).filter((entry) => !ordered.includes(entry));
+    return [...ordered, ...rest];
+  }
+
+  /**
+   * Draw the layers whose camera, canvas size or state changed
+   */
+  private renderFrame(): void {
+    const viewState = this.options.getViewState();
+    const viewKey = JSON.stringify(viewState);
+    const viewChanged = viewKey !== this.viewKey;
+    this.viewKey = viewKey;
+
+    this.rendering = true;
+    try {
+      this.getOrderedEntries().forEach((entry) => {
+        const resized = this.resizeCanvas(entry.canvas);
+        if (entry.config.visible === false || !(viewChanged || resized || entry.dirty)) {
+          return;
+        }
+        entry.dirty = false;
+        entry.hooks.render(viewState, this.projection);
+      });
+    } finally {
+      this.rendering = false;
+    }
+  }
+
+  /**
+   * Draw on animation frames while layers are drawn
+   * Without animation frames, layers are drawn right away, except when
+   * requested from their own `render` hook.
+   */
+  private scheduleFrame(): void {
+    if (this.frame !== undefined || this.entries.size === 0) {
+      return;
+    }
+    if (typeof requestAnimationFrame === 'undefined') {
+      if (!this.rendering) {
+        this.renderFrame();
+      }
+      return;
+    }
+
+    this.frame = requestAnimationFrame(() => {
+      this.frame = undefined;
+      this.renderFrame();
+      this.scheduleFrame();
+    });
+  }
+
+  /**
+   * Stop drawing on animation frames
+   */
+  private stopFrames(): void {
+    if (this.frame !== undefined) {
+      cancelAnimationFrame(this.frame);
+      this.frame = undefined;
+    }
+  }
+
+  /**
+   * Get the device pixels per CSS pixel
+   */
+  private getPixelRatio(): number {
+    return typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+  }
+}
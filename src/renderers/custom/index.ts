@@ -0,0 +1,7 @@
+/**
+ * Custom Layer Renderer
+ * Exports for the renderer of `custom` layers
+ */
+
+export { CustomLayerRenderer } from './CustomLayerRenderer';
+export type { CustomLayerRendererOptions } from './CustomLayerRenderer';
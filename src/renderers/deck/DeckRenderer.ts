@@ -0,0 +1,363 @@
+/**
+ * deck.gl Renderer
+ * Implementation of ILayerRenderer drawing layers into a deck.gl overlay
+ */
+
+import type { Layer, PickingInfo } from '@deck.gl/core/typed';
+import type { Feature, FeatureCollection } from 'geojson';
+import type { ILayerRenderer } from '../../core/renderer';
+import type {
+  LayerConfig,
+  LayerType,
+  DataSource,
+  RenderedFeature,
+  ScreenPoint,
+  ScreenBox,
+  FeatureState,
+} from '../../core/types';
+import { DataSourceFactory, PendingLayerLoads } from '../../core/data-source';
+import { getClusterOptions } from '../../core/clustering';
+import { hasStateStyles } from '../../core/feature-state';
+import { PICK_RADIUS, isScreenBox, matchesFilter, toFeatures } from '../../core/picking';
+import { createGeoJsonLayer, createHeatmapLayer, create3DTilesLayer } from './layers';
+import type { HeatmapPoint } from './layers';
+
+/**
+ * deck.gl overlay of a base map
+ * Implemented by e.g. `GoogleMapsOverlay` and `MapboxOverlay`.
+ */
+export interface DeckOverlay {
+  setProps(props: { layers: Layer[] }): void;
+  pickMultipleObjects(params: { x: number; y: number; radius?: number }): PickingInfo[] | null;
+  pickObjects(params: { x: number; y: number; width?: number; height?: number }): PickingInfo[] | null;
+  finalize(): void;
+}
+
+/**
+ * deck.gl renderer options
+ */
+export interface DeckRendererOptions {
+  /** Create the overlay and add it to the map; called when the first layer is drawn */
+  createOverlay: () => DeckOverlay;
+  /** Rewrite data URLs, e.g. provider-specific URL schemes */
+  resolveUrl?: (url: string) => string;
+  /** Extra loaders.gl options for a data URL, e.g. authentication headers */
+  getLoadOptions?: (url: string) => Record<string, unknown> | undefined;
+  /** Get the state of a feature, switching on its layer's state style overrides */
+  getFeatureState?: (layerId: string, feature: Feature) => FeatureState | undefined;
+}
+
+/**
+ * Layer types drawn by the deck.gl renderer
+ */
+const DECK_LAYER_TYPES: LayerType[] = ['geojson', 'polygons', 'lines', 'points', 'heatmap', '3d-tiles'];
+
+/**
+ * Renderer drawing layers as deck.gl layers in one shared overlay
+ *
+ * Layer data is loaded once; style, opacity and visibility updates only
+ * rebuild the deck.gl layer, which deck.gl diffs against the previous one.
+ */
+export class DeckRenderer implements ILayerRenderer {
+  private options: DeckRendererOptions;
+  private overlay?: DeckOverlay;
+  private configs: Map<string, LayerConfig> = new Map();
+  private data: Map<string, unknown> = new Map();
+  private features: Map<string, Feature[]> = new Map();
+  private deckLayers: Map<string, Layer> = new Map();
+  /** Number of feature state changes of each layer, triggering its style accessors */
+  private stateVersions: Map<string, number> = new Map();
+  private loads: PendingLayerLoads = new PendingLayerLoads();
+  private order: string[] = [];
+
+  constructor(options: DeckRendererOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Check if the renderer can draw a layer configuration
+   * Dashed lines and arrowheads need native line support; clustered points
+   * are drawn as markers.
+   */
+  canRender(config: LayerConfig): boolean {
+    if (config.type === 'lines' && (config.style?.dashArray?.length || config.style?.arrowheads)) {
+      return false;
+    }
+    if (getClusterOptions(config)) {
+      return false;
+    }
+    return DECK_LAYER_TYPES.includes(config.type);
+  }
+
+  /**
+   * Check if the renderer draws a layer, or loads its data
+   */
+  hasLayer(layerId: string): boolean {
+    return this.deckLayers.has(layerId) || this.loads.has(layerId);
+  }
+
+  /**
+   * Load a layer's data and draw it
+   */
+  async addLayer(config: LayerConfig): Promise<void> {
+    if (!this.canRender(config)) {
+      throw new Error(`Layer type ${config.type} is not supported by the deck.gl renderer`);
+    }
+
+    this.configs.set(config.id, config);
+    await this.loads.load(config.id, this.loadData(config), (data) => {
+      const latest = this.configs.get(config.id) ?? config;
+      if (latest.type === '3d-tiles') {
+        this.data.set(config.id, data);
+      } else {
+        const features = toFeatures(data);
+        this.features.set(config.id, features);
+        this.data.set(config.id, this.toLayerData(latest, features));
+      }
+      this.applyLayer(latest);
+    });
+  }
+
+  /**
+   * Update a layer
+   * Layers whose data is unchanged are restyled without reloading it; a new
+   * filter is applied to the loaded features.
+   */
+  async updateLayer(config: LayerConfig): Promise<void> {
+    const previous = this.configs.get(config.id);
+    if (previous && this.isSameData(previous, config)) {
+      if (this.loads.has(config.id)) {
+        this.configs.set(config.id, config);
+        return;
+      }
+      const features = this.features.get(config.id);
+      if (features && JSON.stringify(previous.filter) !== JSON.stringify(config.filter)) {
+        this.data.set(config.id, this.toLayerData(config, features));
+      }
+      this.applyLayer(config);
+      return;
+    }
+
+    this.removeLayer(config.id);
+    await this.addLayer(config);
+  }
+
+  /**
+   * Remove a layer
+   */
+  removeLayer(layerId: string): void {
+    this.loads.cancel(layerId);
+    this.configs.delete(layerId);
+    this.data.delete(layerId);
+    this.features.delete(layerId);
+    this.stateVersions.delete(layerId);
+    if (this.deckLayers.delete(layerId)) {
+      this.render();
+    }
+  }
+
+  /**
+   * Restyle a feature after its state changed
+   * The layer's style accessors are re-evaluated; its data is kept.
+   */
+  applyFeatureState(layerId: string): void {
+    const config = this.configs.get(layerId);
+    if (!config || !hasStateStyles(config.style)) {
+      return;
+    }
+    this.stateVersions.set(layerId, (this.stateVersions.get(layerId) ?? 0) + 1);
+    if (this.deckLayers.has(layerId)) {
+      this.applyLayer(config);
+    }
+  }
+
+  /**
+   * Stack the layers in the given order
+   * Layers missing from the order are drawn on top, in the order they were added.
+   */
+  setLayerOrder(order: string[]): void {
+    this.order = order;
+    if (this.deckLayers.size > 0) {
+      this.render();
+    }
+  }
+
+  /**
+   * Get the features drawn at a screen point or in a screen box, from top to bottom
+   * Points pick every feature under them; boxes only the visible ones.
+   */
+  pickFeatures(geometry: ScreenPoint | ScreenBox, radius = PICK_RADIUS): RenderedFeature[] {
+    if (!this.overlay || this.deckLayers.size === 0) {
+      return [];
+    }
+
+    let infos: PickingInfo[];
+    if (isScreenBox(geometry)) {
+      const [[x1, y1], [x2, y2]] = geometry;
+      infos = this.overlay.pickObjects({
+        x: Math.min(x1, x2),
+        y: Math.min(y1, y2),
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1),
+      }) || [];
+    } else {
+      infos = this.overlay.pickMultipleObjects({ x: geometry[0], y: geometry[1], radius }) || [];
+    }
+
+    return infos
+      .filter((info) => (info.object as Feature | undefined)?.type === 'Feature' && info.layer)
+      .map((info) => ({ ...(info.object as Feature), layerId: info.layer!.id }));
+  }
+
+  /**
+   * Get the features of a layer's loaded data
+   * 3D Tiles layers have none.
+   */
+  getFeatures(layerId: string): Feature[] {
+    return this.features.get(layerId) ?? [];
+  }
+
+  /**
+   * Remove all layers and the overlay
+   */
+  destroy(): void {
+    this.configs.clear();
+    this.data.clear();
+    this.features.clear();
+    this.deckLayers.clear();
+    this.stateVersions.clear();
+    this.loads.clear();
+    if (this.overlay) {
+      this.overlay.finalize();
+      this.overlay = undefined;
+    }
+  }
+
+  /**
+   * Load the data of a layer's source: a tileset URL or GeoJSON
+   */
+  private loadData(config: LayerConfig): Promise<unknown> {
+    let source = DataSourceFactory.normalizeSource(config.source);
+
+    // Plain URLs given to a 3D Tiles layer are tileset URLs
+    if (config.type === '3d-tiles' && source.type === 'url') {
+      source = { ...source, type: '3d-tiles' };
+    }
+    return DataSourceFactory.createDataSource(this.resolveSourceUrl(source)).load();
+  }
+
+  /**
+   * Get the data a vector layer draws from the features matching its filter
+   */
+  private toLayerData(config: LayerConfig, features: Feature[]): unknown {
+    const drawn = features.filter((feature) => matchesFilter(feature, config.filter));
+
+    if (config.type === 'heatmap') {
+      return this.toHeatmapPoints(config, drawn);
+    }
+    if (config.type === 'points') {
+      return {
+        type: 'FeatureCollection',
+        features: drawn.filter(
+          (feature) => feature.geometry?.type === 'Point' || feature.geometry?.type === 'MultiPoint'
+        ),
+      };
+    }
+    return { type: 'FeatureCollection', features: drawn };
+  }
+
+  /**
+   * Extract weighted heatmap points from Point and MultiPoint features
+   * Point weights are read from the `weightProperty` option (default: `weight`).
+   */
+  private toHeatmapPoints(config: LayerConfig, features: Feature[]): HeatmapPoint[] {
+    const weightProperty = (config.options?.weightProperty as string | undefined) || 'weight';
+    const points: HeatmapPoint[] = [];
+
+    features.forEach((feature) => {
+      const geometry = feature.geometry;
+      const coordinates =
+        geometry?.type === 'Point' ? [geometry.coordinates] :
+        geometry?.type === 'MultiPoint' ? geometry.coordinates :
+        [];
+
+      const weight = Number(feature.properties?.[weightProperty] ?? 1);
+      coordinates.forEach(([lng, lat]) => {
+        points.push({ position: [lng, lat], weight: isNaN(weight) ? 1 : weight });
+      });
+    });
+
+    return points;
+  }
+
+  /**
+   * Apply the `resolveUrl` option to a source URL
+   */
+  private resolveSourceUrl(source: DataSource): DataSource {
+    if (!this.options.resolveUrl || !source.url) {
+      return source;
+    }
+    return { ...source, url: this.options.resolveUrl(source.url) };
+  }
+
+  /**
+   * Build the deck.gl layer for a layer from its loaded data and redraw
+   */
+  private applyLayer(config: LayerConfig): void {
+    const data = this.data.get(config.id);
+    let layer: Layer;
+
+    switch (config.type) {
+      case 'heatmap':
+        layer = createHeatmapLayer(config, data as HeatmapPoint[]);
+        break;
+      case '3d-tiles':
+        layer = create3DTilesLayer(config, data as string, this.options.getLoadOptions?.(data as string));
+        break;
+      default: {
+        const getFeatureState = this.options.getFeatureState;
+        layer = createGeoJsonLayer(
+          config,
+          data as FeatureCollection,
+          getFeatureState && ((feature) => getFeatureState(config.id, feature)),
+          this.stateVersions.get(config.id)
+        );
+      }
+    }
+
+    this.configs.set(config.id, config);
+    this.deckLayers.set(config.id, layer);
+    this.render();
+  }
+
+  /**
+   * Check if two configurations of a layer draw the same data
+   */
+  private isSameData(previous: LayerConfig, next: LayerConfig): boolean {
+    return (
+      previous.type === next.type &&
+      previous.source === next.source &&
+      previous.options?.weightProperty === next.options?.weightProperty
+    );
+  }
+
+  /**
+   * Push the current deck.gl layers to the overlay
+   * deck.gl draws layers in array order, so they are sorted by the layer order.
+   */
+  private render(): void {
+    if (!this.overlay) {
+      if (this.deckLayers.size === 0) return;
+      this.overlay = this.options.createOverlay();
+    }
+
+    const rank = (layerId: string) => {
+      const index = this.order.indexOf(layerId);
+      return index === -1 ? this.order.length : index;
+    };
+    const layers = Array.from(this.deckLayers.entries())
+      .sort(([a], [b]) => rank(a) - rank(b))
+      .map(([, layer]) => layer);
+    this.overlay.setProps({ layers });
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * deck.gl Renderer
+ * Exports for the deck.gl layer renderer
+ */
+
+export { DeckRenderer } from './DeckRenderer';
+export type { DeckOverlay, DeckRendererOptions } from './DeckRenderer';
+export { toDeckColor, createGeoJsonLayer, createHeatmapLayer, create3DTilesLayer } from './layers';
+export type { DeckColor, HeatmapPoint } from './layers';
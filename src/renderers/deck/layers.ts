@@ -0,0 +1,148 @@
+/**
+ * deck.gl layer factories
+ * Convert LayerConfigs and their loaded data into deck.gl layers
+ */
+
+import { GeoJsonLayer } from '@deck.gl/layers/typed';
+import { HeatmapLayer } from '@deck.gl/aggregation-layers/typed';
+import { Tile3DLayer } from '@deck.gl/geo-layers/typed';
+import type { Layer } from '@deck.gl/core/typed';
+import type { Feature, FeatureCollection } from 'geojson';
+import type { LayerConfig, LayerStyle, ResolvedLayerStyle, FeatureState } from '../../core/types';
+import { parseColor, sampleGradient } from '../../core/color';
+import { isDataDrivenStyle, resolveLayerStyle } from '../../core/expressions';
+import { DEFAULT_LAYER_STYLE } from '../../core/config';
+import { applyFeatureState, hasStateStyles } from '../../core/feature-state';
+
+/**
+ * Number of colors the heatmap gradient is sampled into
+ */
+const GRADIENT_SAMPLES = 16;
+
+/**
+ * deck.gl color with all channels in 0-255
+ */
+export type DeckColor = [number, number, number, number];
+
+/**
+ * Weighted point rendered by a heatmap layer
+ */
+export interface HeatmapPoint {
+  position: [number, number];
+  weight: number;
+}
+
+/**
+ * Convert a CSS color to a deck.gl color
+ * @param opacity Multiplied with the color's own alpha
+ */
+export function toDeckColor(color: string, opacity = 1): DeckColor {
+  const [r, g, b, a] = parseColor(color);
+  return [r, g, b, Math.round(a * opacity * 255)];
+}
+
+/**
+ * Create a GeoJSON layer for vector data
+ * Data-driven styles and feature state overrides become per-feature accessors.
+ * @param getFeatureState Get the state of a feature
+ * @param stateVersion Changes whenever the state of a feature changes
+ */
+export function createGeoJsonLayer(
+  config: LayerConfig,
+  data: FeatureCollection,
+  getFeatureState?: (feature: Feature) => FeatureState | undefined,
+  stateVersion = 0
+): Layer {
+  const style: LayerStyle = config.style || {};
+  const extruded = style.extrusionHeight !== undefined;
+
+  // Accessors are constants unless the style has expressions or state overrides
+  const stateful = !!getFeatureState && hasStateStyles(style);
+  const dataDriven = isDataDrivenStyle(style) || stateful;
+  const layerStyle = resolveLayerStyle(style);
+  const resolveFeatureStyle = (feature: Feature) =>
+    resolveLayerStyle(stateful ? applyFeatureState(style, getFeatureState!(feature)) : style, feature.properties);
+  const accessor = <T>(get: (featureStyle: ResolvedLayerStyle) => T) =>
+    dataDriven ? (feature: Feature) => get(resolveFeatureStyle(feature)) : get(layerStyle);
+  const updateTrigger = dataDriven ? `${JSON.stringify(style)}:${stateVersion}` : undefined;
+
+  return new GeoJsonLayer({
+    id: config.id,
+    data,
+    pickable: true,
+    filled: true,
+    stroked: true,
+    extruded,
+    getFillColor: accessor((featureStyle) =>
+      toDeckColor(featureStyle.fillColor || (DEFAULT_LAYER_STYLE.fillColor as string), featureStyle.opacity ?? 0.6)
+    ),
+    getLineColor: accessor((featureStyle) =>
+      toDeckColor(featureStyle.strokeColor || (DEFAULT_LAYER_STYLE.strokeColor as string))
+    ),
+    getLineWidth: accessor((featureStyle) => featureStyle.strokeWidth ?? (DEFAULT_LAYER_STYLE.strokeWidth as number)),
+    lineWidthUnits: 'pixels',
+    getPointRadius: accessor((featureStyle) => featureStyle.radius ?? (DEFAULT_LAYER_STYLE.radius as number)),
+    pointRadiusUnits: 'pixels',
+    ...(extruded && { getElevation: accessor((featureStyle) => featureStyle.extrusionHeight ?? 0) }),
+    updateTriggers: {
+      getFillColor: updateTrigger,
+      getLineColor: updateTrigger,
+      getLineWidth: updateTrigger,
+      getPointRadius: updateTrigger,
+      getElevation: updateTrigger,
+    },
+    opacity: config.opacity ?? 1,
+    visible: config.visible !== false,
+  });
+}
+
+/**
+ * Create a heatmap layer
+ */
+export function createHeatmapLayer(config: LayerConfig, data: HeatmapPoint[]): Layer {
+  const style = resolveLayerStyle(config.style);
+  const colorRange = style.gradient?.length
+    ? sampleGradient(style.gradient, GRADIENT_SAMPLES).map(
+        ([r, g, b, a]): DeckColor => [r, g, b, Math.round(a * 255)]
+      )
+    : undefined;
+
+  return new HeatmapLayer<HeatmapPoint>({
+    id: config.id,
+    data,
+    getPosition: (point) => point.position,
+    getWeight: (point) => point.weight,
+    radiusPixels: style.radius ?? 30,
+    intensity: style.intensity ?? 1,
+    colorDomain: style.maxIntensity !== undefined ? [0, style.maxIntensity] : null,
+    ...(colorRange && { colorRange }),
+    opacity: (style.opacity ?? 0.6) * (config.opacity ?? 1),
+    visible: config.visible !== false,
+  });
+}
+
+/**
+ * Create a 3D Tiles layer
+ * Keeping the layer id and URL across updates lets deck.gl keep the loaded tileset.
+ */
+export function create3DTilesLayer(
+  config: LayerConfig,
+  url: string,
+  loadOptions?: Record<string, unknown>
+): Layer {
+  const maximumScreenSpaceError =
+    (config.options?.maximumScreenSpaceError as number | undefined) ?? 16;
+
+  return new Tile3DLayer({
+    id: config.id,
+    data: url,
+    pickable: true,
+    opacity: config.opacity ?? 1,
+    visible: config.visible !== false,
+    ...(loadOptions && { loadOptions }),
+    onTilesetLoad: (tileset) => {
+      // Tiles are refined while their screen-space error exceeds this many pixels
+      tileset.options.maximumScreenSpaceError = maximumScreenSpaceError;
+    },
+  });
+}
@@ -0,0 +1,7 @@
+/**
+ * Layer Renderers
+ * Exports for all layer renderer implementations
+ */
+
+export * from './deck';
+export * from './custom';
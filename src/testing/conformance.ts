@@ -0,0 +1,502 @@
+/**
+ * Provider conformance suite
+ * Runs any IMapProvider through the same scenarios via UniversalMap
+ */
+
+import type { MapConfig, LayerConfig, BoundingBox, MapEvent } from '../core/types';
+import type { IMapProvider } from '../core/provider';
+import { UniversalMap } from '../core/UniversalMap';
+
+/**
+ * Scenario groups of the conformance suite
+ */
+export type ConformanceScenario =
+  | 'lifecycle'
+  | 'view-state'
+  | 'bounds'
+  | 'layers'
+  | 'events';
+
+/**
+ * Test framework functions used to declare the suite
+ * vitest and jest both provide these; they default to the globals.
+ */
+export interface ConformanceTestApi {
+  describe: (name: string, fn: () => void) => void;
+  it: (name: string, fn: () => Promise<void> | void) => void;
+  beforeEach: (fn: () => Promise<void> | void) => void;
+  afterEach: (fn: () => Promise<void> | void) => void;
+}
+
+/**
+ * Conformance suite options
+ */
+export interface ConformanceSuiteOptions {
+  /** Name shown in the test report */
+  name: string;
+  /** Create a fresh, uninitialized provider */
+  createProvider: () => IMapProvider | Promise<IMapProvider>;
+  /**
+   * Map configuration used to initialize the provider.
+   * `container` defaults to a detached 800x600 element.
+   */
+  config?: Partial<Omit<MapConfig, 'provider'>>;
+  /** Install fakes (e.g. a fake SDK global) before each scenario */
+  setup?: () => Promise<void> | void;
+  /** Remove fakes after each scenario */
+  teardown?: () => Promise<void> | void;
+  /**
+   * Wait for the provider to apply pending changes, e.g. async layer loading
+   * or deferred events. Defaults to waiting for one macrotask.
+   */
+  settle?: () => Promise<void>;
+  /** Scenario groups to skip */
+  skip?: ConformanceScenario[];
+  /** Tolerance for coordinate and zoom comparisons (default: 1e-6) */
+  tolerance?: number;
+  /** Test framework functions (defaults to the globals) */
+  testApi?: ConformanceTestApi;
+}
+
+let suiteCount = 0;
+
+/**
+ * Sample layer used by the layer scenarios
+ */
+function createSampleLayer(id: string): LayerConfig {
+  return {
+    id,
+    type: 'geojson',
+    source: {
+      type: 'geojson',
+      data: {
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            id: 'nyc',
+            geometry: { type: 'Point', coordinates: [-74.006, 40.7128] },
+            properties: { name: 'New York' },
+          },
+        ],
+      },
+    },
+    style: { fillColor: '#ff0000' },
+  };
+}
+
+/**
+ * Throw if a condition does not hold
+ */
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(`Conformance failure: ${message}`);
+  }
+}
+
+/**
+ * Throw if two numbers differ by more than the tolerance
+ */
+function assertClose(actual: number | undefined, expected: number, tolerance: number, message: string): void {
+  assert(
+    actual !== undefined && Math.abs(actual - expected) <= tolerance,
+    `${message} (expected ${expected}, got ${actual})`
+  );
+}
+
+/**
+ * Check that an operation rejects rather than throwing synchronously
+ */
+async function assertRejects(operation: () => Promise<unknown>, message: string): Promise<void> {
+  let result: Promise<unknown>;
+  try {
+    result = operation();
+  } catch {
+    throw new Error(`Conformance failure: ${message} (threw instead of rejecting)`);
+  }
+
+  let rejected = false;
+  await result.catch(() => {
+    rejected = true;
+  });
+  assert(rejected, message);
+}
+
+/**
+ * Check that one bounding box contains another
+ */
+function assertContains(outer: BoundingBox, inner: BoundingBox, tolerance: number, message: string): void {
+  const [west, south, east, north] = outer;
+  assert(
+    west <= inner[0] + tolerance &&
+      south <= inner[1] + tolerance &&
+      east >= inner[2] - tolerance &&
+      north >= inner[3] - tolerance,
+    `${message} (expected [${outer.join(', ')}] to contain [${inner.join(', ')}])`
+  );
+}
+
+/**
+ * Resolve the test framework functions
+ */
+function resolveTestApi(testApi?: ConformanceTestApi): ConformanceTestApi {
+  if (testApi) {
+    return testApi;
+  }
+
+  const globals = globalThis as unknown as Partial<ConformanceTestApi>;
+  if (!globals.describe || !globals.it || !globals.beforeEach || !globals.afterEach) {
+    throw new Error(
+      'Test framework globals not found. Pass testApi or enable globals in your test runner'
+    );
+  }
+  return globals as ConformanceTestApi;
+}
+
+/**
+ * Declare the conformance suite for a provider
+ *
+ * @example
+ * // @vitest-environment jsdom
+ * import { describe, it, beforeEach, afterEach } from 'vitest';
+ *
+ * runProviderConformanceSuite({
+ *   name: 'mock',
+ *   createProvider: () => new MockMapProvider(),
+ *   testApi: { describe, it, beforeEach, afterEach },
+ * });
+ */
+export function runProviderConformanceSuite(options: ConformanceSuiteOptions): void {
+  const { describe, it, beforeEach, afterEach } = resolveTestApi(options.testApi);
+  const skip = new Set(options.skip || []);
+  const tolerance = options.tolerance ?? 1e-6;
+  const settle = options.settle ?? (() => new Promise<void>((resolve) => setTimeout(resolve, 0)));
+  const providerName = `conformance-${options.name}-${++suiteCount}`;
+
+  let map: UniversalMap;
+
+  const createContainer = (): HTMLElement | string => {
+    if (typeof document === 'undefined') {
+      return 'conformance-map';
+    }
+    const container = document.createElement('div');
+    container.style.width = '800px';
+    container.style.height = '600px';
+    return container;
+  };
+
+  const createTestMap = (): UniversalMap =>
+    new UniversalMap({
+      center: [40.7128, -74.006],
+      zoom: 10,
+      container: createContainer(),
+      ...options.config,
+      provider: providerName,
+    });
+
+  const scenario = (group: ConformanceScenario, fn: () => void): void => {
+    if (!skip.has(group)) {
+      describe(group, fn);
+    }
+  };
+
+  describe(`IMapProvider conformance: ${options.name}`, () => {
+    beforeEach(async () => {
+      UniversalMap.registerProvider(providerName, options.createProvider);
+      await options.setup?.();
+      map = createTestMap();
+    });
+
+    afterEach(async () => {
+      map.destroy();
+      UniversalMap.unregisterProvider(providerName);
+      await options.teardown?.();
+    });
+
+    scenario('lifecycle', () => {
+      it('is not ready before initialize', () => {
+        assert(!map.isReady(), 'map reported ready before initialize()');
+      });
+
+      it('is ready after initialize', async () => {
+        await map.initialize();
+        assert(map.isReady(), 'map not ready after initialize()');
+        assert(map.getProvider()?.isReady(), 'provider not ready after initialize()');
+      });
+
+      it('is not ready after destroy', async () => {
+        await map.initialize();
+        const provider = map.getProvider()!;
+        map.destroy();
+        assert(!map.isReady(), 'map still ready after destroy()');
+        assert(!provider.isReady(), 'provider still ready after destroy()');
+      });
+
+      it('applies the initial view state', async () => {
+        await map.initialize();
+        const viewState = map.getViewState();
+        assertClose(viewState.center[0], 40.7128, tolerance, 'initial latitude');
+        assertClose(viewState.center[1], -74.006, tolerance, 'initial longitude');
+        assertClose(viewState.zoom, 10, tolerance, 'initial zoom');
+      });
+    });
+
+    scenario('view-state', () => {
+      it('round-trips center and zoom', async () => {
+        await map.initialize();
+        map.setViewState({ center: [48.8566, 2.3522], zoom: 12 });
+        await settle();
+
+        const viewState = map.getViewState();
+        assertClose(viewState.center[0], 48.8566, tolerance, 'latitude');
+        assertClose(viewState.center[1], 2.3522, tolerance, 'longitude');
+        assertClose(viewState.zoom, 12, tolerance, 'zoom');
+      });
+
+      it('keeps unspecified properties on partial updates', async () => {
+        await map.initialize();
+        map.setViewState({ center: [51.5074, -0.1278], zoom: 9 });
+        map.setViewState({ zoom: 11 });
+        await settle();
+
+        const viewState = map.getViewState();
+        assertClose(viewState.center[0], 51.5074, tolerance, 'latitude after zoom-only update');
+        assertClose(viewState.center[1], -0.1278, tolerance, 'longitude after zoom-only update');
+        assertClose(viewState.zoom, 11, tolerance, 'zoom');
+      });
+
+      it('round-trips bearing and pitch when 3D is supported', async () => {
+        await map.initialize();
+        if (!map.getProvider()!.capabilities.supports3D) return;
+
+        map.setViewState({ bearing: 45, pitch: 30 });
+        await settle();
+
+        const viewState = map.getViewState();
+        assertClose(viewState.bearing, 45, tolerance, 'bearing');
+        assertClose(viewState.pitch, 30, tolerance, 'pitch');
+      });
+    });
+
+    scenario('bounds', () => {
+      it('contains the bounds passed to fitBounds', async () => {
+        await map.initialize();
+        const bounds: BoundingBox = [-74.1, 40.6, -73.9, 40.8];
+        map.fitBounds(bounds);
+        await settle();
+
+        assertContains(map.getBounds(), bounds, tolerance, 'getBounds() after fitBounds()');
+      });
+
+      it('reports bounds around the center', async () => {
+        await map.initialize();
+        const [west, south, east, north] = map.getBounds();
+        const [lat, lng] = map.getViewState().center;
+
+        assert(west < east && south < north, 'bounds are not ordered [west, south, east, north]');
+        assert(west <= lng && lng <= east && south <= lat && lat <= north, 'center outside bounds');
+      });
+
+      it('projects coordinates north of the center above it', async () => {
+        await map.initialize();
+        await settle();
+        const [lat, lng] = map.getViewState().center;
+        const center = map.project([lat, lng]);
+        const north = map.project([lat + 0.01, lng]);
+
+        assert(center && north, 'project() returned no point for coordinates in view');
+        assert(north[1] < center[1], 'coordinates north of the center not projected above it');
+      });
+    });
+
+    scenario('layers', () => {
+      it('adds and retrieves layers', async () => {
+        await map.initialize();
+        await map.addLayer(createSampleLayer('conformance-a'));
+        await map.addLayer(createSampleLayer('conformance-b'));
+
+        assert(map.getLayer('conformance-a')?.id === 'conformance-a', 'getLayer() after addLayer()');
+        assert(map.getLayers().length === 2, 'getLayers() length after adding two layers');
+      });
+
+      it('reports layer loading', async () => {
+        await map.initialize();
+        const events: string[] = [];
+        map.on('layer:loading', (event) => events.push(`loading:${event.layerId}`));
+        map.on('layer:loaded', (event) => events.push(`loaded:${event.layerId}`));
+
+        const loaded = map.addLayer(createSampleLayer('conformance-a'));
+        assert(map.isLayerLoading('conformance-a'), 'isLayerLoading() false while the layer loads');
+        await loaded;
+
+        assert(!map.isLayerLoading('conformance-a'), 'isLayerLoading() true after addLayer() resolved');
+        assert(
+          events.join(',') === 'loading:conformance-a,loaded:conformance-a',
+          `unexpected layer loading events: ${events.join(',')}`
+        );
+
+        await map.updateLayer('conformance-a', { style: { fillColor: '#00ff00' } });
+        assert(!map.isLayerLoading('conformance-a'), 'isLayerLoading() true after updateLayer() resolved');
+      });
+
+      it('updates layers', async () => {
+        await map.initialize();
+        await map.addLayer(createSampleLayer('conformance-a'));
+        await map.updateLayer('conformance-a', { style: { fillColor: '#00ff00' } });
+
+        const layer = map.getLayer('conformance-a');
+        assert(layer?.style?.fillColor === '#00ff00', 'style not updated');
+        assert(layer?.type === 'geojson', 'unrelated properties lost on update');
+      });
+
+      it('rejects when updating a missing layer', async () => {
+        await map.initialize();
+        await assertRejects(
+          () => map.updateLayer('conformance-missing', { opacity: 0.5 }),
+          'updateLayer() on a missing layer did not reject'
+        );
+      });
+
+      it('sets visibility and opacity', async () => {
+        await map.initialize();
+        await map.addLayer(createSampleLayer('conformance-a'));
+        map.setLayerVisibility('conformance-a', false);
+        map.setLayerOpacity('conformance-a', 0.25);
+        await settle();
+
+        const layer = map.getLayer('conformance-a');
+        assert(layer?.visible === false, 'visibility not applied');
+        assert(layer?.opacity === 0.25, 'opacity not applied');
+      });
+
+      it('removes layers', async () => {
+        await map.initialize();
+        await map.addLayer(createSampleLayer('conformance-a'));
+        map.removeLayer('conformance-a');
+        await settle();
+
+        assert(map.getLayer('conformance-a') === undefined, 'getLayer() after removeLayer()');
+        assert(map.getLayers().length === 0, 'getLayers() after removeLayer()');
+      });
+
+      it('orders layers', async () => {
+        await map.initialize();
+        await map.addLayer(createSampleLayer('conformance-a'));
+        await map.addLayer(createSampleLayer('conformance-b'));
+        await map.addLayer(createSampleLayer('conformance-c'), { beforeId: 'conformance-a' });
+
+        const order = () => map.getLayerOrder().join(',');
+        assert(order() === 'conformance-c,conformance-a,conformance-b', 'beforeId not applied on addLayer()');
+
+        map.moveLayer('conformance-b', 'conformance-c');
+        await settle();
+        assert(order() === 'conformance-b,conformance-c,conformance-a', 'moveLayer() below a layer');
+
+        map.moveLayer('conformance-b');
+        await settle();
+        assert(order() === 'conformance-c,conformance-a,conformance-b', 'moveLayer() to the top');
+      });
+
+      it('keeps the layer order across updates', async () => {
+        await map.initialize();
+        await map.addLayer(createSampleLayer('conformance-a'));
+        await map.addLayer(createSampleLayer('conformance-b'));
+        await map.updateLayer('conformance-a', { style: { fillColor: '#00ff00' } });
+
+        assert(map.getLayerOrder().join(',') === 'conformance-a,conformance-b', 'updateLayer() moved the layer');
+      });
+
+      it('queries layer features', async () => {
+        await map.initialize();
+        await map.addLayer(createSampleLayer('conformance-a'));
+
+        const features = map.querySourceFeatures('conformance-a');
+        assert(features.length === 1, 'querySourceFeatures() did not return the layer data');
+        assert(features[0].properties?.name === 'New York', 'querySourceFeatures() lost feature properties');
+        assert(
+          map.querySourceFeatures('conformance-a', ['==', ['get', 'name'], 'Boston']).length === 0,
+          'querySourceFeatures() filter not applied'
+        );
+
+        map.setLayerVisibility('conformance-a', false);
+        await settle();
+        assert(
+          map.queryRenderedFeatures([[0, 0], [800, 600]]).length === 0,
+          'queryRenderedFeatures() returned features of a hidden layer'
+        );
+      });
+
+      it('applies layer filters', async () => {
+        await map.initialize();
+        await map.addLayer({ ...createSampleLayer('conformance-a'), filter: ['==', ['get', 'name'], 'Boston'] });
+
+        assert(
+          map.queryRenderedFeatures([[0, 0], [800, 600]]).length === 0,
+          'queryRenderedFeatures() returned features the layer filter excludes'
+        );
+        assert(map.querySourceFeatures('conformance-a').length === 1, 'querySourceFeatures() applied the layer filter');
+
+        await map.updateLayer('conformance-a', { filter: ['==', ['get', 'name'], 'New York'] });
+        assert(
+          JSON.stringify(map.getLayer('conformance-a')?.filter) === '["==",["get","name"],"New York"]',
+          'updateLayer() did not replace the filter'
+        );
+      });
+
+      it('keeps feature state', async () => {
+        await map.initialize();
+        await map.addLayer({
+          ...createSampleLayer('conformance-a'),
+          style: { fillColor: '#ff0000', hover: { fillColor: '#0000ff' }, selected: { radius: 12 } },
+        });
+
+        const target = { layerId: 'conformance-a', featureId: 'nyc' };
+        map.setFeatureState(target, { hover: true });
+        map.setFeatureState(target, { selected: true });
+        let state = map.getFeatureState(target);
+        assert(state.hover === true && state.selected === true, 'setFeatureState() did not merge the state');
+
+        map.removeFeatureState(target, 'hover');
+        state = map.getFeatureState(target);
+        assert(state.hover === undefined && state.selected === true, 'removeFeatureState() did not remove only the key');
+
+        map.removeFeatureState({ layerId: 'conformance-a' });
+        assert(Object.keys(map.getFeatureState(target)).length === 0, 'removeFeatureState() did not clear the layer');
+
+        map.setFeatureState(target, { selected: true });
+        map.removeLayer('conformance-a');
+        await map.addLayer(createSampleLayer('conformance-a'));
+        assert(Object.keys(map.getFeatureState(target)).length === 0, 'feature state outlived its layer');
+      });
+    });
+
+    scenario('events', () => {
+      it('delivers camera events to listeners', async () => {
+        await map.initialize();
+        const received: MapEvent[] = [];
+        map.on('move', (event) => received.push(event));
+
+        map.setViewState({ center: [35.6762, 139.6503] });
+        await settle();
+
+        assert(received.length > 0, 'no move event after setViewState()');
+        assert(received.every((event) => event.type === 'move'), 'event type mismatch');
+      });
+
+      it('stops delivering events after off', async () => {
+        await map.initialize();
+        let count = 0;
+        const handler = () => {
+          count++;
+        };
+        map.on('move', handler);
+        map.off('move', handler);
+
+        map.setViewState({ center: [35.6762, 139.6503] });
+        await settle();
+
+        assert(count === 0, 'handler called after off()');
+      });
+    });
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Fetch stub
+ * Holds requests until the spec responds to them, to control when and in
+ * which order the data of layers loads
+ */
+
+/**
+ * Stubbed global fetch
+ */
+export interface FetchStub {
+  /**
+   * Respond to the pending request of a URL with JSON data
+   * @throws Error if the URL was not requested
+   */
+  respond(url: string, data: unknown): void;
+
+  /**
+   * Restore the original fetch
+   */
+  restore(): void;
+}
+
+/**
+ * Replace the global fetch with one whose requests wait for `respond`
+ */
+export function stubFetch(): FetchStub {
+  const originalFetch = globalThis.fetch;
+  const pending = new Map<string, (data: unknown) => void>();
+
+  globalThis.fetch = ((url: string) =>
+    new Promise<Response>((resolve) => {
+      pending.set(url, (data) => resolve({ ok: true, json: async () => data } as Response));
+    })) as typeof fetch;
+
+  return {
+    respond(url, data) {
+      const respond = pending.get(url);
+      if (!respond) {
+        throw new Error(`${url} was not requested`);
+      }
+      pending.delete(url);
+      respond(data);
+    },
+    restore() {
+      globalThis.fetch = originalFetch;
+    },
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Testing utilities
+ * Exports for verifying provider implementations
+ */
+
+export { runProviderConformanceSuite } from './conformance';
+export type {
+  ConformanceScenario,
+  ConformanceTestApi,
+  ConformanceSuiteOptions,
+} from './conformance';
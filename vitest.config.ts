@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // vite.config.ts serves the examples; specs live next to the sources
+    include: ['src/**/*.test.ts'],
+  },
+});